@@ -13,20 +13,23 @@ import {
 import { useFocusEffect } from '@react-navigation/native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { database } from '../../utils/database';
+import { database, Meeting, Tracker } from '../../utils/database';
+import { getNow } from '../../utils/clock';
 import { storage } from '../../utils/storage';
 import { Colors } from '../../constants/Colors';
 import { Fonts } from '../../constants/Fonts';
 import { calculateSobrietyDaysByDate } from '../../utils/database';
+import { formatNextMeeting, getNextMeeting } from '../../utils/meetings';
+import { formatSobrietyTime, TRACKING_MODES } from '../../utils/safeTracking';
+import { getHomeTrackers, HOME_ROTATE_INTERVAL_MS } from '../../utils/trackers';
 
 export default function HomeScreen() {
   const insets = useSafeAreaInsets();
   const [userName, setUserName] = useState<string | null>(null);
   const [encouragement, setEncouragement] = useState<any | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [isTrackingSobriety, setIsTrackingSobriety] = useState(false);
-  const [sobrietyDays, setSobrietyDays] = useState<number | null>(null);
-  const [sobrietyData, setSobrietyData] = useState<any>(null);
+  const [homeTrackers, setHomeTrackers] = useState<Tracker[]>([]);
+  const [homeTrackerIndex, setHomeTrackerIndex] = useState(0);
   const [isEncouragementLiked, setIsEncouragementLiked] = useState(false);
   const [currentIntention, setCurrentIntention] = useState<any | null>(null);
   const [todayCheckIn, setTodayCheckIn] = useState<any | null>(null);
@@ -34,6 +37,7 @@ export default function HomeScreen() {
   const [hasLoadedEncouragement, setHasLoadedEncouragement] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
   const [refreshing, setRefreshing] = useState(false);
+  const [nextMeeting, setNextMeeting] = useState<{ meeting: Meeting; startsAt: Date } | null>(null);
 
   useFocusEffect(
     React.useCallback(() => {
@@ -47,9 +51,20 @@ export default function HomeScreen() {
       loadCurrentIntention();
       loadTodayCheckIn(); // This will refresh every time the screen comes into focus
       loadSobrietyCounterSetting();
+      loadNextMeeting();
     }, [hasLoadedEncouragement, refreshKey])
   );
 
+  // Move on to the next tracker while Home is rotating through them
+  useEffect(() => {
+    if (homeTrackers.length < 2) return;
+
+    const interval = setInterval(() => {
+      setHomeTrackerIndex(index => (index + 1) % homeTrackers.length);
+    }, HOME_ROTATE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [homeTrackers.length]);
+
   const loadUserName = async () => {
     try {
       const name = await storage.getUserName();
@@ -91,26 +106,15 @@ export default function HomeScreen() {
 
   const loadSobrietyData = async () => {
     try {
-      const sobrietyData = await database.getSobrietyData();
-      if (sobrietyData && sobrietyData.tracking_sobriety && sobrietyData.sober_date) {
-        setIsTrackingSobriety(true);
-        
-        // Calculate days since sober date using calendar days
-        const daysDiff = calculateSobrietyDaysByDate(sobrietyData.sober_date);
-        
-        setSobrietyDays(daysDiff);
-        setSobrietyData(sobrietyData); // Store sobrietyData for conditional messaging
-        // console.log('Sobriety days calculated (calendar):', daysDiff);
-      } else {
-        setIsTrackingSobriety(false);
-        setSobrietyDays(null);
-        setSobrietyData(null); // Clear sobrietyData if not tracking
-      }
+      const [trackers, display] = await Promise.all([
+        database.getTrackers(),
+        storage.getHomeTrackerDisplay(),
+      ]);
+      // Only trackers that are counting, the primary one first
+      setHomeTrackers(getHomeTrackers(trackers, display));
     } catch (error) {
       // console.error('Error loading sobriety data:', error);
-      setIsTrackingSobriety(false);
-      setSobrietyDays(null);
-      setSobrietyData(null);
+      setHomeTrackers([]);
     }
   };
 
@@ -146,6 +150,15 @@ export default function HomeScreen() {
     }
   };
 
+  const loadNextMeeting = async () => {
+    try {
+      const meetings = await database.getMeetings();
+      setNextMeeting(getNextMeeting(meetings));
+    } catch (error) {
+      // console.error('Error loading next meeting:', error);
+    }
+  };
+
   const refreshCheckInStatus = async () => {
     // console.log('Manually refreshing check-in status');
     await loadTodayCheckIn();
@@ -158,37 +171,20 @@ export default function HomeScreen() {
     await loadTodayCheckIn();
     await loadCurrentIntention();
     await loadSobrietyData();
+    await loadNextMeeting();
     setRefreshing(false);
   };
 
   const getGreeting = () => {
-    const hour = new Date().getHours();
+    const hour = getNow().getHours();
     if (hour < 12) return 'Good Morning';
     if (hour < 17) return 'Good Afternoon';
     return 'Good Evening';
   };
 
-  const formatSobrietyTime = (days: number) => {
-    if (days === 0) return 'Today';
-    if (days === 1) return '1 Day';
-    if (days < 7) return `${days} Days`;
-    if (days < 30) {
-      const weeks = Math.floor(days / 7);
-      const remainingDays = days % 7;
-      if (remainingDays === 0) return `${weeks} Week${weeks > 1 ? 's' : ''}`;
-      return `${weeks} Week${weeks > 1 ? 's' : ''} ${remainingDays} Day${remainingDays > 1 ? 's' : ''}`;
-    }
-    if (days < 365) {
-      const months = Math.floor(days / 30);
-      const remainingDays = days % 30;
-      if (remainingDays === 0) return `${months} Month${months > 1 ? 's' : ''}`;
-      return `${months} Month${months > 1 ? 's' : ''} ${remainingDays} Day${remainingDays > 1 ? 's' : ''}`;
-    }
-    const years = Math.floor(days / 365);
-    const remainingDays = days % 365;
-    if (remainingDays === 0) return `${years} Year${years > 1 ? 's' : ''}`;
-    return `${years} Year${years > 1 ? 's' : ''} ${remainingDays} Day${remainingDays > 1 ? 's' : ''}`;
-  };
+  const sobrietyData = homeTrackers.length > 0 ? homeTrackers[homeTrackerIndex % homeTrackers.length] : null;
+  // Calculate days since sober date using calendar days
+  const sobrietyDays = sobrietyData?.sober_date ? calculateSobrietyDaysByDate(sobrietyData.sober_date) : null;
 
   return (
     <SafeAreaView style={styles.safeArea}>
@@ -245,27 +241,42 @@ export default function HomeScreen() {
         </TouchableOpacity>
       )}
       
-      {isTrackingSobriety && sobrietyDays !== null && showSobrietyCounter && (
+      {sobrietyData && sobrietyDays !== null && showSobrietyCounter && (
         <TouchableOpacity 
           style={styles.sobrietyCard}
           onPress={() => router.push('/(tabs)/sobriety')}
           activeOpacity={0.8}
         >
+          <Text style={styles.sobrietyTrackerName}>{sobrietyData.name}</Text>
           <View style={styles.sobrietyHeader}>
-            <Text style={styles.sobrietyIcon}>🌟</Text>
+            <Text style={styles.sobrietyIcon}>
+              {(TRACKING_MODES[sobrietyData.tracking_mode] ?? TRACKING_MODES.sober).icon}
+            </Text>
             <Text style={styles.sobrietyDays}>
               {sobrietyDays}
             </Text>
           </View>
           <Text style={styles.sobrietyLabel}>
-            {formatSobrietyTime(sobrietyDays)}
+            {formatSobrietyTime(sobrietyData.sober_date!)}
           </Text>
           <Text style={styles.sobrietySubtext}>
             {sobrietyData?.tracking_mode === 'trying' 
               ? 'Every effort counts - you\'re doing amazing'
-              : 'Every day is a victory - you\'re incredible'
+              : sobrietyData?.tracking_mode === 'reducing'
+                ? 'Progress, not perfection - every step counts'
+                : 'Every day is a victory - you\'re incredible'
             }
           </Text>
+          {homeTrackers.length > 1 && (
+            <View style={styles.rotationDots}>
+              {homeTrackers.map((tracker, index) => (
+                <View
+                  key={tracker.id}
+                  style={[styles.rotationDot, index === homeTrackerIndex % homeTrackers.length && styles.rotationDotActive]}
+                />
+              ))}
+            </View>
+          )}
         </TouchableOpacity>
       )}
       
@@ -320,6 +331,21 @@ export default function HomeScreen() {
           {currentIntention ? `${currentIntention.content.substring(0, 30)}${currentIntention.content.length > 30 ? '...' : ''}` : 'Set your current intention'}
         </Text>
       </TouchableOpacity>
+
+      <TouchableOpacity 
+        style={[styles.intentionButton, styles.meetingButton]}
+        onPress={() => router.push('/meetings')}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.intentionText}>
+          {nextMeeting ? 'Next Meeting' : 'My Meetings'}
+        </Text>
+        <Text style={styles.intentionSubtext}>
+          {nextMeeting
+            ? `${nextMeeting.meeting.name} · ${formatNextMeeting(nextMeeting.startsAt)}`
+            : 'Add the meetings you go to regularly'}
+        </Text>
+      </TouchableOpacity>
       </ScrollView>
     </SafeAreaView>
   );
@@ -363,6 +389,28 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 6,
   },
+  sobrietyTrackerName: {
+    ...Fonts.caption,
+    color: Colors.surface,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  rotationDots: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 12,
+  },
+  rotationDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  rotationDotActive: {
+    backgroundColor: Colors.surface,
+  },
   sobrietyHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -510,6 +558,10 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 4,
   },
+  meetingButton: {
+    // The intention card above already leaves a gap
+    marginTop: 0,
+  },
   intentionHeader: {
     flexDirection: 'row',
     alignItems: 'center',
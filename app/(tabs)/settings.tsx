@@ -13,11 +13,37 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { database } from '../../utils/database';
+import { database, SupportPerson, UserReason } from '../../utils/database';
 import { storage } from '../../utils/storage';
 import { Colors } from '../../constants/Colors';
 import { Fonts } from '../../constants/Fonts';
 import { calculateSobrietyDaysByDate } from '../../utils/database';
+import {
+  BREATHING_PATTERNS,
+  CustomBreathingTimings,
+  DEFAULT_BREATHING_PATTERN_ID,
+  DEFAULT_CUSTOM_TIMINGS,
+  getBreathingPattern,
+  parseCustomTimings,
+  validateCustomTimings,
+} from '../../utils/breathingPatterns';
+import { MAX_REASON_LENGTH, MAX_WHY_NOTE_LENGTH, PRESET_REASONS } from '../../utils/reasons';
+import { parseTimeOfDay, SUPPORT_ROLES } from '../../utils/supportContacts';
+import { COUNTRIES, CountryCode, DEFAULT_COUNTRY } from '../../utils/countries';
+import { formatPhoneNumber } from '../../utils/phone';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  getDeliveryTime,
+  QuietHours,
+  REMINDERS,
+  ReminderId,
+  ReminderSettings,
+} from '../../utils/reminders';
+import { applyReminderSettings, refreshScheduledNotifications } from '../../utils/notifications';
+import { formatTimeZone, getDeviceTimeZone, getHomeTimeZone, getNow, setHomeTimeZone } from '../../utils/clock';
+import { formatTimeOfDay } from '../../utils/meetings';
+import { HomeTrackerDisplay } from '../../utils/trackers';
+import { SupportPersonModal } from '../../components/SupportPersonModal';
 
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
@@ -30,23 +56,53 @@ export default function SettingsScreen() {
     intentions: 0,
     checkIns: 0,
     sosActivations: 0,
+    lastSOSActivation: null as string | null,
   });
-  const [supportPerson, setSupportPerson] = useState<any | null>(null);
+  const [supportPeople, setSupportPeople] = useState<SupportPerson[]>([]);
   const [showSupportModal, setShowSupportModal] = useState(false);
-  const [supportName, setSupportName] = useState('');
-  const [supportPhone, setSupportPhone] = useState('');
+  const [editingSupportPerson, setEditingSupportPerson] = useState<SupportPerson | null>(null);
   const [showSobrietyCounter, setShowSobrietyCounter] = useState(true);
+  const [homeTrackerDisplay, setHomeTrackerDisplay] = useState<HomeTrackerDisplay>('primary');
   const [userName, setUserName] = useState<string>('');
   const [showUsernameModal, setShowUsernameModal] = useState(false);
   const [newUsername, setNewUsername] = useState('');
+  const [breathingPatternId, setBreathingPatternId] = useState(DEFAULT_BREATHING_PATTERN_ID);
+  const [customTimings, setCustomTimings] = useState<CustomBreathingTimings>(DEFAULT_CUSTOM_TIMINGS);
+  const [showBreathingModal, setShowBreathingModal] = useState(false);
+  const [selectedPatternId, setSelectedPatternId] = useState(DEFAULT_BREATHING_PATTERN_ID);
+  const [customInputs, setCustomInputs] = useState<Record<keyof CustomBreathingTimings, string>>({
+    inhale: '', holdIn: '', exhale: '', holdOut: '',
+  });
+  const [country, setCountry] = useState<CountryCode>(DEFAULT_COUNTRY);
+  const [showCountryModal, setShowCountryModal] = useState(false);
+  const [timeZone, setTimeZone] = useState(getHomeTimeZone);
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [showReminderTimesModal, setShowReminderTimesModal] = useState(false);
+  const [reminderTimeInputs, setReminderTimeInputs] = useState<Record<ReminderId, string>>({
+    check_in: '',
+    intention: '',
+    evening_reflection: '',
+  });
+  const [quietHoursInputs, setQuietHoursInputs] = useState({ start: '', end: '' });
+  const [reasons, setReasons] = useState<UserReason[]>([]);
+  const [whyNote, setWhyNote] = useState('');
+  const [showReasonsModal, setShowReasonsModal] = useState(false);
+  const [selectedPresetReasons, setSelectedPresetReasons] = useState<string[]>([]);
+  const [editCustomReasons, setEditCustomReasons] = useState<string[]>([]);
+  const [newCustomReason, setNewCustomReason] = useState('');
+  const [editWhyNote, setEditWhyNote] = useState('');
   const [backupStatus, setBackupStatus] = useState<{ exists: boolean; timestamp?: string; age?: number; size?: number }>({ exists: false });
 
   useEffect(() => {
     loadDataStats();
-    loadSupportPerson();
+    loadSupportPeople();
     loadSobrietyCounterSetting();
     loadUserName();
     loadBackupStatus();
+    loadBreathingPattern();
+    loadReasons();
+    loadCountry();
+    loadReminderSettings();
   }, []);
 
   const loadDataStats = async () => {
@@ -57,7 +113,7 @@ export default function SettingsScreen() {
       const encouragementStats = await database.getEncouragementStats();
       
       // Get sobriety data
-      const sobrietyData = await database.getSobrietyData();
+      const sobrietyData = await database.getPrimaryTracker();
       let sobrietyDays = 0;
       if (sobrietyData?.tracking_sobriety && sobrietyData?.sober_date) {
         // Calculate days since sober date using calendar days
@@ -69,6 +125,7 @@ export default function SettingsScreen() {
       const intentions = await database.getIntentions();
       const checkIns = await database.getCheckInHistory();
       const sosLogs = await database.getSOSLogs();
+      const sosLogCount = await database.getSOSLogCount();
 
       setDataStats({
         encouragements: encouragementStats || { total: 0, seen: 0, unseen: 0 },
@@ -76,7 +133,8 @@ export default function SettingsScreen() {
         journalEntries: journalEntries.length,
         intentions: intentions.length,
         checkIns: checkIns.length,
-        sosActivations: sosLogs.length,
+        sosActivations: sosLogCount,
+        lastSOSActivation: sosLogs.length > 0 ? sosLogs[0].timestamp : null,
       });
     } catch (error) {
       // console.error('Error loading data stats:', error);
@@ -85,14 +143,10 @@ export default function SettingsScreen() {
     }
   };
 
-  const loadSupportPerson = async () => {
+  const loadSupportPeople = async () => {
     try {
-      const person = await database.getSupportPerson();
-      setSupportPerson(person);
-      if (person) {
-        setSupportName(person.name);
-        setSupportPhone(person.phone);
-      }
+      const people = await database.getSupportPeople();
+      setSupportPeople(people);
     } catch (error) {
       // console.error('Error loading support person:', error);
     }
@@ -102,6 +156,7 @@ export default function SettingsScreen() {
     try {
       const showCounter = await storage.getShowSobrietyCounter();
       setShowSobrietyCounter(showCounter);
+      setHomeTrackerDisplay(await storage.getHomeTrackerDisplay());
     } catch (error) {
       // console.error('Error loading sobriety counter setting:', error);
     }
@@ -116,6 +171,45 @@ export default function SettingsScreen() {
     }
   };
 
+  const loadBreathingPattern = async () => {
+    try {
+      const saved = await storage.getBreathingPattern();
+      setBreathingPatternId(saved.patternId);
+      setCustomTimings(saved.customTimings);
+    } catch (error) {
+      // console.error('Error loading breathing pattern:', error);
+    }
+  };
+
+  const loadCountry = async () => {
+    try {
+      setCountry(await storage.getCountry());
+    } catch (error) {
+      // console.error('Error loading country:', error);
+    }
+  };
+
+  const loadReminderSettings = async () => {
+    try {
+      setReminderSettings(await storage.getReminderSettings());
+    } catch (error) {
+      // console.error('Error loading reminder settings:', error);
+    }
+  };
+
+  const loadReasons = async () => {
+    try {
+      const [entries, user] = await Promise.all([
+        database.getUserReasonEntries(),
+        database.getUser(),
+      ]);
+      setReasons(entries);
+      setWhyNote(user?.why_note || '');
+    } catch (error) {
+      // console.error('Error loading reasons:', error);
+    }
+  };
+
   const loadBackupStatus = async () => {
     try {
       const status = await database.getBackupStatus();
@@ -162,6 +256,133 @@ export default function SettingsScreen() {
     setNewUsername('');
   };
 
+  const handleEditBreathingPattern = () => {
+    setSelectedPatternId(breathingPatternId);
+    setCustomInputs({
+      inhale: customTimings.inhale.toString(),
+      holdIn: customTimings.holdIn.toString(),
+      exhale: customTimings.exhale.toString(),
+      holdOut: customTimings.holdOut.toString(),
+    });
+    setShowBreathingModal(true);
+  };
+
+  const handleSaveBreathingPattern = async () => {
+    let timings = customTimings;
+
+    if (selectedPatternId === 'custom') {
+      timings = parseCustomTimings(customInputs);
+      const validationError = validateCustomTimings(timings);
+      if (validationError) {
+        Alert.alert('Check Your Timings', validationError);
+        return;
+      }
+    }
+
+    try {
+      setIsLoading(true);
+      await storage.setBreathingPattern(selectedPatternId, timings);
+      await loadBreathingPattern();
+      setShowBreathingModal(false);
+    } catch (error) {
+      // console.error('Error saving breathing pattern:', error);
+      Alert.alert('Error', 'Failed to save breathing pattern. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelectCountry = async (code: CountryCode) => {
+    try {
+      await storage.setCountry(code);
+      setCountry(code);
+      setShowCountryModal(false);
+    } catch (error) {
+      // console.error('Error saving country:', error);
+      Alert.alert('Error', 'Failed to save your country. Please try again.');
+    }
+  };
+
+  const handleHomeTimeZone = () => {
+    const deviceTimeZone = getDeviceTimeZone();
+    if (deviceTimeZone === timeZone) {
+      Alert.alert(
+        'Home Time Zone',
+        `Your days are counted in ${formatTimeZone(timeZone)} time. If you travel, your counter and check-ins stay on ${formatTimeZone(timeZone)} days until you change it here.`
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Home Time Zone',
+      `Your days are counted in ${formatTimeZone(timeZone)} time, but your phone is set to ${formatTimeZone(deviceTimeZone)}. If you've moved, switch so your days start at midnight where you are.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: `Use ${formatTimeZone(deviceTimeZone)}`,
+          onPress: async () => {
+            try {
+              await storage.setHomeTimeZone(deviceTimeZone);
+              setHomeTimeZone(deviceTimeZone);
+              setTimeZone(deviceTimeZone);
+              // Milestone days may have moved
+              await refreshScheduledNotifications();
+            } catch (error) {
+              // console.error('Error saving home time zone:', error);
+              Alert.alert('Error', 'Failed to save your time zone. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEditReasons = () => {
+    setSelectedPresetReasons(reasons.filter(r => !r.is_custom).map(r => r.reason));
+    setEditCustomReasons(reasons.filter(r => r.is_custom).map(r => r.reason));
+    setNewCustomReason('');
+    setEditWhyNote(whyNote);
+    setShowReasonsModal(true);
+  };
+
+  const togglePresetReason = (reason: string) => {
+    setSelectedPresetReasons(prev =>
+      prev.includes(reason) ? prev.filter(r => r !== reason) : [...prev, reason]
+    );
+  };
+
+  const handleAddCustomReason = () => {
+    const reason = newCustomReason.trim();
+    if (!reason) return;
+
+    if (!editCustomReasons.includes(reason) && !PRESET_REASONS.includes(reason)) {
+      setEditCustomReasons(prev => [...prev, reason]);
+    }
+    setNewCustomReason('');
+  };
+
+  const handleSaveReasons = async () => {
+    try {
+      setIsLoading(true);
+      await storage.setUserReasons([...selectedPresetReasons, ...editCustomReasons]);
+      await database.saveUserReasons(selectedPresetReasons, editCustomReasons);
+      await database.updateWhyNote(editWhyNote.trim());
+      await loadReasons();
+      setShowReasonsModal(false);
+    } catch (error) {
+      // console.error('Error saving reasons:', error);
+      Alert.alert('Error', 'Failed to save your reasons. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getReasonsSubtitle = () => {
+    if (reasons.length === 0 && !whyNote) return 'Add reasons to see during SOS';
+    const count = `${reasons.length} reason${reasons.length === 1 ? '' : 's'}`;
+    return whyNote ? `${count} and your note` : count;
+  };
+
 
   const handleResetEncouragements = () => {
     Alert.alert(
@@ -281,7 +502,11 @@ export default function SettingsScreen() {
       
       // Collect all data
       const encouragements = await database.getEncouragementStats();
-      const sobrietyData = await database.getSobrietyData();
+      const trackers = await database.getTrackers();
+      const streaks = await database.getStreaks();
+      const customMilestones = await database.getCustomMilestones();
+      const milestoneCelebrations = await database.getMilestoneCelebrations();
+      const consumptionEntries = await database.getConsumptionEntries();
       const journalEntries = await database.getJournalEntries();
       const intentions = await database.getIntentions();
       const checkIns = await database.getCheckInHistory();
@@ -289,9 +514,13 @@ export default function SettingsScreen() {
       const user = await database.getUser();
 
       const exportData = {
-        exportDate: new Date().toISOString(),
+        exportDate: getNow().toISOString(),
         user,
-        sobrietyData,
+        trackers,
+        streaks,
+        customMilestones,
+        milestoneCelebrations,
+        consumptionEntries,
         encouragements,
         journalEntries,
         intentions,
@@ -313,34 +542,48 @@ export default function SettingsScreen() {
     }
   };
 
-  const handleEditSupportPerson = () => {
+  const handleAddSupportPerson = () => {
+    setEditingSupportPerson(null);
     setShowSupportModal(true);
   };
 
-  const handleSaveSupportPerson = async () => {
-    if (!supportName.trim() || !supportPhone.trim()) {
-      Alert.alert('Error', 'Please enter both name and phone number.');
-      return;
-    }
+  const handleEditSupportPerson = (person: SupportPerson) => {
+    setEditingSupportPerson(person);
+    setShowSupportModal(true);
+  };
+
+  const handleSupportPersonSaved = async () => {
+    const wasEditing = !!editingSupportPerson;
+    setShowSupportModal(false);
+    setEditingSupportPerson(null);
+    await loadSupportPeople();
+    Alert.alert('Success', wasEditing ? 'Support person information updated.' : 'Support person added.');
+  };
+
+  // Swap a person with their neighbour in the priority order
+  const handleMoveSupportPerson = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= supportPeople.length) return;
+
+    const reordered = [...supportPeople];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSupportPeople(reordered);
 
     try {
-      setIsLoading(true);
-      await database.saveSupportPerson(supportName.trim(), supportPhone.trim());
-      await loadSupportPerson();
-      setShowSupportModal(false);
-      Alert.alert('Success', 'Support person information updated.');
+      await database.reorderSupportPeople(
+        reordered.map(person => person.id).filter((id): id is number => id != null)
+      );
     } catch (error) {
-      // console.error('Error saving support person:', error);
-      Alert.alert('Error', 'Failed to save support person. Please try again.');
-    } finally {
-      setIsLoading(false);
+      // console.error('Error reordering support people:', error);
+      Alert.alert('Error', 'Failed to save the new order. Please try again.');
+      await loadSupportPeople();
     }
   };
 
-  const handleRemoveSupportPerson = () => {
+  const handleRemoveSupportPerson = (person: SupportPerson) => {
     Alert.alert(
       'Remove Support Person',
-      'Are you sure you want to remove your support person?',
+      `Are you sure you want to remove ${person.name} from your support people?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -349,10 +592,8 @@ export default function SettingsScreen() {
           onPress: async () => {
             try {
               setIsLoading(true);
-              await database.saveSupportPerson('', ''); // Clear the support person
-              await loadSupportPerson();
-              setSupportName('');
-              setSupportPhone('');
+              await database.deleteSupportPerson(person.id!);
+              await loadSupportPeople();
               Alert.alert('Success', 'Support person removed.');
             } catch (error) {
               // console.error('Error removing support person:', error);
@@ -408,6 +649,111 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleToggleHomeTrackerDisplay = async () => {
+    try {
+      const newValue: HomeTrackerDisplay = homeTrackerDisplay === 'rotate' ? 'primary' : 'rotate';
+      await storage.setHomeTrackerDisplay(newValue);
+      setHomeTrackerDisplay(newValue);
+    } catch (error) {
+      // console.error('Error saving home tracker display:', error);
+      Alert.alert('Error', 'Failed to update home screen setting. Please try again.');
+    }
+  };
+
+  // Saves and reschedules; reminders are switched back off if notifications aren't allowed
+  const updateReminderSettings = async (next: ReminderSettings) => {
+    try {
+      const allowed = await applyReminderSettings(next);
+      const saved = allowed ? next : {
+        ...next,
+        reminders: (Object.keys(next.reminders) as ReminderId[]).reduce((reminders, id) => ({
+          ...reminders,
+          [id]: { ...next.reminders[id], enabled: false },
+        }), next.reminders),
+        milestones: false,
+      };
+      await storage.setReminderSettings(saved);
+      setReminderSettings(saved);
+
+      if (!allowed) {
+        Alert.alert(
+          'Notifications Are Off',
+          'To get reminders, allow notifications for Sober Balance in your device settings.'
+        );
+      }
+      return allowed;
+    } catch (error) {
+      // console.error('Error saving reminder settings:', error);
+      Alert.alert('Error', 'Failed to update reminders. Please try again.');
+      return false;
+    }
+  };
+
+  const handleToggleReminder = (id: ReminderId) => {
+    const current = reminderSettings.reminders[id];
+    updateReminderSettings({
+      ...reminderSettings,
+      reminders: { ...reminderSettings.reminders, [id]: { ...current, enabled: !current.enabled } },
+    });
+  };
+
+  const handleToggleMilestones = () => {
+    updateReminderSettings({ ...reminderSettings, milestones: !reminderSettings.milestones });
+  };
+
+  const handleToggleQuietHours = () => {
+    updateReminderSettings({
+      ...reminderSettings,
+      quietHours: { ...reminderSettings.quietHours, enabled: !reminderSettings.quietHours.enabled },
+    });
+  };
+
+  const handleEditReminderTimes = () => {
+    const { reminders, quietHours } = reminderSettings;
+    setReminderTimeInputs({
+      check_in: reminders.check_in.time,
+      intention: reminders.intention.time,
+      evening_reflection: reminders.evening_reflection.time,
+    });
+    setQuietHoursInputs({ start: quietHours.start, end: quietHours.end });
+    setShowReminderTimesModal(true);
+  };
+
+  const handleSaveReminderTimes = async () => {
+    const ids = Object.keys(REMINDERS) as ReminderId[];
+    const times = ids.map(id => parseTimeOfDay(reminderTimeInputs[id]));
+    const quietStart = parseTimeOfDay(quietHoursInputs.start);
+    const quietEnd = parseTimeOfDay(quietHoursInputs.end);
+
+    if (times.some(time => !time) || !quietStart || !quietEnd) {
+      Alert.alert('Invalid Time', 'Please enter times like 9:00 or 20:30.');
+      return;
+    }
+
+    const saved = await updateReminderSettings({
+      ...reminderSettings,
+      reminders: ids.reduce((reminders, id, index) => ({
+        ...reminders,
+        [id]: { ...reminderSettings.reminders[id], time: times[index]! },
+      }), reminderSettings.reminders),
+      quietHours: { ...reminderSettings.quietHours, start: quietStart, end: quietEnd },
+    });
+    if (saved) setShowReminderTimesModal(false);
+  };
+
+  const getReminderSubtitle = (id: ReminderId) => {
+    const { time, enabled } = reminderSettings.reminders[id];
+    if (!enabled) return REMINDERS[id].description;
+
+    const deliveryTime = getDeliveryTime(time, reminderSettings.quietHours);
+    return deliveryTime === time
+      ? `Every day at ${formatTimeOfDay(time)}`
+      : `Every day at ${formatTimeOfDay(deliveryTime)}, after quiet hours`;
+  };
+
+  const getQuietHoursSubtitle = (quietHours: QuietHours) =>
+    `${formatTimeOfDay(quietHours.start)} to ${formatTimeOfDay(quietHours.end)}${quietHours.enabled ? '' : ' (off)'}`;
+
   const handleDebugCheckIn = async () => {
     await database.debugCheckInStatus();
     Alert.alert('Debug Check-In', 'Check console for daily check-in debug information');
@@ -508,39 +854,81 @@ export default function SettingsScreen() {
             subtitle={userName ? `Current name: ${userName}` : "Set your display name"}
             onPress={handleEditUsername}
           />
+
+          <SettingItem
+            title="Country"
+            subtitle={`${COUNTRIES[country].name}, used for phone numbers and crisis lines`}
+            onPress={() => setShowCountryModal(true)}
+          />
+
+          <SettingItem
+            title="Home Time Zone"
+            subtitle={`${formatTimeZone(timeZone)}, used to count your days`}
+            onPress={handleHomeTimeZone}
+          />
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Support Person</Text>
+          <Text style={styles.sectionTitle}>My Reasons</Text>
           
-          {supportPerson ? (
-            <View style={styles.supportInfoCard}>
-              <View style={styles.supportInfoHeader}>
-                <Text style={styles.supportInfoIcon}>🤝</Text>
-                <Text style={styles.supportInfoName}>{supportPerson.name}</Text>
-              </View>
-              <Text style={styles.supportInfoPhone}>{supportPerson.phone}</Text>
-            </View>
-          ) : (
+          <SettingItem
+            title="Edit Reasons"
+            subtitle={getReasonsSubtitle()}
+            onPress={handleEditReasons}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Support People</Text>
+          
+          {supportPeople.length === 0 ? (
             <View style={styles.noSupportCard}>
               <Text style={styles.noSupportText}>No support person set</Text>
             </View>
+          ) : (
+            supportPeople.map((person, index) => (
+              <View key={person.id} style={styles.supportInfoCard}>
+                <View style={styles.supportInfoHeader}>
+                  <Text style={styles.supportInfoIcon}>{SUPPORT_ROLES[person.role]?.icon || '🤝'}</Text>
+                  <View style={styles.settingContent}>
+                    <Text style={styles.supportInfoName}>{person.name}</Text>
+                    <Text style={styles.settingSubtitle}>{SUPPORT_ROLES[person.role]?.label}</Text>
+                  </View>
+                  <View style={styles.reorderButtons}>
+                    <TouchableOpacity
+                      onPress={() => handleMoveSupportPerson(index, -1)}
+                      disabled={index === 0}
+                      accessibilityLabel={`Move ${person.name} up`}
+                    >
+                      <Text style={[styles.settingArrow, index === 0 && styles.reorderDisabled]}>▲</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => handleMoveSupportPerson(index, 1)}
+                      disabled={index === supportPeople.length - 1}
+                      accessibilityLabel={`Move ${person.name} down`}
+                    >
+                      <Text style={[styles.settingArrow, index === supportPeople.length - 1 && styles.reorderDisabled]}>▼</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+                <Text style={styles.supportInfoPhone}>{formatPhoneNumber(person.phone, country)}</Text>
+                <View style={styles.supportInfoActions}>
+                  <TouchableOpacity onPress={() => handleEditSupportPerson(person)}>
+                    <Text style={styles.supportInfoAction}>Edit</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleRemoveSupportPerson(person)}>
+                    <Text style={[styles.supportInfoAction, styles.destructiveText]}>Remove</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))
           )}
           
           <SettingItem
-            title={supportPerson ? "Edit Support Person" : "Add Support Person"}
-            subtitle={supportPerson ? "Update name and phone number" : "Set up someone to reach out to"}
-            onPress={handleEditSupportPerson}
+            title="Add Support Person"
+            subtitle={supportPeople.length > 1 ? "Use the arrows to set who comes first" : "Set up someone to reach out to"}
+            onPress={handleAddSupportPerson}
           />
-          
-          {supportPerson && (
-            <SettingItem
-              title="Remove Support Person"
-              subtitle="Remove from your support network"
-              onPress={handleRemoveSupportPerson}
-              destructive={true}
-            />
-          )}
         </View>
 
 
@@ -553,6 +941,78 @@ export default function SettingsScreen() {
             value={showSobrietyCounter}
             onToggle={handleToggleSobrietyCounter}
           />
+
+          <ToggleSettingItem
+            title="Rotate Trackers"
+            subtitle={homeTrackerDisplay === 'rotate'
+              ? "Home cycles through all your trackers"
+              : "Home shows your primary tracker"}
+            value={homeTrackerDisplay === 'rotate'}
+            onToggle={handleToggleHomeTrackerDisplay}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Reminders</Text>
+          
+          {(Object.keys(REMINDERS) as ReminderId[]).map(id => (
+            <ToggleSettingItem
+              key={id}
+              title={REMINDERS[id].label}
+              subtitle={getReminderSubtitle(id)}
+              value={reminderSettings.reminders[id].enabled}
+              onToggle={() => handleToggleReminder(id)}
+            />
+          ))}
+
+          <ToggleSettingItem
+            title="Milestones"
+            subtitle="A heads-up the morning before each milestone and anniversary, and on the day"
+            value={reminderSettings.milestones}
+            onToggle={handleToggleMilestones}
+          />
+
+          <ToggleSettingItem
+            title="Quiet Hours"
+            subtitle={getQuietHoursSubtitle(reminderSettings.quietHours)}
+            value={reminderSettings.quietHours.enabled}
+            onToggle={handleToggleQuietHours}
+          />
+
+          <SettingItem
+            title="Reminder Times"
+            subtitle="Choose when each reminder arrives"
+            onPress={handleEditReminderTimes}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>SOS Breathing</Text>
+          
+          <SettingItem
+            title="Breathing Pattern"
+            subtitle={getBreathingPattern(breathingPatternId, customTimings).name}
+            onPress={handleEditBreathingPattern}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>SOS History</Text>
+          
+          <View style={styles.supportInfoCard}>
+            <View style={styles.supportInfoHeader}>
+              <Text style={styles.supportInfoIcon}>🫁</Text>
+              <Text style={styles.supportInfoName}>
+                {dataStats.sosActivations} {dataStats.sosActivations === 1 ? 'Session' : 'Sessions'}
+              </Text>
+            </View>
+            <Text style={styles.settingSubtitle}>
+              {dataStats.lastSOSActivation
+                ? `Last used ${new Date(dataStats.lastSOSActivation).toLocaleString()}`
+                : 'You haven\'t needed SOS yet. It\'s here whenever you do.'
+              }
+            </Text>
+          </View>
         </View>
 
         <View style={styles.section}>
@@ -627,53 +1087,280 @@ export default function SettingsScreen() {
         )}
       </ScrollView>
 
-      {/* Support Person Modal */}
-      <Modal
+      <SupportPersonModal
         visible={showSupportModal}
+        person={editingSupportPerson}
+        onClose={() => setShowSupportModal(false)}
+        onSaved={handleSupportPersonSaved}
+      />
+
+      {/* Reminder Times Modal */}
+      <Modal
+        visible={showReminderTimesModal}
         transparent={true}
         animationType="fade"
-        onRequestClose={() => setShowSupportModal(false)}
+        onRequestClose={() => setShowReminderTimesModal(false)}
       >
         <View style={styles.modalOverlay}>
-          <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>
-              {supportPerson ? 'Edit Support Person' : 'Add Support Person'}
-            </Text>
+          <View style={[styles.modalContent, styles.tallModalContent]}>
+            <Text style={styles.modalTitle}>Reminder Times</Text>
             
-            <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Name</Text>
-              <TextInput
-                style={styles.textInput}
-                value={supportName}
-                onChangeText={setSupportName}
-                placeholder="Enter their name"
-                placeholderTextColor={Colors.textLight}
-              />
+            <ScrollView style={styles.patternList} keyboardShouldPersistTaps="handled">
+              {(Object.keys(REMINDERS) as ReminderId[]).map(id => (
+                <View key={id} style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>{REMINDERS[id].label}</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={reminderTimeInputs[id]}
+                    onChangeText={(value) => setReminderTimeInputs(prev => ({ ...prev, [id]: value }))}
+                    placeholder={REMINDERS[id].defaultTime}
+                    placeholderTextColor={Colors.textLight}
+                    keyboardType="numbers-and-punctuation"
+                    maxLength={5}
+                  />
+                </View>
+              ))}
+
+              <Text style={styles.inputLabel}>Quiet Hours</Text>
+              <Text style={styles.settingSubtitle}>
+                Reminders that fall in quiet hours arrive when they end.
+              </Text>
+              <View style={styles.customTimingsRow}>
+                {(['start', 'end'] as const).map(key => (
+                  <View key={key} style={styles.customTimingInput}>
+                    <Text style={styles.inputLabel}>{key === 'start' ? 'From' : 'Until'}</Text>
+                    <TextInput
+                      style={styles.textInput}
+                      value={quietHoursInputs[key]}
+                      onChangeText={(value) => setQuietHoursInputs(prev => ({ ...prev, [key]: value }))}
+                      placeholder={DEFAULT_REMINDER_SETTINGS.quietHours[key]}
+                      placeholderTextColor={Colors.textLight}
+                      keyboardType="numbers-and-punctuation"
+                      maxLength={5}
+                    />
+                  </View>
+                ))}
+              </View>
+            </ScrollView>
+            
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setShowReminderTimesModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleSaveReminderTimes}
+              >
+                <Text style={styles.saveButtonText}>Save</Text>
+              </TouchableOpacity>
             </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Country Modal */}
+      <Modal
+        visible={showCountryModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowCountryModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, styles.tallModalContent]}>
+            <Text style={styles.modalTitle}>Country</Text>
             
-            <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Phone Number</Text>
-              <TextInput
-                style={styles.textInput}
-                value={supportPhone}
-                onChangeText={setSupportPhone}
-                placeholder="Enter their phone number"
-                placeholderTextColor={Colors.textLight}
-                keyboardType="phone-pad"
-              />
+            <ScrollView style={styles.patternList} showsVerticalScrollIndicator={true}>
+              {Object.values(COUNTRIES).map(option => (
+                <TouchableOpacity
+                  key={option.code}
+                  style={[styles.patternOption, country === option.code && styles.patternOptionSelected]}
+                  onPress={() => handleSelectCountry(option.code)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.settingTitle, country === option.code && styles.patternOptionTextSelected]}>
+                    {country === option.code ? '✓ ' : ''}{option.name}
+                  </Text>
+                  <Text style={[styles.settingSubtitle, country === option.code && styles.patternOptionTextSelected]}>
+                    +{option.phone.callingCode}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setShowCountryModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>Close</Text>
+              </TouchableOpacity>
             </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Breathing Pattern Modal */}
+      <Modal
+        visible={showBreathingModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowBreathingModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, styles.tallModalContent]}>
+            <Text style={styles.modalTitle}>Breathing Pattern</Text>
+            
+            <ScrollView style={styles.patternList} showsVerticalScrollIndicator={true}>
+              {[...Object.values(BREATHING_PATTERNS), getBreathingPattern('custom', customTimings)].map(pattern => (
+                <TouchableOpacity
+                  key={pattern.id}
+                  style={[styles.patternOption, selectedPatternId === pattern.id && styles.patternOptionSelected]}
+                  onPress={() => setSelectedPatternId(pattern.id)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.settingTitle, selectedPatternId === pattern.id && styles.patternOptionTextSelected]}>
+                    {selectedPatternId === pattern.id ? '✓ ' : ''}{pattern.name}
+                  </Text>
+                  <Text style={[styles.settingSubtitle, selectedPatternId === pattern.id && styles.patternOptionTextSelected]}>
+                    {pattern.id === 'custom' ? 'Set your own timings, in seconds' : pattern.description}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              
+              {selectedPatternId === 'custom' && (
+                <View style={styles.customTimingsRow}>
+                  {([
+                    ['inhale', 'In'],
+                    ['holdIn', 'Hold'],
+                    ['exhale', 'Out'],
+                    ['holdOut', 'Hold'],
+                  ] as [keyof CustomBreathingTimings, string][]).map(([key, label]) => (
+                    <View key={key} style={styles.customTimingInput}>
+                      <Text style={styles.inputLabel}>{label}</Text>
+                      <TextInput
+                        style={styles.textInput}
+                        value={customInputs[key]}
+                        onChangeText={(value) => setCustomInputs(prev => ({ ...prev, [key]: value }))}
+                        placeholder="0"
+                        placeholderTextColor={Colors.textLight}
+                        keyboardType="numeric"
+                        maxLength={2}
+                      />
+                    </View>
+                  ))}
+                </View>
+              )}
+            </ScrollView>
             
             <View style={styles.modalButtons}>
               <TouchableOpacity
                 style={styles.cancelButton}
-                onPress={() => setShowSupportModal(false)}
+                onPress={() => setShowBreathingModal(false)}
               >
                 <Text style={styles.cancelButtonText}>Cancel</Text>
               </TouchableOpacity>
               
               <TouchableOpacity
                 style={styles.saveButton}
-                onPress={handleSaveSupportPerson}
+                onPress={handleSaveBreathingPattern}
+                disabled={isLoading}
+              >
+                <Text style={styles.saveButtonText}>
+                  {isLoading ? 'Saving...' : 'Save'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Reasons Modal */}
+      <Modal
+        visible={showReasonsModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowReasonsModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, styles.tallModalContent]}>
+            <Text style={styles.modalTitle}>My Reasons</Text>
+            
+            <ScrollView style={styles.patternList} showsVerticalScrollIndicator={true} keyboardShouldPersistTaps="handled">
+              {PRESET_REASONS.map(reason => (
+                <TouchableOpacity
+                  key={reason}
+                  style={[styles.patternOption, selectedPresetReasons.includes(reason) && styles.patternOptionSelected]}
+                  onPress={() => togglePresetReason(reason)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.settingTitle, selectedPresetReasons.includes(reason) && styles.patternOptionTextSelected]}>
+                    {selectedPresetReasons.includes(reason) ? '✓ ' : ''}{reason}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+
+              {editCustomReasons.map(reason => (
+                <View key={reason} style={[styles.patternOption, styles.patternOptionSelected, styles.customReasonRow]}>
+                  <Text style={[styles.settingTitle, styles.patternOptionTextSelected, styles.customReasonText]}>
+                    ✓ {reason}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => setEditCustomReasons(prev => prev.filter(r => r !== reason))}
+                    accessibilityLabel={`Remove ${reason}`}
+                  >
+                    <Text style={[styles.settingArrow, styles.patternOptionTextSelected]}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Add your own reason</Text>
+                <View style={styles.customReasonRow}>
+                  <TextInput
+                    style={[styles.textInput, styles.customReasonText]}
+                    value={newCustomReason}
+                    onChangeText={setNewCustomReason}
+                    placeholder="e.g. Being there for my kids"
+                    placeholderTextColor={Colors.textLight}
+                    maxLength={MAX_REASON_LENGTH}
+                    returnKeyType="done"
+                    onSubmitEditing={handleAddCustomReason}
+                  />
+                  <TouchableOpacity style={styles.addReasonButton} onPress={handleAddCustomReason}>
+                    <Text style={styles.saveButtonText}>Add</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Why I'm doing this</Text>
+                <TextInput
+                  style={[styles.textInput, styles.noteInput]}
+                  value={editWhyNote}
+                  onChangeText={setEditWhyNote}
+                  placeholder="A note to yourself for hard moments"
+                  placeholderTextColor={Colors.textLight}
+                  multiline
+                  maxLength={MAX_WHY_NOTE_LENGTH}
+                />
+              </View>
+            </ScrollView>
+            
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setShowReasonsModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleSaveReasons}
                 disabled={isLoading}
               >
                 <Text style={styles.saveButtonText}>
@@ -885,6 +1572,23 @@ const styles = StyleSheet.create({
     color: Colors.primary,
     fontWeight: '500',
   },
+  supportInfoActions: {
+    flexDirection: 'row',
+    gap: 24,
+    marginTop: 12,
+  },
+  supportInfoAction: {
+    ...Fonts.body,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  reorderButtons: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  reorderDisabled: {
+    opacity: 0.3,
+  },
   noSupportCard: {
     backgroundColor: Colors.surface,
     borderRadius: 12,
@@ -921,6 +1625,54 @@ const styles = StyleSheet.create({
     shadowRadius: 12,
     elevation: 8,
   },
+  tallModalContent: {
+    maxHeight: '85%',
+  },
+  patternList: {
+    flexShrink: 1,
+    marginBottom: 12,
+  },
+  patternOption: {
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    padding: 16,
+    marginBottom: 12,
+  },
+  patternOptionSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primaryDark,
+  },
+  patternOptionTextSelected: {
+    color: Colors.surface,
+  },
+  customTimingsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  customTimingInput: {
+    flex: 1,
+  },
+  customReasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  customReasonText: {
+    flex: 1,
+  },
+  addReasonButton: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+  },
+  noteInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
   modalTitle: {
     ...Fonts.largeTitle,
     color: Colors.text,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -10,34 +10,106 @@ import {
   Modal,
   TextInput,
   Animated,
+  AlertButton,
 } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { database } from '../../utils/database';
+import { router } from 'expo-router';
+import { ConsumptionEntry, database, Tracker } from '../../utils/database';
 import { storage } from '../../utils/storage';
 import { Colors } from '../../constants/Colors';
 import { Fonts } from '../../constants/Fonts';
 import { calculateSobrietyDaysByDate } from '../../utils/database';
-import { getEncouragementMessage, getMilestoneMessage, shouldShowMilestone } from '../../utils/safeTracking';
+import { getNow } from '../../utils/clock';
+import {
+  CountingTrackingMode,
+  formatElapsedTime,
+  formatSobrietyTime,
+  getEncouragementMessage,
+  isInFirstDays,
+  TRACKING_MODES,
+  TrackingModeId,
+} from '../../utils/safeTracking';
+import { createSoberDateDraft, draftToSoberDate, SoberDateDraft, validateSoberDateDraft } from '../../utils/soberDate';
+import { getLastCelebrated, getMilestoneToCelebrate, MilestoneCelebration } from '../../utils/milestones';
+import { refreshScheduledNotifications } from '../../utils/notifications';
+import { formatStreakDays, getStreakDays, MAX_STREAK_NOTE_LENGTH } from '../../utils/streaks';
+import {
+  DEFAULT_TRACKER_NAME,
+  getCountingTrackers,
+  MAX_TRACKER_NAME_LENGTH,
+  TRACKER_NAME_SUGGESTIONS,
+  validateTrackerName,
+} from '../../utils/trackers';
+import {
+  ConsumptionLimits,
+  DEFAULT_CONSUMPTION_LIMITS,
+  formatChange,
+  getDailyTotal,
+  getLimitProgress,
+  getTrackerConsumptionLimits,
+  getWeeklyTotal,
+  getWeeklyTrend,
+} from '../../utils/consumption';
+import { ConsumptionModal } from '../../components/ConsumptionModal';
+import { ConsumptionProgress } from '../../components/ConsumptionProgress';
+import { SavingsCard } from '../../components/SavingsCard';
+import { SavingsModal } from '../../components/SavingsModal';
+import { RecoveryTimelineCard } from '../../components/RecoveryTimelineCard';
+import { SoberDatePicker } from '../../components/SoberDatePicker';
+import { getTrackerRecoverySubstance } from '../../utils/recoveryTimeline';
+
+// What to ask when setting the start date for each counting mode
+const START_QUESTIONS: Record<CountingTrackingMode, string> = {
+  sober: 'When did you get sober?',
+  trying: 'When did you start trying?',
+  reducing: 'When did you start cutting back?',
+};
+
+// How often the hours and minutes count updates in the first days
+const FIRST_DAYS_REFRESH_MS = 30 * 1000;
+
+const SETUP_ENCOURAGEMENT: Record<CountingTrackingMode, string> = {
+  sober: 'Every day of sobriety is a victory worth celebrating. You\'re doing amazing! 🌟',
+  trying: 'Every day you choose to try is a step forward. Your commitment matters! 💪',
+  reducing: 'Every drink you skip is a win. Progress, not perfection! 📈',
+};
 
 export default function SobrietyScreen() {
   const insets = useSafeAreaInsets();
   const [isLoading, setIsLoading] = useState(false);
-  const [sobrietyData, setSobrietyData] = useState<any>(null);
+  const [trackers, setTrackers] = useState<Tracker[]>([]);
+  // The tracker being shown; survives reloads on focus
+  const selectedTrackerId = useRef<number | null>(null);
+  const [sobrietyData, setSobrietyData] = useState<Tracker | null>(null);
+  const [isAddingTracker, setIsAddingTracker] = useState(false);
+  const [trackerName, setTrackerName] = useState('');
   const [sobrietyDays, setSobrietyDays] = useState<number>(0);
   const [showSobrietyModal, setShowSobrietyModal] = useState(false);
   const [showTimeInputModal, setShowTimeInputModal] = useState(false);
   const [wantsTracking, setWantsTracking] = useState<boolean | null>(null);
-  const [trackingMode, setTrackingMode] = useState<'sober' | 'trying' | null>(null);
-  const [soberYears, setSoberYears] = useState('');
-  const [soberMonths, setSoberMonths] = useState('');
-  const [soberDays, setSoberDays] = useState('');
-  const [showMilestone, setShowMilestone] = useState(false);
-  const [milestoneMessage, setMilestoneMessage] = useState('');
+  const [trackingMode, setTrackingMode] = useState<CountingTrackingMode | null>(null);
+  const [lastStreakDays, setLastStreakDays] = useState<number | null>(null);
+  const [soberDateDraft, setSoberDateDraft] = useState<SoberDateDraft>(() => createSoberDateDraft());
+  const [showStartAgainModal, setShowStartAgainModal] = useState(false);
+  const [streakNote, setStreakNote] = useState('');
+  const [milestoneCelebration, setMilestoneCelebration] = useState<(MilestoneCelebration & { trackerName: string }) | null>(null);
+  const [consumptionEntries, setConsumptionEntries] = useState<ConsumptionEntry[]>([]);
+  const [consumptionLimits, setConsumptionLimits] = useState<ConsumptionLimits>(DEFAULT_CONSUMPTION_LIMITS);
+  const [showConsumptionModal, setShowConsumptionModal] = useState(false);
+  const [showSavingsModal, setShowSavingsModal] = useState(false);
+  const [now, setNow] = useState(getNow);
   const fadeAnim = useState(new Animated.Value(0))[0];
 
+  // Reload on focus so a milestone that passed while the app was closed is
+  // celebrated when the user comes back
+  useFocusEffect(
+    React.useCallback(() => {
+      loadSobrietyData();
+    }, [])
+  );
+
   useEffect(() => {
-    loadSobrietyData();
-    
     // Animate in the content
     Animated.timing(fadeAnim, {
       toValue: 1,
@@ -46,70 +118,195 @@ export default function SobrietyScreen() {
     }).start();
   }, []);
 
+  // Keep the hours and minutes counting in the first days
+  const countingSince = sobrietyData?.tracking_sobriety ? sobrietyData.sober_date : null;
+  useEffect(() => {
+    if (!countingSince || !isInFirstDays(countingSince)) return;
+
+    setNow(getNow());
+    const interval = setInterval(() => setNow(getNow()), FIRST_DAYS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [countingSince]);
+
   const loadSobrietyData = async () => {
     try {
-      const data = await database.getSobrietyData();
+      const savedTrackers = await database.getTrackers();
+      // Stay on the tracker being looked at, or start on the primary one
+      const data = savedTrackers.find(tracker => tracker.id === selectedTrackerId.current) ?? savedTrackers[0] ?? null;
+      selectedTrackerId.current = data?.id ?? null;
+      setTrackers(savedTrackers);
       setSobrietyData(data);
       
       if (data && data.tracking_sobriety && data.sober_date) {
         const daysDiff = calculateSobrietyDaysByDate(data.sober_date);
         setSobrietyDays(daysDiff);
-        
-        // Check for milestones
-        if (shouldShowMilestone(daysDiff)) {
-          setMilestoneMessage(getMilestoneMessage(daysDiff));
-          setShowMilestone(true);
-        }
       } else {
         setSobrietyDays(0);
       }
+
+      await checkForMilestone(savedTrackers);
+
+      // Shown while paused so the last streak isn't out of sight
+      const [lastStreak] = data ? await database.getStreaks(data.id) : [];
+      setLastStreakDays(lastStreak ? getStreakDays(lastStreak) : null);
+
+      if (data?.tracking_mode === 'reducing') {
+        await loadConsumption(data);
+      }
     } catch (error) {
       // console.error('Error loading sobriety data:', error);
     }
   };
 
-  const calculateSoberDate = () => {
-    const years = parseInt(soberYears) || 0;
-    const months = parseInt(soberMonths) || 0;
-    const days = parseInt(soberDays) || 0;
+  const loadConsumption = async (tracker: Tracker) => {
+    try {
+      const entries = await database.getConsumptionEntries(tracker.id!);
+      setConsumptionEntries(entries);
+      setConsumptionLimits(getTrackerConsumptionLimits(tracker));
+    } catch (error) {
+      // console.error('Error loading consumption log:', error);
+    }
+  };
 
-    const now = new Date();
-    const soberDate = new Date(now);
-    
-    soberDate.setFullYear(soberDate.getFullYear() - years);
-    soberDate.setMonth(soberDate.getMonth() - months);
-    soberDate.setDate(soberDate.getDate() - days);
-    
-    return soberDate.toISOString();
+  const handleSavingsSaved = async () => {
+    setShowSavingsModal(false);
+    await loadSobrietyData();
+  };
+
+  const handleConsumptionSaved = async () => {
+    setShowConsumptionModal(false);
+    if (sobrietyData) {
+      await loadConsumption(sobrietyData);
+    }
+  };
+
+  // Celebrates one tracker's milestone at a time; any others are shown the
+  // next time the tab is opened
+  const checkForMilestone = async (savedTrackers: Tracker[]) => {
+    for (const tracker of getCountingTrackers(savedTrackers)) {
+      const soberDate = tracker.sober_date!;
+      const now = getNow();
+      const customMilestones = await database.getCustomMilestones(tracker.id!);
+      const celebration = getMilestoneToCelebrate(
+        soberDate,
+        getLastCelebrated(soberDate, await database.getMilestoneCelebrations(tracker.id!)),
+        now,
+        customMilestones
+      );
+      if (!celebration) continue;
+
+      // The celebration history is also what stops it being shown again
+      await database.addMilestoneCelebration({
+        tracker_id: tracker.id!,
+        sober_date: soberDate,
+        milestone_id: celebration.milestone.id,
+        label: celebration.milestone.label,
+        date_key: celebration.milestone.dateKey,
+        celebrated_at: now.toISOString(),
+      });
+      setMilestoneCelebration({ ...celebration, trackerName: tracker.name });
+      return;
+    }
+  };
+
+  // Keeps the copy of the primary tracker in AsyncStorage up to date
+  const syncStoredSobrietyData = async () => {
+    const primary = await database.getPrimaryTracker();
+    await storage.setSobrietyData({
+      trackingSobriety: !!primary?.tracking_sobriety,
+      trackingMode: primary?.tracking_mode ?? 'sober',
+      soberDate: primary?.sober_date ?? undefined,
+    });
+  };
+
+  const handleSelectTracker = async (id: number) => {
+    selectedTrackerId.current = id;
+    await loadSobrietyData();
+  };
+
+  const handleTrackerOptions = (tracker: Tracker) => {
+    const buttons: AlertButton[] = [
+      { text: 'Delete Tracker', style: 'destructive', onPress: () => handleDeleteTracker(tracker) },
+      { text: 'Cancel', style: 'cancel' },
+    ];
+    if (!tracker.is_primary) {
+      buttons.unshift({ text: 'Show on Home', onPress: () => handleMakePrimary(tracker) });
+    }
+    Alert.alert(tracker.name, undefined, buttons);
+  };
+
+  const handleMakePrimary = async (tracker: Tracker) => {
+    try {
+      await database.setPrimaryTracker(tracker.id!);
+      await syncStoredSobrietyData();
+      await loadSobrietyData();
+    } catch (error) {
+      // console.error('Error setting primary tracker:', error);
+      Alert.alert('Error', 'Failed to update your primary tracker. Please try again.');
+    }
+  };
+
+  const handleDeleteTracker = (tracker: Tracker) => {
+    Alert.alert(
+      `Delete ${tracker.name}?`,
+      'This removes the tracker and its streak history. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await database.deleteTracker(tracker.id!);
+              if (selectedTrackerId.current === tracker.id) {
+                selectedTrackerId.current = null;
+              }
+              await syncStoredSobrietyData();
+              await loadSobrietyData();
+              await refreshScheduledNotifications();
+            } catch (error) {
+              // console.error('Error deleting tracker:', error);
+              Alert.alert('Error', 'Failed to delete tracker. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleAddTracker = () => {
+    setIsAddingTracker(true);
+    setTrackerName('');
+    setWantsTracking(null);
+    setTrackingMode(null);
+    setShowSobrietyModal(true);
+    setShowTimeInputModal(false);
+  };
+
+  const calculateSoberDate = () => {
+    // Saving the date as it was shown keeps the exact time it started
+    const current = !isAddingTracker && sobrietyData?.tracking_sobriety ? sobrietyData.sober_date : null;
+    return draftToSoberDate(soberDateDraft, current);
   };
 
   const handleSetupSobrietyTracking = () => {
-    // Reset state for first modal
+    // Reset state for first modal. Without any trackers yet, this adds one.
+    setIsAddingTracker(!sobrietyData);
+    setTrackerName(sobrietyData?.name ?? DEFAULT_TRACKER_NAME);
     setWantsTracking(null);
     setTrackingMode(null);
     setShowSobrietyModal(true);
     setShowTimeInputModal(false);
   };
 
-  const handleTrackingOptionSelected = (tracking: boolean, mode?: 'sober' | 'trying') => {
+  const handleTrackingOptionSelected = (tracking: boolean, mode?: CountingTrackingMode) => {
     setWantsTracking(tracking);
     if (tracking && mode) {
       setTrackingMode(mode);
       
       // If user already has tracking enabled, populate with current data
-      if (sobrietyData?.tracking_sobriety && sobrietyDays !== null) {
-        const years = Math.floor(sobrietyDays / 365);
-        const months = Math.floor((sobrietyDays % 365) / 30);
-        const days = sobrietyDays % 30;
-        
-        setSoberYears(years.toString());
-        setSoberMonths(months.toString());
-        setSoberDays(days.toString());
-      } else {
-        setSoberYears('');
-        setSoberMonths('');
-        setSoberDays('');
-      }
+      const current = !isAddingTracker && sobrietyData?.tracking_sobriety ? sobrietyData.sober_date : null;
+      setSoberDateDraft(createSoberDateDraft(current));
     }
     
     // Keep first modal open and open second modal on top
@@ -123,32 +320,20 @@ export default function SobrietyScreen() {
     }
 
     if (wantsTracking && trackingMode === null) {
-      Alert.alert('Tracking Mode Required', 'Please select whether you want to track days sober or days trying to be sober.');
+      Alert.alert('Tracking Mode Required', 'Please select whether you want to track days sober, days trying to be sober, or days cutting back.');
       return;
     }
 
     if (wantsTracking) {
-      const years = parseInt(soberYears) || 0;
-      const months = parseInt(soberMonths) || 0;
-      const days = parseInt(soberDays) || 0;
-
-      if (years === 0 && months === 0 && days === 0) {
-        Alert.alert('Time Required', 'Please enter at least some time (days, months, or years) for your sobriety tracking.');
+      const nameError = validateTrackerName(trackerName, trackers, isAddingTracker ? undefined : sobrietyData?.id);
+      if (nameError) {
+        Alert.alert('Tracker Name', nameError);
         return;
       }
 
-      if (years > 50) {
-        Alert.alert('Invalid Years', 'Please enter a reasonable number of years (50 or less).');
-        return;
-      }
-
-      if (months > 11) {
-        Alert.alert('Invalid Months', 'Please enter 0-11 months (12+ months should be counted as years).');
-        return;
-      }
-
-      if (days > 365) {
-        Alert.alert('Invalid Days', 'Please enter 0-365 days (365+ days should be counted as months/years).');
+      const dateError = validateSoberDateDraft(soberDateDraft);
+      if (dateError) {
+        Alert.alert('Check Your Start Date', dateError);
         return;
       }
     }
@@ -156,24 +341,42 @@ export default function SobrietyScreen() {
     try {
       setIsLoading(true);
       if (wantsTracking) {
-        const soberDate = calculateSoberDate();
-        await storage.setSobrietyData({
-          trackingSobriety: true,
-          trackingMode: trackingMode!,
-          soberDate: soberDate
-        });
-        await database.saveSobrietyData(true, trackingMode!, soberDate);
-      } else {
-        await storage.setSobrietyData({
-          trackingSobriety: false,
-          trackingMode: 'sober'
+        const tracker = {
+          name: trackerName,
+          tracking_sobriety: true,
+          tracking_mode: trackingMode!,
+          sober_date: calculateSoberDate(),
+        };
+        if (isAddingTracker || !sobrietyData) {
+          selectedTrackerId.current = await database.addTracker(tracker);
+        } else {
+          await database.updateTracker(sobrietyData.id!, tracker);
+        }
+      } else if (sobrietyData) {
+        // Stopping after tracking is a pause; never having started isn't
+        const stoppedMode: TrackingModeId = sobrietyData.tracking_sobriety || sobrietyData.tracking_mode === 'paused'
+          ? 'paused'
+          : 'sober';
+        await database.updateTracker(sobrietyData.id!, {
+          name: sobrietyData.name,
+          tracking_sobriety: false,
+          tracking_mode: stoppedMode,
+          sober_date: null,
         });
-        await database.saveSobrietyData(false, 'sober');
       }
       
+      await syncStoredSobrietyData();
       await loadSobrietyData();
+      await refreshScheduledNotifications();
       setShowSobrietyModal(false);
-      Alert.alert('Success', wantsTracking ? 'Sobriety tracking has been enabled!' : 'Sobriety tracking has been disabled.');
+      Alert.alert(
+        'Success',
+        !wantsTracking
+          ? 'Sobriety tracking has been disabled.'
+          : isAddingTracker
+            ? `You're now tracking ${trackerName.trim()}.`
+            : 'Sobriety tracking has been enabled!'
+      );
     } catch (error) {
       // console.error('Error saving sobriety tracking:', error);
       Alert.alert('Error', 'Failed to save sobriety tracking. Please try again.');
@@ -187,9 +390,7 @@ export default function SobrietyScreen() {
     setShowTimeInputModal(false);
     setWantsTracking(null);
     setTrackingMode(null);
-    setSoberYears('');
-    setSoberMonths('');
-    setSoberDays('');
+    setSoberDateDraft(createSoberDateDraft());
   };
 
   const handleCancelTimeInput = () => {
@@ -197,9 +398,7 @@ export default function SobrietyScreen() {
     setShowTimeInputModal(false);
     setWantsTracking(null);
     setTrackingMode(null);
-    setSoberYears('');
-    setSoberMonths('');
-    setSoberDays('');
+    setSoberDateDraft(createSoberDateDraft());
   };
 
   const handlePauseTracking = () => {
@@ -214,12 +413,15 @@ export default function SobrietyScreen() {
           onPress: async () => {
             try {
               setIsLoading(true);
-              await database.saveSobrietyData(false, 'sober');
-              await storage.setSobrietyData({ 
-                trackingSobriety: false,
-                trackingMode: 'sober'
+              await database.updateTracker(sobrietyData!.id!, {
+                name: sobrietyData!.name,
+                tracking_sobriety: false,
+                tracking_mode: 'paused',
+                sober_date: null,
               });
+              await syncStoredSobrietyData();
               await loadSobrietyData();
+              await refreshScheduledNotifications();
               Alert.alert(
                 'Tracking Paused', 
                 'Your courage to start fresh is inspiring. You can resume tracking anytime.',
@@ -237,38 +439,47 @@ export default function SobrietyScreen() {
     );
   };
 
-  const formatSobrietyTime = (days: number) => {
-    if (days === 0) return 'Today';
-    if (days === 1) return '1 Day';
-    if (days < 7) return `${days} Days`;
-    if (days < 30) {
-      const weeks = Math.floor(days / 7);
-      const remainingDays = days % 7;
-      if (remainingDays === 0) return `${weeks} Week${weeks > 1 ? 's' : ''}`;
-      return `${weeks} Week${weeks > 1 ? 's' : ''} ${remainingDays} Day${remainingDays > 1 ? 's' : ''}`;
-    }
-    if (days < 365) {
-      const months = Math.floor(days / 30);
-      const remainingDays = days % 30;
-      if (remainingDays === 0) return `${months} Month${months > 1 ? 's' : ''}`;
-      return `${months} Month${months > 1 ? 's' : ''} ${remainingDays} Day${remainingDays > 1 ? 's' : ''}`;
+  const handleStartAgain = () => {
+    setStreakNote('');
+    setShowStartAgainModal(true);
+  };
+
+  const handleConfirmStartAgain = async () => {
+    try {
+      setIsLoading(true);
+      await database.startNewStreak(sobrietyData!.id!, streakNote);
+      await syncStoredSobrietyData();
+      await loadSobrietyData();
+      await refreshScheduledNotifications();
+      setShowStartAgainModal(false);
+      Alert.alert(
+        'A Fresh Start',
+        'Your last streak is saved in your history. Today is day one, and that takes courage.',
+        [{ text: 'OK', style: 'default' }]
+      );
+    } catch (error) {
+      // console.error('Error starting a new streak:', error);
+      Alert.alert('Error', 'Failed to start a new streak. Please try again.');
+    } finally {
+      setIsLoading(false);
     }
-    const years = Math.floor(days / 365);
-    const remainingDays = days % 365;
-    if (remainingDays === 0) return `${years} Year${years > 1 ? 's' : ''}`;
-    return `${years} Year${years > 1 ? 's' : ''} ${remainingDays} Day${remainingDays > 1 ? 's' : ''}`;
   };
 
   const getTrackingIcon = () => {
     if (!sobrietyData?.tracking_sobriety) return '🤗';
-    return sobrietyData.tracking_mode === 'trying' ? '💪' : '🌟';
+    return (TRACKING_MODES[sobrietyData.tracking_mode as TrackingModeId] ?? TRACKING_MODES.sober).icon;
   };
 
   const getTrackingTitle = () => {
     if (!sobrietyData?.tracking_sobriety) return 'Not Tracking';
-    return sobrietyData.tracking_mode === 'trying' ? 'Days Trying' : 'Days Sober';
+    return (TRACKING_MODES[sobrietyData.tracking_mode as TrackingModeId] ?? TRACKING_MODES.sober).title;
   };
 
+  // This week compared with last week
+  const [thisWeekTrend] = getWeeklyTrend(consumptionEntries, consumptionLimits.unit, getNow(), 1);
+  const weeklyChange = formatChange(thisWeekTrend.change);
+  const recoverySubstance = sobrietyData ? getTrackerRecoverySubstance(sobrietyData) : null;
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <View style={[styles.statusBarBackground, { height: insets.top }]} />
@@ -279,6 +490,43 @@ export default function SobrietyScreen() {
       >
         <Animated.View style={[styles.content, { opacity: fadeAnim }]}>
 
+          {trackers.length > 0 && (
+            <>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.trackerTabs}
+                contentContainerStyle={styles.trackerTabsContent}
+              >
+                {trackers.map(tracker => {
+                  const isSelected = tracker.id === sobrietyData?.id;
+                  return (
+                    <TouchableOpacity
+                      key={tracker.id}
+                      style={[styles.trackerTab, isSelected && styles.trackerTabSelected]}
+                      onPress={() => handleSelectTracker(tracker.id!)}
+                      onLongPress={() => handleTrackerOptions(tracker)}
+                      activeOpacity={0.8}
+                    >
+                      <Text style={[styles.trackerTabText, isSelected && styles.trackerTabTextSelected]}>
+                        {TRACKING_MODES[tracker.tracking_mode].icon} {tracker.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+                <TouchableOpacity
+                  style={styles.trackerTab}
+                  onPress={handleAddTracker}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.trackerTabText}>+ Add</Text>
+                </TouchableOpacity>
+              </ScrollView>
+              <Text style={styles.trackerHint}>
+                Press and hold a tracker to show it on Home or delete it
+              </Text>
+            </>
+          )}
           
           {sobrietyData?.tracking_sobriety ? (
             <View style={styles.trackingCard}>
@@ -289,7 +537,10 @@ export default function SobrietyScreen() {
               
               <View style={styles.daysDisplay}>
                 <Text style={styles.daysNumber}>{sobrietyDays}</Text>
-                <Text style={styles.daysLabel}>{formatSobrietyTime(sobrietyDays)}</Text>
+                <Text style={styles.daysLabel}>{formatSobrietyTime(sobrietyData.sober_date ?? getNow())}</Text>
+                {!!sobrietyData.sober_date && isInFirstDays(sobrietyData.sober_date, now) && (
+                  <Text style={styles.elapsedTime}>⏱ {formatElapsedTime(sobrietyData.sober_date, now)}</Text>
+                )}
                 <Text style={styles.sinceDate}>
                   {sobrietyData.sober_date ? 
                     `Since ${new Date(sobrietyData.sober_date).toLocaleDateString()}` : 
@@ -319,6 +570,39 @@ export default function SobrietyScreen() {
                   <Text style={styles.pauseButtonText}>Pause Tracking</Text>
                 </TouchableOpacity>
               </View>
+
+              <TouchableOpacity
+                style={styles.startAgainButton}
+                onPress={handleStartAgain}
+                disabled={isLoading}
+              >
+                <Text style={styles.startAgainButtonText}>🌱 Start Again</Text>
+              </TouchableOpacity>
+            </View>
+          ) : sobrietyData?.tracking_mode === 'paused' ? (
+            <View style={styles.noTrackingCard}>
+              <Text style={styles.noTrackingIcon}>{TRACKING_MODES.paused.icon}</Text>
+              <Text style={styles.noTrackingTitle}>{TRACKING_MODES.paused.title}</Text>
+              <Text style={styles.noTrackingSubtitle}>
+                {TRACKING_MODES.paused.description}. {TRACKING_MODES.paused.encouragement}
+                {lastStreakDays !== null && ` Your last streak was ${formatStreakDays(lastStreakDays)}, and it's saved in your history.`}
+              </Text>
+              
+              <TouchableOpacity 
+                style={styles.startButton}
+                onPress={handleSetupSobrietyTracking}
+                disabled={isLoading}
+              >
+                <Text style={styles.startButtonText}>Resume Tracking</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.startAgainButton, styles.fullWidth]}
+                onPress={handleStartAgain}
+                disabled={isLoading}
+              >
+                <Text style={styles.startAgainButtonText}>🌱 Start Again Today</Text>
+              </TouchableOpacity>
             </View>
           ) : (
             <View style={styles.noTrackingCard}>
@@ -338,10 +622,74 @@ export default function SobrietyScreen() {
             </View>
           )}
           
+          {recoverySubstance && (
+            <RecoveryTimelineCard substance={recoverySubstance} days={sobrietyDays} />
+          )}
+
+          {sobrietyData?.tracking_sobriety && (
+            <SavingsCard
+              tracker={sobrietyData}
+              days={sobrietyDays}
+              onEdit={() => setShowSavingsModal(true)}
+            />
+          )}
+
+          {sobrietyData?.tracking_sobriety && sobrietyData.tracking_mode === 'reducing' && (
+            <View style={styles.consumptionCard}>
+              <Text style={styles.consumptionTitle}>Cutting Back</Text>
+              <ConsumptionProgress
+                label="Today"
+                unit={consumptionLimits.unit}
+                progress={getLimitProgress(getDailyTotal(consumptionEntries, consumptionLimits.unit), consumptionLimits.daily)}
+              />
+              <ConsumptionProgress
+                label="This week"
+                unit={consumptionLimits.unit}
+                progress={getLimitProgress(getWeeklyTotal(consumptionEntries, consumptionLimits.unit), consumptionLimits.weekly)}
+              />
+              {!!weeklyChange && <Text style={styles.consumptionChange}>{weeklyChange}</Text>}
+              <View style={styles.actionButtons}>
+                <TouchableOpacity
+                  style={styles.updateButton}
+                  onPress={() => setShowConsumptionModal(true)}
+                >
+                  <Text style={styles.updateButtonText}>Log a Drink</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.pauseButton}
+                  onPress={() => router.push({ pathname: '/consumption', params: { trackerId: String(sobrietyData.id) } })}
+                >
+                  <Text style={styles.pauseButtonText}>View Log</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={styles.historyButton}
+            onPress={() => router.push(sobrietyData
+              ? { pathname: '/streaks', params: { trackerId: String(sobrietyData.id) } }
+              : '/streaks')}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.historyButtonText}>📖 Streak History</Text>
+          </TouchableOpacity>
+
+          {sobrietyData && (
+            <TouchableOpacity
+              style={styles.historyButton}
+              onPress={() => router.push({ pathname: '/milestones', params: { trackerId: String(sobrietyData.id) } })}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.historyButtonText}>🏆 Milestones</Text>
+            </TouchableOpacity>
+          )}
+
           <View style={styles.infoSection}>
             <Text style={styles.infoTitle}>About Sobriety Tracking</Text>
             <Text style={styles.infoText}>
-              Whether you're celebrating days of sobriety or honoring your commitment to trying, 
+              Whether you're celebrating days of sobriety, honoring your commitment to trying, 
+              or cutting back at your own pace, 
               every effort counts. You can track your progress, pause anytime, or start fresh - 
               whatever feels right for your journey.
             </Text>
@@ -351,19 +699,31 @@ export default function SobrietyScreen() {
 
       {/* Milestone Modal */}
       <Modal
-        visible={showMilestone}
+        visible={milestoneCelebration !== null}
         transparent={true}
         animationType="fade"
-        onRequestClose={() => setShowMilestone(false)}
+        onRequestClose={() => setMilestoneCelebration(null)}
       >
         <View style={styles.modalOverlay}>
           <View style={styles.milestoneModal}>
             <Text style={styles.milestoneIcon}>🎉</Text>
-            <Text style={styles.milestoneTitle}>Milestone Reached!</Text>
-            <Text style={styles.milestoneMessage}>{milestoneMessage}</Text>
+            <Text style={styles.milestoneTitle}>
+              {milestoneCelebration?.missed ? 'While You Were Away' : 'Milestone Reached!'}
+            </Text>
+            {milestoneCelebration?.missed && (
+              <Text style={styles.milestoneMissedText}>
+                You reached {milestoneCelebration.milestone.label} on{' '}
+                {new Date(`${milestoneCelebration.milestone.dateKey}T00:00:00`).toLocaleDateString()}.
+                It still deserves celebrating.
+              </Text>
+            )}
+            {trackers.length > 1 && (
+              <Text style={styles.milestoneTrackerName}>{milestoneCelebration?.trackerName}</Text>
+            )}
+            <Text style={styles.milestoneMessage}>{milestoneCelebration?.milestone.message}</Text>
             <TouchableOpacity
               style={styles.milestoneButton}
-              onPress={() => setShowMilestone(false)}
+              onPress={() => setMilestoneCelebration(null)}
             >
               <Text style={styles.milestoneButtonText}>Continue Journey</Text>
             </TouchableOpacity>
@@ -371,6 +731,70 @@ export default function SobrietyScreen() {
         </View>
       </Modal>
 
+      {sobrietyData && (
+        <SavingsModal
+          visible={showSavingsModal}
+          tracker={sobrietyData}
+          onClose={() => setShowSavingsModal(false)}
+          onSaved={handleSavingsSaved}
+        />
+      )}
+
+      {sobrietyData && (
+        <ConsumptionModal
+          visible={showConsumptionModal}
+          trackerId={sobrietyData.id!}
+          defaultUnit={consumptionLimits.unit}
+          onClose={() => setShowConsumptionModal(false)}
+          onSaved={handleConsumptionSaved}
+        />
+      )}
+
+      {/* Start Again Modal */}
+      <Modal
+        visible={showStartAgainModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowStartAgainModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.milestoneModal}>
+            <Text style={styles.milestoneIcon}>🌱</Text>
+            <Text style={styles.milestoneTitle}>Start Again</Text>
+            <Text style={styles.milestoneMessage}>
+              {sobrietyData?.tracking_sobriety
+                ? `Your current streak of ${formatStreakDays(sobrietyDays)} will be saved in your history, and a new one starts today.`
+                : 'A new streak starts today. Everything before it stays in your history.'}
+            </Text>
+            <TextInput
+              style={styles.streakNoteInput}
+              value={streakNote}
+              onChangeText={setStreakNote}
+              placeholder="Anything you want to remember about this streak? (optional)"
+              placeholderTextColor={Colors.textLight}
+              multiline
+              maxLength={MAX_STREAK_NOTE_LENGTH}
+            />
+            <View style={[styles.modalButtons, styles.fullWidth]}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setShowStartAgainModal(false)}
+                disabled={isLoading}
+              >
+                <Text style={styles.cancelButtonText}>Not Now</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleConfirmStartAgain}
+                disabled={isLoading}
+              >
+                <Text style={styles.saveButtonText}>Start Again</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Sobriety Tracking Setup Modal */}
       <Modal
         visible={showSobrietyModal}
@@ -422,16 +846,30 @@ export default function SobrietyScreen() {
                 </TouchableOpacity>
                 
                 <TouchableOpacity
-                  style={[styles.sobrietyOption, wantsTracking === false && styles.sobrietyOptionSelected]}
-                  onPress={() => handleTrackingOptionSelected(false)}
+                  style={[styles.sobrietyOption, wantsTracking === true && trackingMode === 'reducing' && styles.sobrietyOptionSelected]}
+                  onPress={() => handleTrackingOptionSelected(true, 'reducing')}
                 >
-                  <Text style={[styles.sobrietyOptionText, wantsTracking === false && styles.sobrietyOptionTextSelected]}>
-                    🤗 I prefer not to track right now
+                  <Text style={[styles.sobrietyOptionText, wantsTracking === true && trackingMode === 'reducing' && styles.sobrietyOptionTextSelected]}>
+                    📈 Track my days cutting back
                   </Text>
                   <Text style={styles.sobrietyOptionSubtext}>
-                    Self-care comes first - you can always start later
+                    Progress, not perfection
                   </Text>
                 </TouchableOpacity>
+                
+                {!isAddingTracker && (
+                  <TouchableOpacity
+                    style={[styles.sobrietyOption, wantsTracking === false && styles.sobrietyOptionSelected]}
+                    onPress={() => handleTrackingOptionSelected(false)}
+                  >
+                    <Text style={[styles.sobrietyOptionText, wantsTracking === false && styles.sobrietyOptionTextSelected]}>
+                      🤗 I prefer not to track right now
+                    </Text>
+                    <Text style={styles.sobrietyOptionSubtext}>
+                      Self-care comes first - you can always start later
+                    </Text>
+                  </TouchableOpacity>
+                )}
               </View>
             </ScrollView>
           </View>
@@ -442,11 +880,9 @@ export default function SobrietyScreen() {
               <View style={styles.sobrietyModalContent}>
                 <View style={styles.modalHeader}>
                   <Text style={styles.modalTitle}>
-                    {wantsTracking === false 
+                    {wantsTracking === false || !trackingMode
                       ? 'Disable Tracking' 
-                      : trackingMode === 'sober' 
-                        ? 'Days Sober' 
-                        : 'Days Trying'
+                      : TRACKING_MODES[trackingMode].title
                     }
                   </Text>
                   <TouchableOpacity
@@ -466,18 +902,16 @@ export default function SobrietyScreen() {
                 >
                   <View style={styles.trackingDetailsSection}>
                     <Text style={styles.trackingDetailsTitle}>
-                      {wantsTracking === false 
+                      {wantsTracking === false || !trackingMode
                         ? 'Disable Tracking' 
-                        : trackingMode === 'sober' 
-                          ? 'How long have you been sober?' 
-                          : 'How long have you been trying?'
+                        : START_QUESTIONS[trackingMode]
                       }
                     </Text>
                     
                     <Text style={styles.trackingDetailsSubtitle}>
                       {wantsTracking === false 
                         ? 'You can always start tracking again later.' 
-                        : 'Enter the time since your last use (approximate is fine).'
+                        : 'Pick the day you started, and the time if you know it.'
                       }
                     </Text>
 
@@ -490,50 +924,37 @@ export default function SobrietyScreen() {
                       </View>
                     ) : (
                       <View style={styles.timeInputSection}>
-                        <View style={styles.timeInputRow}>
-                          <View style={styles.timeInputContainer}>
-                            <Text style={styles.timeInputLabel}>Years</Text>
-                            <TextInput
-                              style={styles.timeInput}
-                              value={soberYears}
-                              onChangeText={setSoberYears}
-                              placeholder="0"
-                              keyboardType="numeric"
-                              maxLength={2}
-                            />
+                        <Text style={styles.timeInputLabel}>What are you tracking?</Text>
+                        <TextInput
+                          style={styles.trackerNameInput}
+                          value={trackerName}
+                          onChangeText={setTrackerName}
+                          placeholder="e.g. Alcohol"
+                          placeholderTextColor={Colors.textLight}
+                          maxLength={MAX_TRACKER_NAME_LENGTH}
+                        />
+                        {isAddingTracker && (
+                          <View style={styles.nameSuggestions}>
+                            {TRACKER_NAME_SUGGESTIONS.map(name => (
+                              <TouchableOpacity
+                                key={name}
+                                style={[styles.trackerTab, trackerName === name && styles.trackerTabSelected]}
+                                onPress={() => setTrackerName(name)}
+                              >
+                                <Text style={[styles.trackerTabText, trackerName === name && styles.trackerTabTextSelected]}>
+                                  {name}
+                                </Text>
+                              </TouchableOpacity>
+                            ))}
                           </View>
-                          
-                          <View style={styles.timeInputContainer}>
-                            <Text style={styles.timeInputLabel}>Months</Text>
-                            <TextInput
-                              style={styles.timeInput}
-                              value={soberMonths}
-                              onChangeText={setSoberMonths}
-                              placeholder="0"
-                              keyboardType="numeric"
-                              maxLength={2}
-                            />
-                          </View>
-                          
-                          <View style={styles.timeInputContainer}>
-                            <Text style={styles.timeInputLabel}>Days</Text>
-                            <TextInput
-                              style={styles.timeInput}
-                              value={soberDays}
-                              onChangeText={setSoberDays}
-                              placeholder="0"
-                              keyboardType="numeric"
-                              maxLength={2}
-                            />
-                          </View>
-                        </View>
+                        )}
+
+                        <Text style={[styles.timeInputLabel, styles.startDateLabel]}>Start date</Text>
+                        <SoberDatePicker draft={soberDateDraft} onChange={setSoberDateDraft} />
                         
                         <View style={styles.encouragementMessage}>
                           <Text style={styles.encouragementText}>
-                            {trackingMode === 'sober' 
-                              ? 'Every day of sobriety is a victory worth celebrating. You\'re doing amazing! 🌟'
-                              : 'Every day you choose to try is a step forward. Your commitment matters! 💪'
-                            }
+                            {trackingMode && SETUP_ENCOURAGEMENT[trackingMode]}
                           </Text>
                         </View>
                       </View>
@@ -636,6 +1057,13 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 8,
   },
+  elapsedTime: {
+    ...Fonts.body,
+    color: Colors.primary,
+    textAlign: 'center',
+    fontWeight: '600',
+    marginBottom: 8,
+  },
   sinceDate: {
     ...Fonts.caption,
     color: Colors.textSecondary,
@@ -680,6 +1108,117 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     fontWeight: '600',
   },
+  startAgainButton: {
+    marginTop: 12,
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.primary,
+  },
+  startAgainButtonText: {
+    ...Fonts.body,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  trackerTabs: {
+    marginBottom: 8,
+  },
+  trackerTabsContent: {
+    gap: 8,
+  },
+  trackerTab: {
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    backgroundColor: Colors.surface,
+  },
+  trackerTabSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primaryDark,
+  },
+  trackerTabText: {
+    ...Fonts.caption,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  trackerTabTextSelected: {
+    color: Colors.surface,
+  },
+  trackerHint: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginBottom: 16,
+  },
+  trackerNameInput: {
+    ...Fonts.body,
+    color: Colors.text,
+    padding: 16,
+    backgroundColor: Colors.surface,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 12,
+  },
+  nameSuggestions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  consumptionCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  consumptionTitle: {
+    ...Fonts.headline,
+    color: Colors.text,
+    marginBottom: 16,
+  },
+  consumptionChange: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginBottom: 16,
+  },
+  historyButton: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: Colors.primary,
+  },
+  historyButtonText: {
+    ...Fonts.body,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  fullWidth: {
+    alignSelf: 'stretch',
+  },
+  streakNoteInput: {
+    ...Fonts.body,
+    color: Colors.text,
+    alignSelf: 'stretch',
+    padding: 16,
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    minHeight: 100,
+    textAlignVertical: 'top',
+    marginBottom: 20,
+  },
   noTrackingCard: {
     backgroundColor: Colors.surface,
     borderRadius: 20,
@@ -782,6 +1321,19 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 12,
   },
+  milestoneMissedText: {
+    ...Fonts.body,
+    color: Colors.text,
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: 12,
+  },
+  milestoneTrackerName: {
+    ...Fonts.headline,
+    color: Colors.primary,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
   milestoneMessage: {
     ...Fonts.body,
     color: Colors.textSecondary,
@@ -934,19 +1486,8 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     fontWeight: '600',
   },
-  timeInput: {
-    ...Fonts.body,
-    color: Colors.text,
-    textAlign: 'center',
-    padding: 16,
-    backgroundColor: Colors.surface,
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: Colors.border,
-    fontSize: 18,
-    fontWeight: '600',
-    minHeight: 50,
-    textAlignVertical: 'center',
+  startDateLabel: {
+    marginTop: 8,
   },
   trackingNote: {
     backgroundColor: '#FFF8E7',
@@ -1010,15 +1551,6 @@ const styles = StyleSheet.create({
   timeInputSection: {
     marginTop: 20,
   },
-  timeInputRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginBottom: 20,
-  },
-  timeInputContainer: {
-    flex: 1,
-    marginHorizontal: 4,
-  },
   encouragementMessage: {
     backgroundColor: Colors.background,
     borderRadius: 12,
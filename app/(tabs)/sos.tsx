@@ -4,70 +4,104 @@ import {
   Text,
   StyleSheet,
   Animated,
-  Dimensions,
   SafeAreaView,
   ScrollView,
+  TouchableOpacity,
 } from 'react-native';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import {
+  database,
+  GroundingNote,
+  SOSOutcome,
+  SOSOutreach,
+  SOSOutreachMethod,
+  SOSTool,
+  SupportPerson,
+  UrgeRating,
+} from '../../utils/database';
+import { getNow } from '../../utils/clock';
+import { storage } from '../../utils/storage';
+import {
+  BreathingPattern,
+  BreathPhaseType,
+  BREATHING_SCALE_MAX,
+  BREATHING_SCALE_MIN,
+  DEFAULT_BREATHING_PATTERN_ID,
+  getBreathingPattern,
+} from '../../utils/breathingPatterns';
+import { callLocalNumber, callPhoneNumber, SUPPORT_TEXT_MESSAGE, textPhoneNumber } from '../../utils/phone';
+import { orderForReachOut } from '../../utils/supportContacts';
+import { CountryCode, DEFAULT_COUNTRY } from '../../utils/countries';
+import { getCrisisLines } from '../../utils/crisisLines';
+import { buildReasonReminders, REASON_ROTATION_INTERVAL } from '../../utils/reasons';
+import { Colors } from '../../constants/Colors';
+import { Fonts } from '../../constants/Fonts';
+import { GroundingExercise } from '../../components/GroundingExercise';
+import { UrgeSurfingTimer } from '../../components/UrgeSurfingTimer';
+
+type SessionStage = 'active' | 'rating' | 'complete';
+
+interface ActiveSession {
+  id: number;
+  startedAt: Date;
+  breathingCycles: number;
+  toolsUsed: SOSTool[];
+  outreach: SOSOutreach[];
+  // From every grounding run in the session
+  groundingNotes: GroundingNote[];
+}
 
+const SOS_TOOLS: { value: SOSTool; label: string }[] = [
+  { value: 'breathing', label: '🫁 Breathe' },
+  { value: 'grounding', label: '🌿 Ground' },
+  { value: 'urge_surfing', label: '🌊 Surf' },
+];
 
-const { width, height } = Dimensions.get('window');
-
-
-
-// Mock database functions - replace with your actual implementations
-const mockDatabase = {
-  getRandomEncouragement: async () => {
-    const messages = [
-      { message: 'You are safe. You are strong.' },
-      { message: 'This feeling will pass. You are in control.' },
-      { message: 'Take one breath at a time. You\'ve got this.' },
-      { message: 'You are brave. You are resilient.' },
-      { message: 'This moment is temporary. You are permanent.' },
-    ];
-    return messages[Math.floor(Math.random() * messages.length)];
-  },
-  logSOSActivation: async (timestamp: string) => {
-    // console.log('SOS activated at:', timestamp);
-    return Promise.resolve();
-  }
-};
-
-// Mock constants - replace with your actual values
-const Colors = {
-  background: '#f5f5f5',
-  primary: '#6366f1',
-  surface: '#ffffff',
-} as const;
+// Keep the screen calm: only the first few people, available ones first
+const MAX_REACH_OUT_PEOPLE = 3;
+// The full list of crisis lines lives on the Support tab
+const MAX_CRISIS_LINES = 2;
 
-const Fonts = {
-  title: {
-    fontSize: 24,
-    fontWeight: '600' as const,
-  },
-  body: {
-    fontSize: 16,
-    fontWeight: '400' as const,
-  },
-} as const;
+const OUTCOME_OPTIONS: { value: SOSOutcome; label: string }[] = [
+  { value: 'gone', label: 'The urge is gone' },
+  { value: 'lower', label: 'The urge is lower' },
+  { value: 'same', label: 'About the same' },
+  { value: 'acted', label: 'I acted on it' },
+];
 
 export default function SOSScreen() {
   const [currentMessage, setCurrentMessage] = useState('');
-  const [breathPhase, setBreathPhase] = useState('inhale');
+  const [sessionStage, setSessionStage] = useState<SessionStage>('active');
+  const [finishedSessionId, setFinishedSessionId] = useState<number | null>(null);
+  const [activeTool, setActiveTool] = useState<SOSTool>('breathing');
+  const [breathPhase, setBreathPhase] = useState<BreathPhaseType>('inhale');
+  const [phaseInstruction, setPhaseInstruction] = useState<string | null>(null);
+  const [breathingPattern, setBreathingPattern] = useState<BreathingPattern>(
+    getBreathingPattern(DEFAULT_BREATHING_PATTERN_ID)
+  );
+  const [supportPeople, setSupportPeople] = useState<SupportPerson[]>([]);
+  const [country, setCountry] = useState<CountryCode>(DEFAULT_COUNTRY);
+  const [reasonReminders, setReasonReminders] = useState<string[]>([]);
+  const [reasonIndex, setReasonIndex] = useState(0);
   const [breathCount, setBreathCount] = useState(0);
   const [isBreathingActive, setIsBreathingActive] = useState(false);
 
-  const breathAnimation = useRef(new Animated.Value(0.8)).current;
+  const breathAnimation = useRef(new Animated.Value(BREATHING_SCALE_MIN)).current;
   const fadeAnimation = useRef(new Animated.Value(1)).current;
   const scaleAnimation = useRef(new Animated.Value(1)).current;
 
   const navigation = useNavigation();
   const insets = useSafeAreaInsets();
+  const crisisLines = getCrisisLines(country);
   
   // Refs to track timeouts and prevent memory leaks
-  const timeoutRefs = useRef<number[]>([]);
+  const timeoutRefs = useRef<ReturnType<typeof setTimeout>[]>([]);
   const animationRefs = useRef<Animated.CompositeAnimation[]>([]);
+  // The session being recorded; kept in a ref so animation callbacks see the latest value
+  const sessionRef = useRef<ActiveSession | null>(null);
+  // Read at the start of each cycle so a pattern change never doubles up a running loop
+  const patternRef = useRef<BreathingPattern>(breathingPattern);
 
   const clearAllTimeouts = useCallback(() => {
     timeoutRefs.current.forEach(timeout => clearTimeout(timeout));
@@ -81,7 +115,7 @@ export default function SOSScreen() {
 
   const loadEncouragement = useCallback(async () => {
     try {
-      const randomEncouragement = await mockDatabase.getRandomEncouragement();
+      const randomEncouragement = await database.getRandomEncouragement();
       setCurrentMessage(randomEncouragement?.message || 'You are safe. You are strong.');
     } catch (error) {
       // console.error('Error loading encouragement:', error);
@@ -89,84 +123,131 @@ export default function SOSScreen() {
     }
   }, []);
 
+  const loadReasons = useCallback(async () => {
+    try {
+      const [reasons, user] = await Promise.all([database.getUserReasons(), database.getUser()]);
+      setReasonReminders(buildReasonReminders(reasons, user?.why_note));
+      setReasonIndex(0);
+    } catch (error) {
+      // console.error('Error loading reasons:', error);
+      setReasonReminders([]);
+    }
+  }, []);
+
+  const loadSupportPeople = useCallback(async () => {
+    try {
+      const [people, savedCountry] = await Promise.all([
+        database.getSupportPeople(),
+        storage.getCountry(),
+      ]);
+      setSupportPeople(orderForReachOut(people).slice(0, MAX_REACH_OUT_PEOPLE));
+      setCountry(savedCountry);
+    } catch (error) {
+      // console.error('Error loading support people:', error);
+      setSupportPeople([]);
+    }
+  }, []);
+
+  const loadBreathingPattern = useCallback(async () => {
+    try {
+      const { patternId, customTimings } = await storage.getBreathingPattern();
+      const pattern = getBreathingPattern(patternId, customTimings);
+      patternRef.current = pattern;
+      setBreathingPattern(pattern);
+    } catch (error) {
+      // console.error('Error loading breathing pattern:', error);
+    }
+  }, []);
+
   const logSOSActivation = useCallback(async () => {
     try {
-      const timestamp = new Date().toISOString();
-      await mockDatabase.logSOSActivation(timestamp);
+      const startedAt = getNow();
+      const sessionId = await database.logSOSActivation(startedAt.toISOString());
+      sessionRef.current = sessionId ? { id: sessionId, startedAt, breathingCycles: 0, toolsUsed: [], outreach: [], groundingNotes: [] } : null;
     } catch (error) {
       // console.error('Error logging SOS activation:', error);
     }
   }, []);
 
+  const recordToolUsed = useCallback((tool: SOSTool) => {
+    const session = sessionRef.current;
+    if (session && !session.toolsUsed.includes(tool)) {
+      session.toolsUsed.push(tool);
+    }
+  }, []);
+
+  const endSession = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    sessionRef.current = null;
+    database.endSOSSession(
+      session.id,
+      getNow().toISOString(),
+      session.breathingCycles,
+      session.toolsUsed
+    );
+  }, []);
+
   const startBreathingCycle = useCallback(() => {
     if (!isBreathingActive) return;
 
-    const inhaleDuration = 4000;
-    const holdDuration = 7000;
-    const exhaleDuration = 8000;
-    const pauseDuration = 2000;
+    const { phases } = patternRef.current;
+    // A breath counts as complete once its last exhale finishes
+    const lastExhaleIndex = phases.map(phase => phase.type).lastIndexOf('exhale');
 
-    const runCycle = () => {
+    const runPhase = (index: number) => {
       if (!isBreathingActive) return;
 
-      // Inhale phase
-      setBreathPhase('inhale');
-      const inhaleAnimation = Animated.timing(breathAnimation, {
-        toValue: 1.4,
-        duration: inhaleDuration,
-        useNativeDriver: true,
-      });
-      
-      animationRefs.current.push(inhaleAnimation);
-      
-      inhaleAnimation.start((finished) => {
-        if (!finished || !isBreathingActive) return;
-
-        // Hold phase
-        setBreathPhase('hold');
-        const holdTimeout = setTimeout(() => {
-          if (!isBreathingActive) return;
-
-          // Exhale phase
-          setBreathPhase('exhale');
-          const exhaleAnimation = Animated.timing(breathAnimation, {
-            toValue: 0.8,
-            duration: exhaleDuration,
-            useNativeDriver: true,
-          });
-          
-          animationRefs.current.push(exhaleAnimation);
-          
-          exhaleAnimation.start((finished) => {
-            if (!finished || !isBreathingActive) return;
-
-            setBreathCount(prev => prev + 1);
-            
-            // Pause before next cycle
-            const pauseTimeout = setTimeout(() => {
-              if (isBreathingActive) {
-                runCycle();
-              }
-            }, pauseDuration);
-            
-            timeoutRefs.current.push(pauseTimeout);
-          });
-        }, holdDuration);
+      const phase = phases[index];
+      const nextIndex = (index + 1) % phases.length;
+      const duration = phase.seconds * 1000;
+
+      const finishPhase = () => {
+        if (index === lastExhaleIndex) {
+          setBreathCount(prev => prev + 1);
+          if (sessionRef.current) {
+            sessionRef.current.breathingCycles += 1;
+            recordToolUsed('breathing');
+          }
+        }
+        runPhase(nextIndex);
+      };
+
+      setBreathPhase(phase.type);
+      setPhaseInstruction(phase.instruction || null);
+
+      if (phase.type === 'inhale' || phase.type === 'exhale') {
+        const breathAnimationStep = Animated.timing(breathAnimation, {
+          toValue: phase.scale ?? (phase.type === 'inhale' ? BREATHING_SCALE_MAX : BREATHING_SCALE_MIN),
+          duration,
+          useNativeDriver: true,
+        });
         
-        timeoutRefs.current.push(holdTimeout);
-      });
+        animationRefs.current.push(breathAnimationStep);
+        
+        breathAnimationStep.start((finished) => {
+          if (!finished || !isBreathingActive) return;
+          finishPhase();
+        });
+      } else {
+        // Hold or pause: keep the circle where it is
+        const phaseTimeout = setTimeout(finishPhase, duration);
+        timeoutRefs.current.push(phaseTimeout);
+      }
     };
 
-    runCycle();
-  }, [isBreathingActive]);
+    runPhase(0);
+  }, [isBreathingActive, recordToolUsed]);
 
   const startSOSMode = useCallback(async () => {
     setBreathCount(0);
     setBreathPhase('inhale');
+    setPhaseInstruction(null);
     setIsBreathingActive(true);
     
     // Reset animation to initial state
-    breathAnimation.setValue(0.8);
+    breathAnimation.setValue(BREATHING_SCALE_MIN);
 
     try {
       await logSOSActivation();
@@ -175,9 +256,7 @@ export default function SOSScreen() {
     }
   }, [breathAnimation, logSOSActivation]);
 
-  const stopSOSMode = useCallback(() => {
-    // console.log('Stopping SOS mode and all animations');
-    
+  const stopBreathing = useCallback(() => {
     // Stop breathing cycle
     setIsBreathingActive(false);
     
@@ -190,11 +269,20 @@ export default function SOSScreen() {
     // Reset state
     setBreathCount(0);
     setBreathPhase('inhale');
+    setPhaseInstruction(null);
     
     // Reset animations to initial values
     breathAnimation.stopAnimation(() => {
-      breathAnimation.setValue(0.8);
+      breathAnimation.setValue(BREATHING_SCALE_MIN);
     });
+  }, [clearAllTimeouts, stopAllAnimations, breathAnimation]);
+
+  const stopSOSMode = useCallback(() => {
+    // console.log('Stopping SOS mode and all animations');
+    stopBreathing();
+    
+    // Record how the session went
+    endSession();
     
     fadeAnimation.stopAnimation(() => {
       fadeAnimation.setValue(1);
@@ -203,7 +291,82 @@ export default function SOSScreen() {
     scaleAnimation.stopAnimation(() => {
       scaleAnimation.setValue(1);
     });
-  }, [clearAllTimeouts, stopAllAnimations, breathAnimation, fadeAnimation, scaleAnimation]);
+  }, [stopBreathing, endSession, fadeAnimation, scaleAnimation]);
+
+  const handleSelectTool = useCallback((tool: SOSTool) => {
+    if (tool === activeTool) return;
+
+    if (tool === 'breathing') {
+      setActiveTool('breathing');
+      breathAnimation.setValue(BREATHING_SCALE_MIN);
+      setIsBreathingActive(true);
+    } else {
+      stopBreathing();
+      recordToolUsed(tool);
+      setActiveTool(tool);
+    }
+  }, [activeTool, breathAnimation, stopBreathing, recordToolUsed]);
+
+  const handleGroundingNoteAdded = useCallback((note: GroundingNote) => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    session.groundingNotes.push(note);
+    database.saveSOSGroundingNotes(session.id, session.groundingNotes);
+  }, []);
+
+  // Saved at minutes into the session rather than into the timer, so a
+  // second run doesn't land on the first run's minutes
+  const handleUrgeRating = useCallback((rating: Pick<UrgeRating, 'minute' | 'intensity'>) => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    const minute = Math.floor((getNow().getTime() - session.startedAt.getTime()) / 60000);
+    database.saveUrgeRating(session.id, minute, rating.intensity);
+  }, []);
+
+  const handleReachOut = useCallback(async (person: SupportPerson, method: SOSOutreachMethod) => {
+    const opened = method === 'call'
+      ? await callPhoneNumber(person.phone, country)
+      : await textPhoneNumber(person.phone, SUPPORT_TEXT_MESSAGE, country);
+
+    const session = sessionRef.current;
+    if (!opened || !session) return;
+
+    session.outreach.push({
+      method,
+      support_person_id: person.id,
+      name: person.name,
+      timestamp: getNow().toISOString(),
+    });
+    database.saveSOSOutreach(session.id, session.outreach);
+  }, [country]);
+
+  const handleFinishSession = useCallback(() => {
+    const sessionId = sessionRef.current?.id ?? null;
+    stopSOSMode();
+    setFinishedSessionId(sessionId);
+    setSessionStage(sessionId ? 'rating' : 'complete');
+  }, [stopSOSMode]);
+
+  const handleRateOutcome = useCallback(async (outcome: SOSOutcome) => {
+    if (finishedSessionId) {
+      try {
+        await database.saveSOSOutcome(finishedSessionId, outcome);
+      } catch (error) {
+        // console.error('Error saving SOS outcome:', error);
+      }
+    }
+    setSessionStage('complete');
+  }, [finishedSessionId]);
+
+  const handleStartAgain = useCallback(() => {
+    setSessionStage('active');
+    setFinishedSessionId(null);
+    setActiveTool('breathing');
+    loadEncouragement();
+    startSOSMode();
+  }, [loadEncouragement, startSOSMode]);
 
   // Start breathing cycle when isBreathingActive changes to true
   useEffect(() => {
@@ -213,6 +376,16 @@ export default function SOSScreen() {
     }
   }, [isBreathingActive, startBreathingCycle]);
 
+  // Rotate through the user's own reasons while they breathe
+  useEffect(() => {
+    if (sessionStage !== 'active' || activeTool !== 'breathing' || reasonReminders.length < 2) return;
+
+    const interval = setInterval(() => {
+      setReasonIndex(prev => (prev + 1) % reasonReminders.length);
+    }, REASON_ROTATION_INTERVAL);
+    return () => clearInterval(interval);
+  }, [sessionStage, activeTool, reasonReminders.length]);
+
   // Navigation event listeners for cleanup
   useEffect(() => {
     const unsubscribeBlur = navigation.addListener('blur', () => {
@@ -235,22 +408,36 @@ export default function SOSScreen() {
     React.useCallback(() => {
       // Screen comes into focus
       // console.log('SOS Screen focused - starting animations');
+      setSessionStage('active');
+      setFinishedSessionId(null);
+      setActiveTool('breathing');
       loadEncouragement();
-      startSOSMode();
+      loadReasons();
+      loadSupportPeople();
+      let isFocused = true;
+      loadBreathingPattern().then(() => {
+        // Don't start a session if the user already left the tab
+        if (isFocused) startSOSMode();
+      });
   
       return () => {
         // Screen loses focus (navigation away)
         // console.log('SOS Screen unfocused - stopping animations');
+        isFocused = false;
         stopSOSMode();
+        // Unmount the grounding and urge-surfing tools so their timers stop too
+        setActiveTool('breathing');
       };
-    }, [loadEncouragement, startSOSMode, stopSOSMode])
+    }, [loadEncouragement, loadReasons, loadSupportPeople, loadBreathingPattern, startSOSMode, stopSOSMode])
   );
   
   const getBreathInstruction = () => {
+    if (phaseInstruction) return phaseInstruction;
     switch (breathPhase) {
       case 'inhale': return 'Breathe in slowly...';
       case 'hold': return 'Hold...';
       case 'exhale': return 'Breathe out slowly...';
+      case 'pause': return 'Rest...';
       default: return 'Breathe with me...';
     }
   };
@@ -260,6 +447,7 @@ export default function SOSScreen() {
       case 'inhale': return '🫁';
       case 'hold': return '⏸️';
       case 'exhale': return '💨';
+      case 'pause': return '😌';
       default: return '🫁';
     }
   };
@@ -297,29 +485,186 @@ export default function SOSScreen() {
               paddingBottom: Math.max(40, insets.bottom + 20) // Ensure enough bottom padding
             }
           ]}>
-            <View style={styles.breathingSection}>
-              <Animated.View
-                style={[
-                  styles.breathingCircle,
-                  {
-                    transform: [{ scale: breathAnimation }],
-                  },
-                ]}
-              >
-                <Text style={styles.breathEmoji}>{getBreathEmoji()}</Text>
-              </Animated.View>
-              <Text style={styles.breathInstruction}>{getBreathInstruction()}</Text>
-              <Text style={styles.breathCount}>Breath {breathCount + 1}</Text>
-            </View>
-
-            <View style={styles.remindersSection}>
-              <Text style={styles.reminderText}>You are safe. This moment will pass.</Text>
-              <Text style={styles.reminderText}>You have the strength to get through this.</Text>
-            </View>
-
-            <View style={styles.messageSection}>
-              <Text style={styles.messageText}>{currentMessage}</Text>
-            </View>
+            {sessionStage === 'active' && (
+              <>
+                <View style={styles.toolSwitcher}>
+                  {SOS_TOOLS.map(tool => (
+                    <TouchableOpacity
+                      key={tool.value}
+                      style={[styles.toolButton, activeTool === tool.value && styles.toolButtonActive]}
+                      onPress={() => handleSelectTool(tool.value)}
+                      activeOpacity={0.8}
+                    >
+                      <Text style={[styles.toolButtonText, activeTool === tool.value && styles.toolButtonTextActive]}>
+                        {tool.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                {activeTool === 'breathing' && (
+                  <>
+                    <View style={styles.breathingSection}>
+                      <Animated.View
+                        style={[
+                          styles.breathingCircle,
+                          {
+                            transform: [{ scale: breathAnimation }],
+                          },
+                        ]}
+                      >
+                        <Text style={styles.breathEmoji}>{getBreathEmoji()}</Text>
+                      </Animated.View>
+                      <Text style={styles.breathInstruction}>{getBreathInstruction()}</Text>
+                      <Text style={styles.breathCount}>Breath {breathCount + 1}</Text>
+                      <Text style={styles.patternName}>{breathingPattern.name}</Text>
+                    </View>
+
+                    {reasonReminders.length > 0 && (
+                      <View style={styles.reasonSection}>
+                        <Text style={styles.reasonLabel}>Remember why</Text>
+                        <Text style={styles.reasonText}>
+                          {reasonReminders[reasonIndex % reasonReminders.length]}
+                        </Text>
+                      </View>
+                    )}
+
+                    <View style={styles.remindersSection}>
+                      <Text style={styles.reminderText}>You are safe. This moment will pass.</Text>
+                      <Text style={styles.reminderText}>You have the strength to get through this.</Text>
+                    </View>
+
+                    <View style={styles.messageSection}>
+                      <Text style={styles.messageText}>{currentMessage}</Text>
+                    </View>
+                  </>
+                )}
+
+                {activeTool === 'grounding' && (
+                  <GroundingExercise
+                    onNoteAdded={handleGroundingNoteAdded}
+                    onFinish={() => handleSelectTool('breathing')}
+                  />
+                )}
+
+                {activeTool === 'urge_surfing' && (
+                  <UrgeSurfingTimer
+                    onRating={handleUrgeRating}
+                    onFinish={() => handleSelectTool('breathing')}
+                  />
+                )}
+
+                {supportPeople.map(person => (
+                  <View key={person.id} style={styles.reachOutSection}>
+                    <Text style={styles.reachOutTitle}>Reach out to {person.name}</Text>
+                    <View style={styles.toolSwitcher}>
+                      <TouchableOpacity
+                        style={styles.toolButton}
+                        onPress={() => handleReachOut(person, 'call')}
+                        activeOpacity={0.8}
+                        accessibilityLabel={`Call ${person.name}`}
+                      >
+                        <Text style={styles.toolButtonText}>📞 Call</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.toolButton}
+                        onPress={() => handleReachOut(person, 'text')}
+                        activeOpacity={0.8}
+                        accessibilityLabel={`Text ${person.name}`}
+                      >
+                        <Text style={styles.toolButtonText}>💬 Text</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ))}
+
+                <View style={styles.reachOutSection}>
+                  <Text style={styles.reachOutTitle}>Talk to someone now</Text>
+                  {crisisLines.lines.slice(0, MAX_CRISIS_LINES).map(line => {
+                    const { phone, text } = line;
+
+                    return (
+                      <View key={line.name} style={styles.crisisLine}>
+                        <Text style={styles.crisisLineName}>{line.name}</Text>
+                        <Text style={styles.crisisLineHours}>{line.hours}</Text>
+                        <View style={styles.toolSwitcher}>
+                          {phone && (
+                            <TouchableOpacity
+                              style={styles.toolButton}
+                              onPress={() => callLocalNumber(phone)}
+                              activeOpacity={0.8}
+                              accessibilityLabel={`Call ${line.name}`}
+                            >
+                              <Text style={styles.toolButtonText}>📞 {phone}</Text>
+                            </TouchableOpacity>
+                          )}
+                          {text && (
+                            <TouchableOpacity
+                              style={styles.toolButton}
+                              onPress={() => textPhoneNumber(text.number, text.keyword, country)}
+                              activeOpacity={0.8}
+                              accessibilityLabel={`Text ${line.name}`}
+                            >
+                              <Text style={styles.toolButtonText}>💬 {text.keyword || 'Text'}</Text>
+                            </TouchableOpacity>
+                          )}
+                        </View>
+                      </View>
+                    );
+                  })}
+                  <TouchableOpacity
+                    onPress={() => callLocalNumber(crisisLines.emergency)}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={styles.crisisLineHours}>In immediate danger? Call {crisisLines.emergency}</Text>
+                  </TouchableOpacity>
+                </View>
+
+                <TouchableOpacity
+                  style={styles.finishButton}
+                  onPress={handleFinishSession}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.finishButtonText}>I'm Ready to Finish</Text>
+                </TouchableOpacity>
+              </>
+            )}
+
+            {sessionStage === 'rating' && (
+              <View style={styles.messageSection}>
+                <Text style={styles.messageText}>How is the urge now?</Text>
+                <Text style={styles.outcomeHint}>There's no wrong answer. This just helps you see what works.</Text>
+                {OUTCOME_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={styles.outcomeButton}
+                    onPress={() => handleRateOutcome(option.value)}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={styles.outcomeButtonText}>{option.label}</Text>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                  style={styles.skipButton}
+                  onPress={() => setSessionStage('complete')}
+                >
+                  <Text style={styles.skipButtonText}>Skip</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {sessionStage === 'complete' && (
+              <View style={styles.messageSection}>
+                <Text style={styles.messageText}>You got through that moment. That took strength.</Text>
+                <TouchableOpacity
+                  style={styles.outcomeButton}
+                  onPress={handleStartAgain}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.outcomeButtonText}>Breathe Again</Text>
+                </TouchableOpacity>
+              </View>
+            )}
 
             {/* <View style={styles.remindersSection}>
               <Text style={styles.reminderText}> The 4-7-8 breathing technique is a simple, powerful relaxation practice rooted in breath regulation. </Text>
@@ -342,7 +687,7 @@ const styles = StyleSheet.create({
   },
   activeContainer: { 
     flex: 1, 
-    backgroundColor: '#5B8A72', // Same green as sobriety card
+    backgroundColor: Colors.primary, // Same green as sobriety card
   },
   scrollView: {
     flex: 1,
@@ -390,6 +735,39 @@ const styles = StyleSheet.create({
     color: Colors.surface,
     opacity: 0.8,
   },
+  toolSwitcher: {
+    flexDirection: 'row',
+    gap: 12,
+    maxWidth: 350,
+    width: '100%',
+  },
+  toolButton: {
+    flex: 1,
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+    borderRadius: 12,
+    paddingVertical: 12,
+    minHeight: 56,
+    justifyContent: 'center',
+  },
+  toolButtonActive: {
+    backgroundColor: Colors.surface,
+    borderColor: Colors.surface,
+  },
+  toolButtonText: {
+    ...Fonts.button,
+    color: Colors.surface,
+    textAlign: 'center',
+  },
+  toolButtonTextActive: {
+    color: Colors.primary,
+  },
+  patternName: {
+    ...Fonts.caption,
+    color: Colors.surface,
+    opacity: 0.7,
+    marginTop: 4,
+  },
   messageSection: {
     backgroundColor: 'rgba(255, 255, 255, 0.1)',
     borderRadius: 16,
@@ -404,6 +782,27 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 32,
   },
+  reasonSection: {
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    maxWidth: 350,
+    width: '100%',
+  },
+  reasonLabel: {
+    ...Fonts.caption,
+    color: Colors.surface,
+    opacity: 0.8,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  reasonText: {
+    ...Fonts.title,
+    color: Colors.surface,
+    textAlign: 'center',
+  },
   remindersSection: { 
     alignItems: 'center',
     marginBottom: 18, // Reduced from 25
@@ -416,4 +815,79 @@ const styles = StyleSheet.create({
     marginBottom: 6, // Reduced from 8
     opacity: 0.9,
   },
-});
\ No newline at end of file
+  reachOutSection: {
+    alignItems: 'center',
+    maxWidth: 350,
+    width: '100%',
+    marginBottom: 20,
+  },
+  reachOutTitle: {
+    ...Fonts.body,
+    color: Colors.surface,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  crisisLine: {
+    alignItems: 'center',
+    width: '100%',
+    marginBottom: 12,
+  },
+  crisisLineName: {
+    ...Fonts.body,
+    color: Colors.surface,
+  },
+  crisisLineHours: {
+    ...Fonts.caption,
+    color: 'rgba(255, 255, 255, 0.8)',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  finishButton: {
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    minHeight: 60,
+    justifyContent: 'center',
+    maxWidth: 350,
+    width: '100%',
+  },
+  finishButtonText: {
+    ...Fonts.button,
+    color: Colors.surface,
+    textAlign: 'center',
+  },
+  outcomeHint: {
+    ...Fonts.caption,
+    color: Colors.surface,
+    textAlign: 'center',
+    opacity: 0.9,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  outcomeButton: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    minHeight: 60,
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  outcomeButtonText: {
+    ...Fonts.button,
+    color: Colors.primary,
+    textAlign: 'center',
+  },
+  skipButton: {
+    paddingVertical: 12,
+    marginTop: 8,
+    alignItems: 'center',
+  },
+  skipButtonText: {
+    ...Fonts.body,
+    color: Colors.surface,
+    opacity: 0.8,
+  },
+});
@@ -1,15 +1,26 @@
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { Stack } from 'expo-router';
+import { router, Stack, usePathname } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/components/useColorScheme';
+import { Colors } from '@/constants/Colors';
+import { Fonts } from '@/constants/Fonts';
+import { getDeviceTimeZone, setHomeTimeZone } from '@/utils/clock';
 import { database } from '@/utils/database';
+import { MigrationError } from '@/utils/migrations';
+import {
+  configureNotificationHandler,
+  refreshScheduledNotifications,
+  subscribeToNotificationTaps,
+} from '@/utils/notifications';
+import { storage } from '@/utils/storage';
 
 export {
   // Catch any errors thrown by the Layout component.
@@ -24,15 +35,19 @@ export const unstable_settings = {
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
+configureNotificationHandler();
+
 export default function RootLayout() {
+  const [isDatabaseReady, setIsDatabaseReady] = useState(false);
+  const [hasMigrationFailed, setHasMigrationFailed] = useState(false);
   const [loaded, error] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
     ...FontAwesome.font,
   });
 
-  // Initialize database
+  // Initialize database. Resolves to false when a migration failed.
   useEffect(() => {
-    const initDatabase = async () => {
+    const initDatabase = async (): Promise<boolean> => {
       try {
         // console.log('Initializing database...');
         
@@ -45,9 +60,17 @@ export default function RootLayout() {
         
         await Promise.race([initPromise, timeoutPromise]);
         // console.log('Database initialized successfully');
+        return true;
       } catch (error) {
         // console.error('Failed to initialize database:', error);
         
+        // A failed migration will fail the same way again, so tell the user
+        // instead of retrying
+        if (error instanceof MigrationError) {
+          // console.error(error.message, error.originalError);
+          return false;
+        }
+        
         // Try to initialize again after a delay for slow devices
         try {
           // console.log('Retrying database initialization...');
@@ -56,12 +79,26 @@ export default function RootLayout() {
           // console.log('Database initialized successfully on retry');
         } catch (retryError) {
           // console.error('Database initialization failed on retry:', retryError);
-          // Continue even if database fails to initialize
+          // Continue even if database fails to initialize, unless a migration failed
+          return !(retryError instanceof MigrationError);
         }
+        return true;
       }
     };
     
-    initDatabase();
+    // Milestones are scheduled a few at a time, so top them up on each launch.
+    // After a failed migration every screen would run it again, so the app
+    // stops at the failure message instead.
+    loadHomeTimeZone()
+      .then(initDatabase)
+      .then(isMigrated => {
+        if (!isMigrated) {
+          setHasMigrationFailed(true);
+          return;
+        }
+        setIsDatabaseReady(true);
+        return refreshScheduledNotifications();
+      });
   }, []);
 
   // Expo Router uses Error Boundaries to catch errors in the navigation tree.
@@ -83,13 +120,52 @@ export default function RootLayout() {
   return (
     <SafeAreaProvider>
       <StatusBar style="dark" />
-      <RootLayoutNav />
+      {hasMigrationFailed ? <MigrationFailure /> : <RootLayoutNav isDatabaseReady={isDatabaseReady} />}
     </SafeAreaProvider>
   );
 }
 
-function RootLayoutNav() {
+// Days are counted in the time zone the app was first used in, so travelling
+// doesn't move them
+async function loadHomeTimeZone() {
+  const saved = await storage.getHomeTimeZone();
+  if (saved) {
+    setHomeTimeZone(saved);
+    return;
+  }
+  try {
+    await storage.setHomeTimeZone(getDeviceTimeZone());
+  } catch (error) {
+    // Falls back to the device's time zone until it can be saved
+  }
+}
+
+function MigrationFailure() {
+  return (
+    <View style={styles.failure}>
+      <Text style={styles.failureTitle}>Update Problem</Text>
+      <Text style={styles.failureMessage}>
+        We couldn't finish updating your saved data. Your existing data has not been changed. Please close and reopen the app to try again.
+      </Text>
+    </View>
+  );
+}
+
+function RootLayoutNav({ isDatabaseReady }: { isDatabaseReady: boolean }) {
   const colorScheme = useColorScheme();
+  const pathname = usePathname();
+  // The start screen sends users on to onboarding or the tabs, which would
+  // cover a screen opened before it
+  const canNavigate = isDatabaseReady && pathname !== '/';
+
+  // Open the screen a tapped reminder points to, once setup is finished
+  useEffect(() => {
+    if (!canNavigate) return;
+
+    return subscribeToNotificationTaps(async route => {
+      if (await storage.getHasCompletedOnboarding()) router.push(route);
+    });
+  }, [canNavigate]);
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
@@ -108,3 +184,23 @@ function RootLayoutNav() {
     </ThemeProvider>
   );
 }
+
+const styles = StyleSheet.create({
+  failure: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: Colors.background,
+  },
+  failureTitle: {
+    ...Fonts.title,
+    color: Colors.text,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  failureMessage: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+});
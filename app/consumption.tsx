@@ -0,0 +1,529 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  Modal,
+  SafeAreaView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { ConsumptionEntry, database, Tracker } from '../utils/database';
+import {
+  ConsumptionLimits,
+  DEFAULT_CONSUMPTION_LIMITS,
+  formatAmount,
+  formatChange,
+  getDailyTotal,
+  getLimitProgress,
+  getTrackerConsumptionLimits,
+  getWeeklyTotal,
+  getWeeklyTrend,
+  parseAmount,
+  STANDARD_DRINKS,
+  toTrackerConsumptionLimits,
+} from '../utils/consumption';
+import { ConsumptionModal } from '../components/ConsumptionModal';
+import { ConsumptionProgress } from '../components/ConsumptionProgress';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+
+// How much of the log to show under the trends
+const RECENT_ENTRY_LIMIT = 30;
+
+const TREND_BAR_HEIGHT = 80;
+
+export default function ConsumptionScreen() {
+  const insets = useSafeAreaInsets();
+  const params = useLocalSearchParams<{ trackerId?: string }>();
+  const trackerId = params.trackerId ? Number(params.trackerId) : undefined;
+  const [tracker, setTracker] = useState<Tracker | null>(null);
+  const [entries, setEntries] = useState<ConsumptionEntry[]>([]);
+  const [limits, setLimits] = useState<ConsumptionLimits>(DEFAULT_CONSUMPTION_LIMITS);
+  const [showLogModal, setShowLogModal] = useState(false);
+  const [showLimitsModal, setShowLimitsModal] = useState(false);
+  const [limitInputs, setLimitInputs] = useState({ unit: '', daily: '', weekly: '' });
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadLog();
+    }, [trackerId])
+  );
+
+  const loadLog = async () => {
+    try {
+      const trackers = await database.getTrackers();
+      const current = trackers.find(saved => saved.id === trackerId) ?? trackers.find(saved => saved.is_primary) ?? null;
+      setTracker(current);
+      if (!current) return;
+
+      const savedEntries = await database.getConsumptionEntries(current.id!);
+      setEntries(savedEntries);
+      setLimits(getTrackerConsumptionLimits(current));
+    } catch (error) {
+      // console.error('Error loading consumption log:', error);
+    }
+  };
+
+  const handleEntrySaved = async () => {
+    setShowLogModal(false);
+    await loadLog();
+  };
+
+  const handleDeleteEntry = (entry: ConsumptionEntry) => {
+    Alert.alert(
+      'Remove Entry',
+      'Remove this entry from your log?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await database.deleteConsumptionEntry(entry.id!);
+              await loadLog();
+            } catch (error) {
+              // console.error('Error deleting consumption entry:', error);
+              Alert.alert('Error', 'Failed to remove entry. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEditLimits = () => {
+    setLimitInputs({
+      unit: limits.unit,
+      daily: limits.daily?.toString() ?? '',
+      weekly: limits.weekly?.toString() ?? '',
+    });
+    setShowLimitsModal(true);
+  };
+
+  const handleSaveLimits = async () => {
+    if (!tracker) return;
+
+    const daily = limitInputs.daily.trim() ? parseAmount(limitInputs.daily) : null;
+    const weekly = limitInputs.weekly.trim() ? parseAmount(limitInputs.weekly) : null;
+
+    if ((limitInputs.daily.trim() && daily === null) || (limitInputs.weekly.trim() && weekly === null)) {
+      Alert.alert('Invalid Limit', 'Please enter limits greater than 0, or leave them blank for no limit.');
+      return;
+    }
+
+    const next = {
+      unit: limitInputs.unit.trim().toLowerCase() || STANDARD_DRINKS,
+      daily,
+      weekly,
+    };
+
+    try {
+      await database.updateTrackerConsumptionLimits(tracker.id!, toTrackerConsumptionLimits(next));
+      setLimits(next);
+      setShowLimitsModal(false);
+    } catch (error) {
+      // console.error('Error saving consumption limits:', error);
+      Alert.alert('Error', 'Failed to save your limits. Please try again.');
+    }
+  };
+
+  const formatEntryTime = (consumedAt: string) =>
+    new Date(consumedAt).toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const today = getLimitProgress(getDailyTotal(entries, limits.unit), limits.daily);
+  const thisWeek = getLimitProgress(getWeeklyTotal(entries, limits.unit), limits.weekly);
+  const trend = getWeeklyTrend(entries, limits.unit);
+  const trendMax = Math.max(...trend.map(week => week.total), limits.weekly ?? 0, 1);
+  const latestChange = trend[trend.length - 1]?.change ?? null;
+  const recentEntries = entries.slice(0, RECENT_ENTRY_LIMIT);
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Cutting Back',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: Colors.background,
+          },
+          headerTintColor: Colors.text,
+          headerTitleStyle: {
+            fontWeight: '600',
+          },
+        }}
+      />
+      <SafeAreaView style={styles.safeArea}>
+        <ScrollView
+          style={styles.container}
+          contentContainerStyle={[styles.content, { paddingBottom: Math.max(20, insets.bottom + 20) }]}
+        >
+          <TouchableOpacity
+            style={styles.logButton}
+            onPress={() => setShowLogModal(true)}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.logButtonText}>+ Log a Drink or Use</Text>
+          </TouchableOpacity>
+
+          <View style={styles.card}>
+            <ConsumptionProgress label="Today" unit={limits.unit} progress={today} />
+            <ConsumptionProgress label="This week" unit={limits.unit} progress={thisWeek} />
+            <TouchableOpacity onPress={handleEditLimits}>
+              <Text style={styles.linkText}>Set limits</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Week by week</Text>
+            <Text style={styles.sectionSubtitle}>
+              {latestChange === null ? `Weekly ${limits.unit}, Monday to Sunday` : formatChange(latestChange)}
+            </Text>
+            <View style={styles.trendRow}>
+              {trend.map((week, index) => {
+                const [, month, day] = week.weekStart.split('-').map(Number);
+                const isOverLimit = limits.weekly !== null && week.total > limits.weekly;
+
+                return (
+                  <View key={week.weekStart} style={styles.trendColumn}>
+                    <Text style={styles.trendValue}>{week.total}</Text>
+                    <View style={styles.trendBarTrack}>
+                      <View
+                        style={[
+                          styles.trendBar,
+                          { height: Math.max(4, (week.total / trendMax) * TREND_BAR_HEIGHT) },
+                          isOverLimit && styles.trendBarOver,
+                        ]}
+                      />
+                    </View>
+                    <Text style={styles.trendLabel}>
+                      {index === trend.length - 1 ? 'This wk' : `${month}/${day}`}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+
+          {recentEntries.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyTitle}>Nothing logged yet</Text>
+              <Text style={styles.emptySubtext}>
+                Log each drink or use as it happens. Seeing it written down is one of the most helpful ways to cut back.
+              </Text>
+            </View>
+          ) : (
+            <View>
+              <Text style={styles.sectionTitle}>Log</Text>
+              <Text style={styles.sectionSubtitle}>Press and hold an entry to remove it</Text>
+              {recentEntries.map(entry => (
+                <TouchableOpacity
+                  key={entry.id}
+                  style={styles.entry}
+                  onLongPress={() => handleDeleteEntry(entry)}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.entryTime}>{formatEntryTime(entry.consumed_at)}</Text>
+                  <Text style={styles.entryAmount}>
+                    {entry.substance} · {formatAmount(entry.amount, entry.unit)}
+                  </Text>
+                  {(!!entry.context || !!entry.who_with) && (
+                    <Text style={styles.entryDetail}>
+                      {[entry.context, entry.who_with && `with ${entry.who_with}`].filter(Boolean).join(' · ')}
+                    </Text>
+                  )}
+                  {entry.craving !== null && entry.craving !== undefined && (
+                    <Text style={styles.entryDetail}>Craving {entry.craving}/10</Text>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+
+      {tracker && (
+        <ConsumptionModal
+          visible={showLogModal}
+          trackerId={tracker.id!}
+            defaultUnit={limits.unit}
+          onClose={() => setShowLogModal(false)}
+          onSaved={handleEntrySaved}
+        />
+      )}
+
+      {/* Limits Modal */}
+      <Modal
+        visible={showLimitsModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowLimitsModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Your Limits</Text>
+
+            <Text style={styles.inputLabel}>Count in</Text>
+            <TextInput
+              style={styles.textInput}
+              value={limitInputs.unit}
+              onChangeText={(unit) => setLimitInputs(prev => ({ ...prev, unit }))}
+              placeholder={STANDARD_DRINKS}
+              placeholderTextColor={Colors.textLight}
+              autoCapitalize="none"
+              maxLength={30}
+            />
+
+            <View style={styles.limitRow}>
+              <View style={styles.limitInput}>
+                <Text style={styles.inputLabel}>Per day</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={limitInputs.daily}
+                  onChangeText={(daily) => setLimitInputs(prev => ({ ...prev, daily }))}
+                  placeholder="No limit"
+                  placeholderTextColor={Colors.textLight}
+                  keyboardType="decimal-pad"
+                  maxLength={5}
+                />
+              </View>
+              <View style={styles.limitInput}>
+                <Text style={styles.inputLabel}>Per week</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={limitInputs.weekly}
+                  onChangeText={(weekly) => setLimitInputs(prev => ({ ...prev, weekly }))}
+                  placeholder="No limit"
+                  placeholderTextColor={Colors.textLight}
+                  keyboardType="decimal-pad"
+                  maxLength={5}
+                />
+              </View>
+            </View>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setShowLimitsModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleSaveLimits}
+              >
+                <Text style={styles.saveButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  logButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    alignItems: 'center',
+  },
+  logButtonText: {
+    ...Fonts.body,
+    color: Colors.surface,
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  linkText: {
+    ...Fonts.body,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    ...Fonts.headline,
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  sectionSubtitle: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+  },
+  trendRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    alignItems: 'flex-end',
+  },
+  trendColumn: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  trendValue: {
+    ...Fonts.caption,
+    color: Colors.text,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  trendBarTrack: {
+    height: TREND_BAR_HEIGHT,
+    justifyContent: 'flex-end',
+  },
+  trendBar: {
+    width: 24,
+    borderRadius: 6,
+    backgroundColor: Colors.primary,
+  },
+  trendBarOver: {
+    backgroundColor: Colors.danger,
+  },
+  trendLabel: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  entry: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  entryTime: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginBottom: 2,
+  },
+  entryAmount: {
+    ...Fonts.body,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  entryDetail: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyTitle: {
+    ...Fonts.headline,
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: 20,
+    padding: 24,
+    margin: 20,
+    width: '90%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    ...Fonts.headline,
+    color: Colors.text,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  inputLabel: {
+    ...Fonts.body,
+    color: Colors.text,
+    marginBottom: 8,
+    fontWeight: '600',
+  },
+  textInput: {
+    ...Fonts.body,
+    color: Colors.text,
+    padding: 16,
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  limitRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+    marginBottom: 20,
+  },
+  limitInput: {
+    flex: 1,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    ...Fonts.body,
+    color: Colors.surface,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,599 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  Linking,
+  Modal,
+  SafeAreaView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { Stack } from 'expo-router';
+import { database, Meeting, MeetingAttendance } from '../utils/database';
+import {
+  formatMeetingSchedule,
+  formatNextMeeting,
+  getNextMeeting,
+  MAX_MEETING_REFLECTION_LENGTH,
+} from '../utils/meetings';
+import { getTodayKey } from '../utils/clock';
+import { addDaysToKey } from '../utils/dateMath';
+import { MeetingModal } from '../components/MeetingModal';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+
+// How much of the attendance log to show under the schedule
+const RECENT_ATTENDANCE_LIMIT = 20;
+
+type AttendanceDay = 'today' | 'yesterday';
+
+export default function MeetingsScreen() {
+  const insets = useSafeAreaInsets();
+  const [meetings, setMeetings] = useState<Meeting[]>([]);
+  const [attendance, setAttendance] = useState<MeetingAttendance[]>([]);
+  const [showMeetingModal, setShowMeetingModal] = useState(false);
+  const [editingMeeting, setEditingMeeting] = useState<Meeting | null>(null);
+  const [loggingMeeting, setLoggingMeeting] = useState<Meeting | null>(null);
+  const [attendanceDay, setAttendanceDay] = useState<AttendanceDay>('today');
+  const [reflection, setReflection] = useState('');
+  const [isSavingAttendance, setIsSavingAttendance] = useState(false);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadMeetings();
+    }, [])
+  );
+
+  const loadMeetings = async () => {
+    try {
+      const [savedMeetings, savedAttendance] = await Promise.all([
+        database.getMeetings(),
+        database.getMeetingAttendance(),
+      ]);
+      setMeetings(savedMeetings);
+      setAttendance(savedAttendance);
+    } catch (error) {
+      // console.error('Error loading meetings:', error);
+    }
+  };
+
+  const handleAddMeeting = () => {
+    setEditingMeeting(null);
+    setShowMeetingModal(true);
+  };
+
+  const handleEditMeeting = (meeting: Meeting) => {
+    setEditingMeeting(meeting);
+    setShowMeetingModal(true);
+  };
+
+  const handleMeetingSaved = async () => {
+    const wasEditing = !!editingMeeting;
+    setShowMeetingModal(false);
+    setEditingMeeting(null);
+    await loadMeetings();
+    Alert.alert('Success', wasEditing ? 'Meeting updated.' : 'Meeting added!');
+  };
+
+  const handleDeleteMeeting = (meeting: Meeting) => {
+    Alert.alert(
+      'Remove Meeting',
+      `Remove ${meeting.name} from your schedule? Attendance you've logged will be kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await database.deleteMeeting(meeting.id!);
+              await loadMeetings();
+            } catch (error) {
+              // console.error('Error deleting meeting:', error);
+              Alert.alert('Error', 'Failed to remove meeting. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleJoinOnline = async (url: string) => {
+    try {
+      await Linking.openURL(url);
+    } catch (error) {
+      // console.error('Error opening meeting link:', error);
+      Alert.alert('Error', 'Failed to open the meeting link. Please check it and try again.');
+    }
+  };
+
+  const handleStartLogging = (meeting: Meeting) => {
+    setLoggingMeeting(meeting);
+    setAttendanceDay('today');
+    setReflection('');
+  };
+
+  const handleSaveAttendance = async () => {
+    if (!loggingMeeting) return;
+
+    const todayKey = getTodayKey();
+    const dateKey = attendanceDay === 'yesterday' ? addDaysToKey(todayKey, -1) : todayKey;
+
+    try {
+      setIsSavingAttendance(true);
+      await database.logMeetingAttendance(loggingMeeting, dateKey, reflection);
+      setLoggingMeeting(null);
+      await loadMeetings();
+    } catch (error) {
+      // console.error('Error logging attendance:', error);
+      Alert.alert('Error', 'Failed to log attendance. Please try again.');
+    } finally {
+      setIsSavingAttendance(false);
+    }
+  };
+
+  const handleDeleteAttendance = (entry: MeetingAttendance) => {
+    Alert.alert(
+      'Remove Entry',
+      'Remove this attendance entry?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await database.deleteMeetingAttendance(entry.id!);
+              await loadMeetings();
+            } catch (error) {
+              // console.error('Error deleting attendance:', error);
+              Alert.alert('Error', 'Failed to remove entry. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // attended_on is a local date, so parse it as one
+  const formatAttendanceDate = (dateKey: string) => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const next = getNextMeeting(meetings);
+  const recentAttendance = attendance.slice(0, RECENT_ATTENDANCE_LIMIT);
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'My Meetings',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: Colors.background,
+          },
+          headerTintColor: Colors.text,
+          headerTitleStyle: {
+            fontWeight: '600',
+          },
+        }}
+      />
+      <SafeAreaView style={styles.safeArea}>
+        <ScrollView
+          style={styles.container}
+          contentContainerStyle={[styles.content, { paddingBottom: Math.max(20, insets.bottom + 20) }]}
+        >
+          {next && (
+            <View style={styles.nextCard}>
+              <Text style={styles.nextLabel}>Next meeting</Text>
+              <Text style={styles.nextName}>{next.meeting.name}</Text>
+              <Text style={styles.nextTime}>{formatNextMeeting(next.startsAt)}</Text>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={handleAddMeeting}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.addButtonText}>Add Meeting</Text>
+          </TouchableOpacity>
+
+          {meetings.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyTitle}>No meetings yet</Text>
+              <Text style={styles.emptySubtext}>
+                Add the meetings you go to regularly to see what's coming up and keep track of your attendance.
+              </Text>
+            </View>
+          ) : (
+            meetings.map(meeting => {
+              const onlineUrl = meeting.online_url;
+
+              return (
+                <View key={meeting.id} style={styles.meetingCard}>
+                  <Text style={styles.meetingName}>{meeting.name}</Text>
+                  <Text style={styles.meetingSchedule}>
+                    {formatMeetingSchedule(meeting)}{meeting.fellowship ? ` · ${meeting.fellowship}` : ''}
+                  </Text>
+                  {!!meeting.location && (
+                    <Text style={styles.meetingDetail}>📍 {meeting.location}</Text>
+                  )}
+                  {onlineUrl && (
+                    <TouchableOpacity onPress={() => handleJoinOnline(onlineUrl)} activeOpacity={0.8}>
+                      <Text style={styles.meetingLink}>💻 Join online</Text>
+                    </TouchableOpacity>
+                  )}
+                  {!!meeting.notes && (
+                    <Text style={styles.meetingDetail}>{meeting.notes}</Text>
+                  )}
+
+                  <View style={styles.meetingActions}>
+                    <TouchableOpacity
+                      style={styles.logButton}
+                      onPress={() => handleStartLogging(meeting)}
+                      activeOpacity={0.8}
+                    >
+                      <Text style={styles.logButtonText}>✓ I Went</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => handleEditMeeting(meeting)}>
+                      <Text style={styles.linkText}>Edit</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => handleDeleteMeeting(meeting)}>
+                      <Text style={[styles.linkText, styles.removeText]}>Remove</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            })
+          )}
+
+          {recentAttendance.length > 0 && (
+            <View style={styles.attendanceSection}>
+              <Text style={styles.sectionTitle}>Attendance</Text>
+              <Text style={styles.sectionSubtitle}>
+                {attendance.length} {attendance.length === 1 ? 'meeting' : 'meetings'} logged · Press and hold an entry to remove it
+              </Text>
+              {recentAttendance.map(entry => (
+                <TouchableOpacity
+                  key={entry.id}
+                  style={styles.attendanceEntry}
+                  onLongPress={() => handleDeleteAttendance(entry)}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.attendanceDate}>{formatAttendanceDate(entry.attended_on)}</Text>
+                  <Text style={styles.attendanceName}>{entry.meeting_name}</Text>
+                  {!!entry.reflection && (
+                    <Text style={styles.attendanceReflection}>{entry.reflection}</Text>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+
+      <MeetingModal
+        visible={showMeetingModal}
+        meeting={editingMeeting}
+        onClose={() => setShowMeetingModal(false)}
+        onSaved={handleMeetingSaved}
+      />
+
+      {/* Log Attendance Modal */}
+      <Modal
+        visible={!!loggingMeeting}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setLoggingMeeting(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{loggingMeeting?.name}</Text>
+
+            <View style={styles.dayRow}>
+              {(['today', 'yesterday'] as AttendanceDay[]).map(day => (
+                <TouchableOpacity
+                  key={day}
+                  style={[styles.dayChip, attendanceDay === day && styles.dayChipSelected]}
+                  onPress={() => setAttendanceDay(day)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.dayChipText, attendanceDay === day && styles.dayChipTextSelected]}>
+                    {day === 'today' ? 'Today' : 'Yesterday'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              style={styles.reflectionInput}
+              value={reflection}
+              onChangeText={setReflection}
+              placeholder="Anything you want to remember from it? (optional)"
+              placeholderTextColor={Colors.textLight}
+              multiline
+              maxLength={MAX_MEETING_REFLECTION_LENGTH}
+            />
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setLoggingMeeting(null)}
+                disabled={isSavingAttendance}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleSaveAttendance}
+                disabled={isSavingAttendance}
+              >
+                <Text style={styles.saveButtonText}>
+                  {isSavingAttendance ? 'Saving...' : 'Log It'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  nextCard: {
+    backgroundColor: Colors.primary,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    alignItems: 'center',
+  },
+  nextLabel: {
+    ...Fonts.caption,
+    color: Colors.surface,
+    opacity: 0.9,
+    marginBottom: 4,
+  },
+  nextName: {
+    ...Fonts.title,
+    color: Colors.surface,
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  nextTime: {
+    ...Fonts.body,
+    color: Colors.surface,
+    fontWeight: '600',
+  },
+  addButton: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: Colors.primary,
+  },
+  addButtonText: {
+    ...Fonts.body,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  meetingCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  meetingName: {
+    ...Fonts.title,
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  meetingSchedule: {
+    ...Fonts.body,
+    color: Colors.primary,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  meetingDetail: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginBottom: 6,
+  },
+  meetingLink: {
+    ...Fonts.body,
+    color: Colors.primary,
+    marginBottom: 6,
+  },
+  meetingActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 20,
+    marginTop: 12,
+  },
+  logButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  logButtonText: {
+    ...Fonts.body,
+    color: Colors.surface,
+    fontWeight: '600',
+  },
+  linkText: {
+    ...Fonts.body,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  removeText: {
+    color: Colors.danger,
+  },
+  attendanceSection: {
+    marginTop: 12,
+  },
+  sectionTitle: {
+    ...Fonts.headline,
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  sectionSubtitle: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+  },
+  attendanceEntry: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  attendanceDate: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginBottom: 2,
+  },
+  attendanceName: {
+    ...Fonts.body,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  attendanceReflection: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    marginTop: 6,
+    lineHeight: 22,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyTitle: {
+    ...Fonts.headline,
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: 20,
+    padding: 24,
+    margin: 20,
+    width: '90%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    ...Fonts.headline,
+    color: Colors.text,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  dayChip: {
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    backgroundColor: Colors.surface,
+  },
+  dayChipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primaryDark,
+  },
+  dayChipText: {
+    ...Fonts.caption,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  dayChipTextSelected: {
+    color: Colors.surface,
+  },
+  reflectionInput: {
+    ...Fonts.body,
+    color: Colors.text,
+    padding: 16,
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    minHeight: 100,
+    textAlignVertical: 'top',
+    marginBottom: 20,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    ...Fonts.body,
+    color: Colors.surface,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,443 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  Modal,
+  SafeAreaView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { getNow } from '../utils/clock';
+import { CustomMilestone, database, MilestoneCelebrationRecord, Tracker } from '../utils/database';
+import {
+  createCustomMilestoneDraft,
+  CustomMilestoneDraft,
+  getUpcomingMilestones,
+  MAX_MILESTONE_MESSAGE_LENGTH,
+  MAX_MILESTONE_TITLE_LENGTH,
+  Milestone,
+  MilestoneKind,
+  validateCustomMilestoneDraft,
+} from '../utils/milestones';
+import { refreshScheduledNotifications } from '../utils/notifications';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+
+const UPCOMING_LIMIT = 5;
+
+const KIND_ICONS: Record<MilestoneKind, string> = {
+  hours: '⏱️',
+  days: '🌟',
+  months: '📅',
+  hundred_days: '💯',
+  anniversary: '🏅',
+  custom: '🎯',
+};
+
+const formatDay = (dateKey: string) => new Date(`${dateKey}T00:00:00`).toLocaleDateString();
+
+export default function MilestonesScreen() {
+  const insets = useSafeAreaInsets();
+  const params = useLocalSearchParams<{ trackerId?: string }>();
+  const trackerId = params.trackerId ? Number(params.trackerId) : undefined;
+  const [tracker, setTracker] = useState<Tracker | null>(null);
+  const [customMilestones, setCustomMilestones] = useState<CustomMilestone[]>([]);
+  const [celebrations, setCelebrations] = useState<MilestoneCelebrationRecord[]>([]);
+  const [draft, setDraft] = useState<CustomMilestoneDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadMilestones();
+    }, [trackerId])
+  );
+
+  const loadMilestones = async () => {
+    try {
+      const trackers = await database.getTrackers();
+      const current = trackers.find(saved => saved.id === trackerId) ?? trackers.find(saved => saved.is_primary) ?? null;
+      setTracker(current);
+      if (!current) return;
+
+      const [savedMilestones, savedCelebrations] = await Promise.all([
+        database.getCustomMilestones(current.id!),
+        database.getMilestoneCelebrations(current.id!),
+      ]);
+      setCustomMilestones(savedMilestones);
+      setCelebrations(savedCelebrations);
+    } catch (error) {
+      // console.error('Error loading milestones:', error);
+    }
+  };
+
+  const isCounting = !!tracker?.tracking_sobriety && !!tracker.sober_date;
+  const upcoming: Milestone[] = isCounting
+    ? getUpcomingMilestones(tracker!.sober_date!, getNow(), UPCOMING_LIMIT, customMilestones)
+    : [];
+
+  const handleAdd = () => {
+    if (!isCounting) {
+      Alert.alert('Not Tracking', 'Start tracking on the Sobriety tab to add your own milestones.');
+      return;
+    }
+    setDraft(createCustomMilestoneDraft());
+  };
+
+  const handleSave = async () => {
+    if (!draft || !tracker) return;
+
+    const validationError = validateCustomMilestoneDraft(draft, tracker.sober_date!);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await database.addCustomMilestone({
+        tracker_id: tracker.id!,
+        title: draft.title,
+        date_key: draft.dateKey.trim(),
+        message: draft.message,
+      });
+      setDraft(null);
+      await loadMilestones();
+      await refreshScheduledNotifications();
+    } catch (error) {
+      // console.error('Error saving custom milestone:', error);
+      Alert.alert('Error', 'Failed to save your milestone. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (milestone: CustomMilestone) => {
+    Alert.alert(
+      'Delete Milestone',
+      `Remove "${milestone.title}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await database.deleteCustomMilestone(milestone.id!);
+              await loadMilestones();
+              await refreshScheduledNotifications();
+            } catch (error) {
+              // console.error('Error deleting custom milestone:', error);
+              Alert.alert('Error', 'Failed to delete your milestone. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: tracker ? `${tracker.name} Milestones` : 'Milestones',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: Colors.background,
+          },
+          headerTintColor: Colors.text,
+          headerTitleStyle: {
+            fontWeight: '600',
+          },
+        }}
+      />
+      <SafeAreaView style={styles.safeArea}>
+        <ScrollView
+          style={styles.container}
+          contentContainerStyle={[styles.content, { paddingBottom: Math.max(20, insets.bottom + 20) }]}
+        >
+          <Text style={styles.sectionTitle}>Coming Up</Text>
+          {upcoming.length === 0 ? (
+            <Text style={styles.emptySubtext}>
+              {isCounting ? 'No more milestones ahead.' : 'Milestones are counted while you are tracking.'}
+            </Text>
+          ) : (
+            upcoming.map(milestone => (
+              <View key={milestone.id} style={styles.milestoneCard}>
+                <Text style={styles.milestoneIcon}>{KIND_ICONS[milestone.kind]}</Text>
+                <View style={styles.milestoneBody}>
+                  <Text style={styles.milestoneLabel}>{milestone.label}</Text>
+                  <Text style={styles.milestoneDate}>
+                    {milestone.at ? new Date(milestone.at).toLocaleString() : formatDay(milestone.dateKey)}
+                  </Text>
+                </View>
+              </View>
+            ))
+          )}
+
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Your Milestones</Text>
+            <TouchableOpacity onPress={handleAdd} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <Text style={styles.addText}>+ Add</Text>
+            </TouchableOpacity>
+          </View>
+          {customMilestones.length === 0 ? (
+            <Text style={styles.emptySubtext}>
+              Add the days that matter to you, like a first sober birthday or holiday.
+            </Text>
+          ) : (
+            customMilestones.map(milestone => (
+              <TouchableOpacity
+                key={milestone.id}
+                style={styles.milestoneCard}
+                onLongPress={() => handleDelete(milestone)}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.milestoneIcon}>{KIND_ICONS.custom}</Text>
+                <View style={styles.milestoneBody}>
+                  <Text style={styles.milestoneLabel}>{milestone.title}</Text>
+                  <Text style={styles.milestoneDate}>{formatDay(milestone.date_key)}</Text>
+                  {!!milestone.message && <Text style={styles.milestoneMessage}>{milestone.message}</Text>}
+                </View>
+              </TouchableOpacity>
+            ))
+          )}
+          {customMilestones.length > 0 && <Text style={styles.hintText}>Long-press a milestone to delete it.</Text>}
+
+          <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Celebrated</Text>
+          {celebrations.length === 0 ? (
+            <Text style={styles.emptySubtext}>Milestones you celebrate will be kept here.</Text>
+          ) : (
+            celebrations.map(celebration => (
+              <View key={celebration.id} style={styles.milestoneCard}>
+                <Text style={styles.milestoneIcon}>🎉</Text>
+                <View style={styles.milestoneBody}>
+                  <Text style={styles.milestoneLabel}>{celebration.label}</Text>
+                  <Text style={styles.milestoneDate}>
+                    Reached {formatDay(celebration.date_key)} · celebrated {new Date(celebration.celebrated_at).toLocaleDateString()}
+                  </Text>
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </SafeAreaView>
+
+      {/* Add Milestone Modal */}
+      <Modal
+        visible={!!draft}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setDraft(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>New Milestone</Text>
+
+            <Text style={styles.inputLabel}>Name</Text>
+            <TextInput
+              style={styles.textInput}
+              value={draft?.title ?? ''}
+              onChangeText={title => setDraft(current => current && { ...current, title })}
+              placeholder="e.g. First sober birthday"
+              placeholderTextColor={Colors.textLight}
+              maxLength={MAX_MILESTONE_TITLE_LENGTH}
+            />
+
+            <Text style={styles.inputLabel}>Date</Text>
+            <TextInput
+              style={styles.textInput}
+              value={draft?.dateKey ?? ''}
+              onChangeText={dateKey => setDraft(current => current && { ...current, dateKey })}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={Colors.textLight}
+              keyboardType="numbers-and-punctuation"
+              maxLength={10}
+            />
+
+            <Text style={styles.inputLabel}>Message (optional)</Text>
+            <TextInput
+              style={[styles.textInput, styles.messageInput]}
+              value={draft?.message ?? ''}
+              onChangeText={message => setDraft(current => current && { ...current, message })}
+              placeholder="What you want to hear on the day"
+              placeholderTextColor={Colors.textLight}
+              multiline
+              maxLength={MAX_MILESTONE_MESSAGE_LENGTH}
+            />
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setDraft(null)}
+                disabled={isSaving}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleSave}
+                disabled={isSaving}
+              >
+                <Text style={styles.saveButtonText}>
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  sectionTitle: {
+    ...Fonts.headline,
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  sectionSpacing: {
+    marginTop: 24,
+  },
+  addText: {
+    ...Fonts.body,
+    color: Colors.primary,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  milestoneCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  milestoneIcon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  milestoneBody: {
+    flex: 1,
+  },
+  milestoneLabel: {
+    ...Fonts.body,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  milestoneDate: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  milestoneMessage: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  hintText: {
+    ...Fonts.caption,
+    color: Colors.textLight,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: 20,
+    padding: 24,
+    margin: 20,
+    width: '90%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    ...Fonts.headline,
+    color: Colors.text,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  inputLabel: {
+    ...Fonts.body,
+    color: Colors.text,
+    marginBottom: 8,
+    fontWeight: '600',
+  },
+  textInput: {
+    ...Fonts.body,
+    color: Colors.text,
+    padding: 16,
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 16,
+  },
+  messageInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 4,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    ...Fonts.body,
+    color: Colors.surface,
+    fontWeight: '600',
+  },
+});
@@ -12,10 +12,12 @@ import {
 import { useRouter } from 'expo-router';
 import { LargeButton } from '../../components/LargeButton';
 import { SelectableOption } from '../../components/SelectableOption';
+import { LargeTextInput } from '../../components/LargeTextInput';
 import { OnboardingHeader } from '../../components/OnboardingHeader';
 import { OnboardingSkipButton } from '../../components/OnboardingSkipButton';
 import { storage } from '../../utils/storage';
 import { database } from '../../utils/database';
+import { MAX_REASON_LENGTH, MAX_WHY_NOTE_LENGTH, PRESET_REASONS } from '../../utils/reasons';
 import { Colors } from '../../constants/Colors';
 import { Fonts } from '../../constants/Fonts';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -24,15 +26,12 @@ export default function ReasonsStep() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const [selectedReasons, setSelectedReasons] = useState<string[]>([]);
+  const [customReasons, setCustomReasons] = useState<string[]>([]);
+  const [newCustomReason, setNewCustomReason] = useState('');
+  const [whyNote, setWhyNote] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
-  const reasonOptions = [
-    'Staying sober',
-    'Cutting back', 
-    'Building better habits',
-    'Finding calm',
-    'Just exploring'
-  ];
+  const hasAnyReason = selectedReasons.length > 0 || customReasons.length > 0;
 
   const toggleReason = (reason: string) => {
     setSelectedReasons(prev => {
@@ -44,8 +43,22 @@ export default function ReasonsStep() {
     });
   };
 
+  const addCustomReason = () => {
+    const reason = newCustomReason.trim();
+    if (!reason) return;
+
+    if (!customReasons.includes(reason) && !PRESET_REASONS.includes(reason)) {
+      setCustomReasons(prev => [...prev, reason]);
+    }
+    setNewCustomReason('');
+  };
+
+  const removeCustomReason = (reason: string) => {
+    setCustomReasons(prev => prev.filter(r => r !== reason));
+  };
+
   const handleContinue = async () => {
-    if (selectedReasons.length === 0) {
+    if (!hasAnyReason) {
       Alert.alert(
         'Selection Required',
         'Please select at least one reason to continue.',
@@ -57,8 +70,11 @@ export default function ReasonsStep() {
     setIsLoading(true);
 
     try {
-      await storage.setUserReasons(selectedReasons);
-      await database.saveUserReasons(selectedReasons);
+      await storage.setUserReasons([...selectedReasons, ...customReasons]);
+      await database.saveUserReasons(selectedReasons, customReasons);
+      if (whyNote.trim()) {
+        await database.updateWhyNote(whyNote.trim());
+      }
       await storage.setSetupStep(3);
       router.push('/onboarding/support');
     } catch (error) {
@@ -104,7 +120,7 @@ export default function ReasonsStep() {
           </View>
 
           <View style={styles.optionsSection}>
-            {reasonOptions.map((reason) => (
+            {PRESET_REASONS.map((reason) => (
               <SelectableOption
                 key={reason}
                 title={reason}
@@ -112,13 +128,61 @@ export default function ReasonsStep() {
                 onPress={() => toggleReason(reason)}
               />
             ))}
+            {customReasons.map((reason) => (
+              <SelectableOption
+                key={reason}
+                title={reason}
+                selected={true}
+                onPress={() => removeCustomReason(reason)}
+              />
+            ))}
+          </View>
+
+          <View style={styles.customSection}>
+            <Text style={styles.sectionLabel}>Add a reason in your own words</Text>
+            <View style={styles.customRow}>
+              <LargeTextInput
+                value={newCustomReason}
+                onChangeText={setNewCustomReason}
+                placeholder="e.g. Being there for my kids"
+                maxLength={MAX_REASON_LENGTH}
+                returnKeyType="done"
+                onSubmitEditing={addCustomReason}
+                style={styles.customInput}
+              />
+              <LargeButton
+                title="Add"
+                onPress={addCustomReason}
+                disabled={!newCustomReason.trim()}
+                variant="secondary"
+                style={styles.addButton}
+              />
+            </View>
+            {customReasons.length > 0 && (
+              <Text style={styles.helperText}>Tap one of your own reasons to remove it.</Text>
+            )}
+          </View>
+
+          <View style={styles.customSection}>
+            <Text style={styles.sectionLabel}>Why I'm doing this (optional)</Text>
+            <Text style={styles.helperText}>
+              Write a note to yourself. We'll show it to you when things get hard.
+            </Text>
+            <LargeTextInput
+              value={whyNote}
+              onChangeText={setWhyNote}
+              placeholder="I want to wake up clear-headed and proud of myself..."
+              multiline
+              maxLength={MAX_WHY_NOTE_LENGTH}
+              style={styles.noteInput}
+            />
           </View>
 
           <View style={styles.actions}>
             <LargeButton
               title="Continue"
               onPress={handleContinue}
-              disabled={isLoading || selectedReasons.length === 0}
+              disabled={isLoading || !hasAnyReason}
               variant="primary"
               style={styles.continueButton}
             />
@@ -167,7 +231,36 @@ const styles = StyleSheet.create({
     lineHeight: 28,
   },
   optionsSection: {
-    marginBottom: 40,
+    marginBottom: 24,
+  },
+  customSection: {
+    marginBottom: 24,
+  },
+  sectionLabel: {
+    ...Fonts.body,
+    color: Colors.text,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  helperText: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  customInput: {
+    flex: 1,
+  },
+  addButton: {
+    minWidth: 90,
+  },
+  noteInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
   },
   actions: {
     marginBottom: 40,
@@ -11,12 +11,16 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { LargeButton } from '../../components/LargeButton';
-import { LargeTextInput } from '../../components/LargeTextInput';
 import { SelectableOption } from '../../components/SelectableOption';
 import { OnboardingHeader } from '../../components/OnboardingHeader';
 import { OnboardingSkipButton } from '../../components/OnboardingSkipButton';
+import { SoberDatePicker } from '../../components/SoberDatePicker';
 import { storage } from '../../utils/storage';
 import { database } from '../../utils/database';
+import { refreshScheduledNotifications } from '../../utils/notifications';
+import { CountingTrackingMode } from '../../utils/safeTracking';
+import { createSoberDateDraft, draftToSoberDate, SoberDateDraft, validateSoberDateDraft } from '../../utils/soberDate';
+import { DEFAULT_TRACKER_NAME } from '../../utils/trackers';
 import { Colors } from '../../constants/Colors';
 import { Fonts } from '../../constants/Fonts';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -25,27 +29,10 @@ export default function SobrietyStep() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const [wantsTracking, setWantsTracking] = useState<boolean | null>(null);
-  const [trackingMode, setTrackingMode] = useState<'sober' | 'trying' | null>(null);
-  const [soberYears, setSoberYears] = useState('');
-  const [soberMonths, setSoberMonths] = useState('');
-  const [soberDays, setSoberDays] = useState('');
+  const [trackingMode, setTrackingMode] = useState<CountingTrackingMode | null>(null);
+  const [soberDateDraft, setSoberDateDraft] = useState<SoberDateDraft>(() => createSoberDateDraft());
   const [isLoading, setIsLoading] = useState(false);
 
-  const calculateSoberDate = () => {
-    const years = parseInt(soberYears) || 0;
-    const months = parseInt(soberMonths) || 0;
-    const days = parseInt(soberDays) || 0;
-
-    const now = new Date();
-    const soberDate = new Date(now);
-    
-    soberDate.setFullYear(soberDate.getFullYear() - years);
-    soberDate.setMonth(soberDate.getMonth() - months);
-    soberDate.setDate(soberDate.getDate() - days);
-    
-    return soberDate.toISOString();
-  };
-
   const handleContinue = async () => {
     if (wantsTracking === null) {
       Alert.alert(
@@ -59,50 +46,16 @@ export default function SobrietyStep() {
     if (wantsTracking && trackingMode === null) {
       Alert.alert(
         'Tracking Mode Required',
-        'Please select whether you want to track days sober or days trying to be sober.',
+        'Please select whether you want to track days sober, days trying to be sober, or days cutting back.',
         [{ text: 'OK', style: 'default' }]
       );
       return;
     }
 
     if (wantsTracking) {
-      const years = parseInt(soberYears) || 0;
-      const months = parseInt(soberMonths) || 0;
-      const days = parseInt(soberDays) || 0;
-
-      if (years === 0 && months === 0 && days === 0) {
-        Alert.alert(
-          'Time Required',
-          'Please enter at least some time (days, months, or years) for your sobriety tracking.',
-          [{ text: 'OK', style: 'default' }]
-        );
-        return;
-      }
-
-      if (years > 50) {
-        Alert.alert(
-          'Invalid Years',
-          'Please enter a reasonable number of years (50 or less).',
-          [{ text: 'OK', style: 'default' }]
-        );
-        return;
-      }
-
-      if (months > 11) {
-        Alert.alert(
-          'Invalid Months',
-          'Please enter 0-11 months (12+ months should be counted as years).',
-          [{ text: 'OK', style: 'default' }]
-        );
-        return;
-      }
-
-      if (days > 365) {
-        Alert.alert(
-          'Invalid Days',
-          'Please enter 0-365 days (365+ days should be counted as months/years).',
-          [{ text: 'OK', style: 'default' }]
-        );
+      const dateError = validateSoberDateDraft(soberDateDraft);
+      if (dateError) {
+        Alert.alert('Check Your Start Date', dateError, [{ text: 'OK', style: 'default' }]);
         return;
       }
     }
@@ -110,22 +63,44 @@ export default function SobrietyStep() {
     setIsLoading(true);
 
     try {
+      // Going through onboarding again updates the primary tracker rather
+      // than adding another one
+      const primary = await database.getPrimaryTracker();
+
       if (wantsTracking) {
-        const soberDate = calculateSoberDate();
+        const soberDate = draftToSoberDate(soberDateDraft);
         await storage.setSobrietyData({
           trackingSobriety: true,
           trackingMode: trackingMode!,
           soberDate: soberDate
         });
-        await database.saveSobrietyData(true, trackingMode!, soberDate);
+        const tracker = {
+          name: primary?.name ?? DEFAULT_TRACKER_NAME,
+          tracking_sobriety: true,
+          tracking_mode: trackingMode!,
+          sober_date: soberDate,
+        };
+        if (primary) {
+          await database.updateTracker(primary.id!, tracker);
+        } else {
+          await database.addTracker(tracker);
+        }
       } else {
         await storage.setSobrietyData({
           trackingSobriety: false,
           trackingMode: 'sober' // Default value when not tracking
         });
-        await database.saveSobrietyData(false, 'sober');
+        if (primary) {
+          await database.updateTracker(primary.id!, {
+            name: primary.name,
+            tracking_sobriety: false,
+            tracking_mode: 'sober',
+            sober_date: null,
+          });
+        }
       }
 
+      await refreshScheduledNotifications();
       await storage.setSetupStep(5);
       router.push('/onboarding/complete');
     } catch (error) {
@@ -171,6 +146,9 @@ export default function SobrietyStep() {
             <Text style={styles.subtitle}>
               Or Would you like track how many days you've been trying to stay sober? We wont judge you!
             </Text>
+            <Text style={styles.subtitle}>
+              If you're cutting back rather than stopping, you can track that too.
+            </Text>
             <Text style={styles.subtitle}>
               This can be a powerful motivator on your journey.
             </Text>
@@ -193,6 +171,14 @@ export default function SobrietyStep() {
                 setTrackingMode('trying');
               }}
             />
+            <SelectableOption
+              title="Yes, I'd like to track my days cutting back"
+              selected={wantsTracking === true && trackingMode === 'reducing'}
+              onPress={() => {
+                setWantsTracking(true);
+                setTrackingMode('reducing');
+              }}
+            />
             <SelectableOption
               title="No, I prefer not to track"
               selected={wantsTracking === false}
@@ -204,63 +190,28 @@ export default function SobrietyStep() {
             <View style={styles.trackingDetailsSection}>
               <Text style={styles.trackingDetailsTitle}>
                 {trackingMode === 'sober' 
-                  ? 'How long have you been sober?' 
-                  : 'How long have you been trying to be sober?'
+                  ? 'When did you get sober?' 
+                  : trackingMode === 'reducing'
+                    ? 'When did you start cutting back?'
+                    : 'When did you start trying to be sober?'
                 }
               </Text>
               <Text style={styles.trackingSubtitle}>
-                {trackingMode === 'sober'
-                  ? 'Enter your current sobriety time'
-                  : 'Enter how long you\'ve been working on your sobriety'
+                {trackingMode === 'reducing'
+                  ? 'Pick roughly the day you started. Add the time if you know it.'
+                  : 'Pick the day you started. Add the time if you know it.'
                 }
               </Text>
               
-              <View style={styles.timeInputsContainer}>
-                <View style={styles.timeInputGroup}>
-                  <Text style={styles.timeInputLabel}>Days</Text>
-                  <LargeTextInput
-                    value={soberDays}
-                    onChangeText={setSoberDays}
-                    placeholder="0"
-                    keyboardType="numeric"
-                    returnKeyType="done"
-                    maxLength={3}
-                    style={styles.timeInput}
-                  />
-                </View>
-                
-                <View style={styles.timeInputGroup}>
-                  <Text style={styles.timeInputLabel}>Months</Text>
-                  <LargeTextInput
-                    value={soberMonths}
-                    onChangeText={setSoberMonths}
-                    placeholder="0"
-                    keyboardType="numeric"
-                    returnKeyType="next"
-                    maxLength={2}
-                    style={styles.timeInput}
-                  />
-                </View>
-
-                <View style={styles.timeInputGroup}>
-                  <Text style={styles.timeInputLabel}>Years</Text>
-                  <LargeTextInput
-                    value={soberYears}
-                    onChangeText={setSoberYears}
-                    placeholder="0"
-                    keyboardType="numeric"
-                    returnKeyType="next"
-                    maxLength={2}
-                    style={styles.timeInput}
-                  />
-                </View>
-              </View>
+              <SoberDatePicker draft={soberDateDraft} onChange={setSoberDateDraft} />
 
               <View style={styles.trackingNote}>
                 <Text style={styles.trackingNoteText}>
                   {trackingMode === 'sober'
                     ? '🌟 Every day counts! We\'ll help you celebrate your milestones and progress. You can always adjust this later.'
-                    : '🌟 Every effort counts! We\'ll help you celebrate your commitment and progress. You can always adjust this later.'
+                    : trackingMode === 'reducing'
+                      ? '📈 Progress, not perfection! We\'ll help you see how far you\'ve come. You can always adjust this later.'
+                      : '🌟 Every effort counts! We\'ll help you celebrate your commitment and progress. You can always adjust this later.'
                   }
                 </Text>
               </View>
@@ -346,29 +297,6 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 20,
   },
-  timeInputsContainer: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginBottom: 20,
-  },
-  timeInputGroup: {
-    flex: 1,
-    alignItems: 'center',
-    marginHorizontal: 4,
-  },
-  timeInputLabel: {
-    ...Fonts.body,
-    color: Colors.text,
-    marginBottom: 8,
-    textAlign: 'center',
-  },
-  timeInput: {
-    textAlign: 'center',
-    minHeight: 50,
-    fontSize: 18,
-    padding: 16,
-    textAlignVertical: 'center',
-  },
   trackingNote: {
     backgroundColor: '#FFF8E7',
     borderRadius: 12,
@@ -11,12 +11,18 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { LargeButton } from '../../components/LargeButton';
-import { LargeTextInput } from '../../components/LargeTextInput';
+import { SupportPersonForm } from '../../components/SupportPersonForm';
 import { SelectableOption } from '../../components/SelectableOption';
 import { OnboardingHeader } from '../../components/OnboardingHeader';
 import { OnboardingSkipButton } from '../../components/OnboardingSkipButton';
 import { storage } from '../../utils/storage';
 import { database } from '../../utils/database';
+import {
+  draftToInput,
+  EMPTY_SUPPORT_DRAFT,
+  SupportPersonDraft,
+  validateSupportDraft,
+} from '../../utils/supportContacts';
 import { Colors } from '../../constants/Colors';
 import { Fonts } from '../../constants/Fonts';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -25,8 +31,7 @@ export default function SupportStep() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const [wantsSupportPerson, setWantsSupportPerson] = useState<boolean | null>(null);
-  const [supportName, setSupportName] = useState('');
-  const [supportPhone, setSupportPhone] = useState('');
+  const [supportDraft, setSupportDraft] = useState<SupportPersonDraft>(EMPTY_SUPPORT_DRAFT);
   const [isLoading, setIsLoading] = useState(false);
 
   const handleContinue = async () => {
@@ -39,30 +44,15 @@ export default function SupportStep() {
       return;
     }
 
+    const country = await storage.getCountry();
+
     if (wantsSupportPerson) {
       // Validate support person details
-      if (!supportName.trim()) {
-        Alert.alert(
-          'Name Required',
-          'Please enter your support person\'s name.',
-          [{ text: 'OK', style: 'default' }]
-        );
-        return;
-      }
-
-      if (!supportPhone.trim()) {
+      const validationError = validateSupportDraft(supportDraft, country);
+      if (validationError) {
         Alert.alert(
-          'Phone Required',
-          'Please enter your support person\'s phone number.',
-          [{ text: 'OK', style: 'default' }]
-        );
-        return;
-      }
-
-      if (supportPhone.trim().length < 10) {
-        Alert.alert(
-          'Invalid Phone',
-          'Please enter a valid phone number (at least 10 digits).',
+          'Check Details',
+          validationError,
           [{ text: 'OK', style: 'default' }]
         );
         return;
@@ -73,11 +63,16 @@ export default function SupportStep() {
 
     try {
       if (wantsSupportPerson) {
-        await storage.setSupportPerson({
-          name: supportName.trim(),
-          phone: supportPhone.trim()
-        });
-        await database.saveSupportPerson(supportName.trim(), supportPhone.trim());
+        const person = draftToInput(supportDraft, country);
+        await storage.setSupportPerson({ name: person.name, phone: person.phone });
+
+        // Going back through onboarding shouldn't add the same person twice
+        const existing = (await database.getSupportPeople()).find(p => p.phone === person.phone);
+        if (existing?.id) {
+          await database.updateSupportPerson(existing.id, person);
+        } else {
+          await database.addSupportPerson(person);
+        }
       }
 
       await storage.setSetupStep(4);
@@ -141,34 +136,11 @@ export default function SupportStep() {
             <View style={styles.supportDetailsSection}>
               <Text style={styles.supportDetailsTitle}>Support Person Details</Text>
               
-              <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Name</Text>
-                <LargeTextInput
-                  value={supportName}
-                  onChangeText={setSupportName}
-                  placeholder="Enter their name"
-                  autoCorrect={false}
-                  autoCapitalize="words"
-                  returnKeyType="next"
-                  maxLength={50}
-                />
-              </View>
-
-              <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Phone Number</Text>
-                <LargeTextInput
-                  value={supportPhone}
-                  onChangeText={setSupportPhone}
-                  placeholder="Enter their phone number"
-                  keyboardType="phone-pad"
-                  returnKeyType="done"
-                  maxLength={20}
-                />
-              </View>
+              <SupportPersonForm value={supportDraft} onChange={setSupportDraft} />
 
               <View style={styles.supportNote}>
                 <Text style={styles.supportNoteText}>
-                  💙 This person will be available as a quick contact option during difficult moments. You can change this anytime in settings.
+                  💙 This person will be available as a quick contact option during difficult moments. You can add more people and change this anytime in settings.
                 </Text>
               </View>
             </View>
@@ -246,15 +218,6 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 20,
   },
-  inputGroup: {
-    marginBottom: 20,
-  },
-  inputLabel: {
-    ...Fonts.body,
-    color: Colors.text,
-    marginBottom: 8,
-    textAlign: 'center',
-  },
   supportNote: {
     backgroundColor: '#E8F4FD',
     borderRadius: 12,
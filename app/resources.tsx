@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  SafeAreaView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { Stack } from 'expo-router';
+import { database } from '../utils/database';
+import { storage } from '../utils/storage';
+import { COUNTRIES, CountryCode, DEFAULT_COUNTRY } from '../utils/countries';
+import {
+  filterResources,
+  getResourcesForRegion,
+  Resource,
+  RESOURCE_CATEGORIES,
+  ResourceCategory,
+} from '../utils/resources';
+import { ResourceCard } from '../components/ResourceCard';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+
+const CATEGORY_FILTERS = Object.keys(RESOURCE_CATEGORIES) as ResourceCategory[];
+
+export default function ResourcesScreen() {
+  const insets = useSafeAreaInsets();
+  const [country, setCountry] = useState<CountryCode>(DEFAULT_COUNTRY);
+  const [favoriteIds, setFavoriteIds] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [category, setCategory] = useState<ResourceCategory | null>(null);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadResources();
+    }, [])
+  );
+
+  const loadResources = async () => {
+    try {
+      const [savedCountry, favorites] = await Promise.all([
+        storage.getCountry(),
+        database.getFavoriteResourceIds(),
+      ]);
+      setCountry(savedCountry);
+      setFavoriteIds(favorites);
+    } catch (error) {
+      // console.error('Error loading resources:', error);
+    }
+  };
+
+  const handleToggleFavorite = async (resource: Resource) => {
+    const isFavorite = favoriteIds.includes(resource.id);
+    try {
+      await database.setResourceFavorite(resource.id, !isFavorite);
+      setFavoriteIds(isFavorite
+        ? favoriteIds.filter(id => id !== resource.id)
+        : [resource.id, ...favoriteIds]);
+    } catch (error) {
+      // console.error('Error updating favorite resource:', error);
+      Alert.alert('Error', 'Failed to update your saved resources. Please try again.');
+    }
+  };
+
+  const results = filterResources(getResourcesForRegion(country), {
+    query: searchQuery,
+    category,
+    favoriteIds,
+    favoritesOnly,
+  });
+
+  const hasFilters = !!searchQuery.trim() || !!category || favoritesOnly;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Resources',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: Colors.background,
+          },
+          headerTintColor: Colors.text,
+          headerTitleStyle: {
+            fontWeight: '600',
+          },
+        }}
+      />
+      <SafeAreaView style={styles.safeArea}>
+        <ScrollView
+          style={styles.container}
+          contentContainerStyle={{ paddingBottom: Math.max(20, insets.bottom + 20) }}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.subtitle}>
+            Showing resources for {COUNTRIES[country].name} and ones available everywhere.
+          </Text>
+
+          <View style={styles.searchContainer}>
+            <TextInput
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder="Search by name, topic or program..."
+              placeholderTextColor={Colors.textLight}
+              returnKeyType="search"
+            />
+          </View>
+
+          <View style={styles.filterRow}>
+            <TouchableOpacity
+              style={[styles.filterChip, favoritesOnly && styles.filterChipSelected]}
+              onPress={() => setFavoritesOnly(!favoritesOnly)}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.filterChipText, favoritesOnly && styles.filterChipTextSelected]}>
+                ★ Saved
+              </Text>
+            </TouchableOpacity>
+            {CATEGORY_FILTERS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.filterChip, category === option && styles.filterChipSelected]}
+                onPress={() => setCategory(category === option ? null : option)}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.filterChipText, category === option && styles.filterChipTextSelected]}>
+                  {RESOURCE_CATEGORIES[option].icon} {RESOURCE_CATEGORIES[option].label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {results.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyTitle}>
+                {favoritesOnly && favoriteIds.length === 0 ? 'No saved resources yet' : 'No resources found'}
+              </Text>
+              <Text style={styles.emptySubtext}>
+                {favoritesOnly && favoriteIds.length === 0
+                  ? 'Tap the star on any resource to save it here'
+                  : 'Try a different search term or filter'}
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.resultList}>
+              {results.map(resource => (
+                <ResourceCard
+                  key={resource.id}
+                  resource={resource}
+                  country={country}
+                  isFavorite={favoriteIds.includes(resource.id)}
+                  onToggleFavorite={handleToggleFavorite}
+                />
+              ))}
+            </View>
+          )}
+
+          {hasFilters && results.length > 0 && (
+            <Text style={styles.resultCount}>
+              {results.length} {results.length === 1 ? 'resource' : 'resources'}
+            </Text>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  subtitle: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginHorizontal: 20,
+    marginVertical: 16,
+  },
+  searchContainer: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  searchInput: {
+    ...Fonts.body,
+    color: Colors.text,
+    padding: 16,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginHorizontal: 20,
+    marginBottom: 20,
+  },
+  filterChip: {
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    backgroundColor: Colors.surface,
+  },
+  filterChipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primaryDark,
+  },
+  filterChipText: {
+    ...Fonts.caption,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  filterChipTextSelected: {
+    color: Colors.surface,
+  },
+  resultList: {
+    gap: 12,
+    marginHorizontal: 20,
+  },
+  resultCount: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    ...Fonts.headline,
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+});
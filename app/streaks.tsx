@@ -0,0 +1,370 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  Modal,
+  SafeAreaView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { database, Streak, Tracker } from '../utils/database';
+import {
+  formatStreakDays,
+  formatStreakRange,
+  getStreakDays,
+  MAX_STREAK_NOTE_LENGTH,
+  summarizeStreaks,
+} from '../utils/streaks';
+import { TRACKING_MODES } from '../utils/safeTracking';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+
+export default function StreaksScreen() {
+  const insets = useSafeAreaInsets();
+  // Opened from a tracker on the Sobriety tab; without one, shows every streak
+  const params = useLocalSearchParams<{ trackerId?: string }>();
+  const trackerId = params.trackerId ? Number(params.trackerId) : undefined;
+  const [tracker, setTracker] = useState<Tracker | null>(null);
+  const [streaks, setStreaks] = useState<Streak[]>([]);
+  const [editingStreak, setEditingStreak] = useState<Streak | null>(null);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadStreaks();
+    }, [trackerId])
+  );
+
+  const loadStreaks = async () => {
+    try {
+      const [savedStreaks, trackers] = await Promise.all([
+        database.getStreaks(trackerId),
+        database.getTrackers(),
+      ]);
+      setStreaks(savedStreaks);
+      setTracker(trackers.find(saved => saved.id === trackerId) ?? null);
+    } catch (error) {
+      // console.error('Error loading streaks:', error);
+    }
+  };
+
+  const handleEditNote = (streak: Streak) => {
+    setEditingStreak(streak);
+    setNote(streak.note || '');
+  };
+
+  const handleSaveNote = async () => {
+    if (!editingStreak) return;
+
+    try {
+      setIsSaving(true);
+      await database.updateStreakNote(editingStreak.id!, note);
+      setEditingStreak(null);
+      await loadStreaks();
+    } catch (error) {
+      // console.error('Error saving streak note:', error);
+      Alert.alert('Error', 'Failed to save your note. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const summary = summarizeStreaks(streaks);
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: tracker ? `${tracker.name} History` : 'Streak History',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: Colors.background,
+          },
+          headerTintColor: Colors.text,
+          headerTitleStyle: {
+            fontWeight: '600',
+          },
+        }}
+      />
+      <SafeAreaView style={styles.safeArea}>
+        <ScrollView
+          style={styles.container}
+          contentContainerStyle={[styles.content, { paddingBottom: Math.max(20, insets.bottom + 20) }]}
+        >
+          <View style={styles.statsRow}>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{summary.currentDays ?? '–'}</Text>
+              <Text style={styles.statLabel}>Current</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{summary.longestDays}</Text>
+              <Text style={styles.statLabel}>Longest</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{summary.totalDays}</Text>
+              <Text style={styles.statLabel}>Total days</Text>
+            </View>
+          </View>
+
+          <Text style={styles.introText}>
+            Every streak is part of your story. Starting again doesn't erase the days you've already lived.
+          </Text>
+
+          {streaks.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyTitle}>No streaks yet</Text>
+              <Text style={styles.emptySubtext}>
+                Your streaks will appear here once you start tracking on the Sobriety tab.
+              </Text>
+            </View>
+          ) : (
+            streaks.map(streak => {
+              const mode = TRACKING_MODES[streak.tracking_mode] ?? TRACKING_MODES.sober;
+
+              return (
+                <TouchableOpacity
+                  key={streak.id}
+                  style={[styles.streakCard, !streak.ended_at && styles.currentStreakCard]}
+                  onPress={() => handleEditNote(streak)}
+                  activeOpacity={0.8}
+                >
+                  <View style={styles.streakHeader}>
+                    <Text style={styles.streakDays}>
+                      {mode.icon} {formatStreakDays(getStreakDays(streak))}
+                    </Text>
+                    {!streak.ended_at && <Text style={styles.currentBadge}>Current</Text>}
+                  </View>
+                  <Text style={styles.streakRange}>{formatStreakRange(streak)}</Text>
+                  {streak.note ? (
+                    <Text style={styles.streakNote}>{streak.note}</Text>
+                  ) : (
+                    <Text style={styles.addNoteText}>Add a note</Text>
+                  )}
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </ScrollView>
+      </SafeAreaView>
+
+      {/* Streak Note Modal */}
+      <Modal
+        visible={!!editingStreak}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setEditingStreak(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              {editingStreak ? formatStreakRange(editingStreak) : ''}
+            </Text>
+
+            <TextInput
+              style={styles.noteInput}
+              value={note}
+              onChangeText={setNote}
+              placeholder="What helped, what you learned, or anything you want to remember"
+              placeholderTextColor={Colors.textLight}
+              multiline
+              maxLength={MAX_STREAK_NOTE_LENGTH}
+            />
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setEditingStreak(null)}
+                disabled={isSaving}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleSaveNote}
+                disabled={isSaving}
+              >
+                <Text style={styles.saveButtonText}>
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  statCard: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    paddingVertical: 16,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  statValue: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: Colors.primary,
+    marginBottom: 4,
+  },
+  statLabel: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+  },
+  introText: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  streakCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  currentStreakCard: {
+    borderColor: Colors.primary,
+    borderWidth: 2,
+  },
+  streakHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  streakDays: {
+    ...Fonts.body,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  currentBadge: {
+    ...Fonts.caption,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  streakRange: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+  },
+  streakNote: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    marginTop: 6,
+    lineHeight: 22,
+  },
+  addNoteText: {
+    ...Fonts.caption,
+    color: Colors.primary,
+    marginTop: 6,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyTitle: {
+    ...Fonts.headline,
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: 20,
+    padding: 24,
+    margin: 20,
+    width: '90%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    ...Fonts.headline,
+    color: Colors.text,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  noteInput: {
+    ...Fonts.body,
+    color: Colors.text,
+    padding: 16,
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    minHeight: 100,
+    textAlignVertical: 'top',
+    marginBottom: 20,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    ...Fonts.body,
+    color: Colors.surface,
+    fontWeight: '600',
+  },
+});
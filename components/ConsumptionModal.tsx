@@ -0,0 +1,384 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, ScrollView, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+import { Stepper, TimeSteppers } from './DateTimeSteppers';
+import { addDaysToKey } from '../utils/dateMath';
+import { database } from '../utils/database';
+import { parseDateKey } from '../utils/milestones';
+import { stepSoberDate } from '../utils/soberDate';
+import {
+  CONTEXTS,
+  ConsumptionDraft,
+  CRAVING_OPTIONS,
+  createConsumptionDraft,
+  draftToConsumptionInput,
+  MAX_CONSUMPTION_NOTE_LENGTH,
+  STANDARD_DRINKS,
+  SUBSTANCES,
+  validateConsumptionDraft,
+} from '../utils/consumption';
+
+interface ConsumptionModalProps {
+  visible: boolean;
+  // The tracker the entry is logged against
+  trackerId: number;
+  // The unit limits are counted in, used as the starting unit
+  defaultUnit: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const ConsumptionModal: React.FC<ConsumptionModalProps> = ({ visible, trackerId, defaultUnit, onClose, onSaved }) => {
+  const [draft, setDraft] = useState<ConsumptionDraft>(createConsumptionDraft(defaultUnit));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(createConsumptionDraft(defaultUnit));
+    }
+  }, [visible, defaultUnit]);
+
+  const update = (changes: Partial<ConsumptionDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const now = createConsumptionDraft(defaultUnit);
+  const yesterdayKey = addDaysToKey(now.dateKey, -1);
+  const consumedOn = parseDateKey(draft.dateKey);
+  const whenShortcuts = [
+    {
+      label: 'Just now',
+      selected: draft.dateKey === now.dateKey && draft.time === now.time,
+      onPress: () => update({ dateKey: now.dateKey, time: now.time }),
+    },
+    { label: 'Today', selected: draft.dateKey === now.dateKey, onPress: () => update({ dateKey: now.dateKey }) },
+    { label: 'Yesterday', selected: draft.dateKey === yesterdayKey, onPress: () => update({ dateKey: yesterdayKey }) },
+  ];
+
+  const handleSave = async () => {
+    const validationError = validateConsumptionDraft(draft);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await database.addConsumptionEntry(draftToConsumptionInput(draft, trackerId));
+      onSaved();
+    } catch (error) {
+      // console.error('Error saving consumption entry:', error);
+      Alert.alert('Error', 'Failed to save your entry. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderChips = (options: string[], selected: string, onSelect: (value: string) => void) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.chip, selected === option && styles.chipSelected]}
+          onPress={() => onSelect(selected === option ? '' : option)}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.chipText, selected === option && styles.chipTextSelected]}>
+            {option}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>Log a Drink or Use</Text>
+
+          <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+            <Text style={styles.introText}>
+              Logging honestly is what makes cutting back work. There's no judgement here.
+            </Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>When</Text>
+              <View style={styles.chipRow}>
+                {whenShortcuts.map(shortcut => (
+                  <TouchableOpacity
+                    key={shortcut.label}
+                    style={[styles.chip, shortcut.selected && styles.chipSelected]}
+                    onPress={shortcut.onPress}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.chipText, shortcut.selected && styles.chipTextSelected]}>
+                      {shortcut.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.whenRow}>
+                <Stepper
+                  label="Day"
+                  value={consumedOn
+                    ? consumedOn.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+                    : draft.dateKey}
+                  onStep={amount => update({ dateKey: stepSoberDate(draft.dateKey, 'day', amount) })}
+                />
+              </View>
+              <TimeSteppers time={draft.time} onChange={time => update({ time })} />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>What</Text>
+              {renderChips(SUBSTANCES, draft.substance, substance => update({ substance }))}
+              {(draft.substance === 'Other' || !SUBSTANCES.includes(draft.substance)) && (
+                <TextInput
+                  style={[styles.textInput, styles.chipInput]}
+                  value={draft.substance === 'Other' ? '' : draft.substance}
+                  onChangeText={substance => update({ substance })}
+                  placeholder="e.g. Wine"
+                  placeholderTextColor={Colors.textLight}
+                  maxLength={40}
+                />
+              )}
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>How much</Text>
+              <View style={styles.amountRow}>
+                <TextInput
+                  style={[styles.textInput, styles.amountInput]}
+                  value={draft.amount}
+                  onChangeText={amount => update({ amount })}
+                  placeholder="1"
+                  placeholderTextColor={Colors.textLight}
+                  keyboardType="decimal-pad"
+                  maxLength={5}
+                />
+                <TextInput
+                  style={[styles.textInput, styles.unitInput]}
+                  value={draft.unit}
+                  onChangeText={unit => update({ unit })}
+                  placeholder={STANDARD_DRINKS}
+                  placeholderTextColor={Colors.textLight}
+                  autoCapitalize="none"
+                  maxLength={30}
+                />
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Where or what was happening (optional)</Text>
+              {renderChips(CONTEXTS, draft.context, context => update({ context }))}
+              <TextInput
+                style={[styles.textInput, styles.chipInput]}
+                value={CONTEXTS.includes(draft.context) ? '' : draft.context}
+                onChangeText={context => update({ context })}
+                placeholder="Or describe it"
+                placeholderTextColor={Colors.textLight}
+                maxLength={MAX_CONSUMPTION_NOTE_LENGTH}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Who with (optional)</Text>
+              <TextInput
+                style={styles.textInput}
+                value={draft.whoWith}
+                onChangeText={whoWith => update({ whoWith })}
+                placeholder="e.g. Work friends"
+                placeholderTextColor={Colors.textLight}
+                maxLength={MAX_CONSUMPTION_NOTE_LENGTH}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>How strong was the craving? (optional)</Text>
+              <View style={styles.chipRow}>
+                {CRAVING_OPTIONS.map(craving => (
+                  <TouchableOpacity
+                    key={craving}
+                    style={[styles.cravingChip, draft.craving === craving && styles.chipSelected]}
+                    onPress={() => update({ craving: draft.craving === craving ? null : craving })}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.chipText, draft.craving === craving && styles.chipTextSelected]}>
+                      {craving}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          </ScrollView>
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={onClose}
+              disabled={isSaving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.saveButton}
+              onPress={handleSave}
+              disabled={isSaving}
+            >
+              <Text style={styles.saveButtonText}>
+                {isSaving ? 'Saving...' : 'Log It'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: 20,
+    padding: 24,
+    margin: 20,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  modalTitle: {
+    ...Fonts.largeTitle,
+    color: Colors.text,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  formScroll: {
+    flexShrink: 1,
+  },
+  introText: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    fontStyle: 'italic',
+    marginBottom: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    ...Fonts.body,
+    color: Colors.text,
+    marginBottom: 8,
+    fontWeight: '600',
+  },
+  textInput: {
+    ...Fonts.body,
+    color: Colors.text,
+    padding: 16,
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipInput: {
+    marginTop: 8,
+  },
+  amountRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  amountInput: {
+    width: 80,
+    textAlign: 'center',
+  },
+  unitInput: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  whenRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    backgroundColor: Colors.surface,
+  },
+  cravingChip: {
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderRadius: 18,
+    width: 36,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primaryDark,
+  },
+  chipText: {
+    ...Fonts.caption,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: Colors.surface,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    ...Fonts.body,
+    color: Colors.surface,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,88 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+import { formatAmount, LimitProgress } from '../utils/consumption';
+
+interface ConsumptionProgressProps {
+  label: string;
+  unit: string;
+  progress: LimitProgress;
+}
+
+// One row of "today" or "this week" against its limit
+export const ConsumptionProgress: React.FC<ConsumptionProgressProps> = ({ label, unit, progress }) => {
+  const getStatus = () => {
+    if (progress.limit === null) return 'No limit set';
+    if (progress.isOver) return `${formatAmount(progress.total - progress.limit, unit)} over your limit`;
+    return `${formatAmount(progress.remaining ?? 0, unit)} left`;
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.total}>
+          {progress.limit === null
+            ? formatAmount(progress.total, unit)
+            : `${progress.total} of ${formatAmount(progress.limit, unit)}`}
+        </Text>
+      </View>
+      {progress.limit !== null && (
+        <View style={styles.track}>
+          <View
+            style={[
+              styles.fill,
+              { width: `${Math.round(progress.ratio * 100)}%` },
+              progress.isOver && styles.fillOver,
+            ]}
+          />
+        </View>
+      )}
+      <Text style={[styles.status, progress.isOver && styles.statusOver]}>{getStatus()}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 6,
+  },
+  label: {
+    ...Fonts.body,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  total: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+  },
+  track: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: Colors.background,
+    overflow: 'hidden',
+    marginBottom: 4,
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 5,
+    backgroundColor: Colors.primary,
+  },
+  fillOver: {
+    backgroundColor: Colors.danger,
+  },
+  status: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+  },
+  statusOver: {
+    color: Colors.danger,
+  },
+});
@@ -0,0 +1,125 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+import { MINUTE_STEP, SoberTimeField, stepSoberTime } from '../utils/soberDate';
+
+interface StepperProps {
+  label: string;
+  value: string;
+  onStep: (amount: number) => void;
+}
+
+interface TimeSteppersProps {
+  // 'HH:MM', 24-hour
+  time: string;
+  onChange: (time: string) => void;
+}
+
+export const Stepper: React.FC<StepperProps> = ({ label, value, onStep }) => (
+  <View style={styles.stepper}>
+    <Text style={styles.stepperLabel}>{label}</Text>
+    <TouchableOpacity
+      style={styles.stepButton}
+      onPress={() => onStep(1)}
+      accessibilityLabel={`Next ${label.toLowerCase()}`}
+    >
+      <Text style={styles.stepButtonText}>▲</Text>
+    </TouchableOpacity>
+    <Text style={styles.stepperValue}>{value}</Text>
+    <TouchableOpacity
+      style={styles.stepButton}
+      onPress={() => onStep(-1)}
+      accessibilityLabel={`Previous ${label.toLowerCase()}`}
+    >
+      <Text style={styles.stepButtonText}>▼</Text>
+    </TouchableOpacity>
+  </View>
+);
+
+// Hour, minute and AM/PM for a time of day
+export const TimeSteppers: React.FC<TimeSteppersProps> = ({ time, onChange }) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const isPm = hours >= 12;
+  const step = (field: SoberTimeField, size: number) => (amount: number) =>
+    onChange(stepSoberTime(time, field, amount * size));
+
+  return (
+    <View style={styles.stepperRow}>
+      <Stepper label="Hour" value={String(hours % 12 || 12)} onStep={step('hour', 1)} />
+      <Stepper label="Minute" value={String(minutes).padStart(2, '0')} onStep={step('minute', MINUTE_STEP)} />
+      <View style={styles.stepper}>
+        <Text style={styles.stepperLabel}> </Text>
+        {(['AM', 'PM'] as const).map(period => {
+          const selected = (period === 'PM') === isPm;
+          return (
+            <TouchableOpacity
+              key={period}
+              style={[styles.periodButton, selected && styles.periodButtonSelected]}
+              onPress={() => !selected && onChange(stepSoberTime(time, 'hour', 12))}
+            >
+              <Text style={[styles.periodText, selected && styles.periodTextSelected]}>{period}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  stepperRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 16,
+  },
+  stepper: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingVertical: 8,
+  },
+  stepperLabel: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  stepButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 20,
+  },
+  stepButtonText: {
+    ...Fonts.body,
+    color: Colors.primary,
+  },
+  stepperValue: {
+    ...Fonts.headline,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  periodButton: {
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    marginVertical: 4,
+    backgroundColor: Colors.surface,
+  },
+  periodButtonSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primaryDark,
+  },
+  periodText: {
+    ...Fonts.caption,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  periodTextSelected: {
+    color: Colors.surface,
+  },
+});
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { LargeButton } from './LargeButton';
+import { LargeTextInput } from './LargeTextInput';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+import { GroundingNote, GroundingSense } from '../utils/database';
+
+const GROUNDING_STEPS: { sense: GroundingSense; count: number; icon: string; things: string; placeholder: string }[] = [
+  { sense: 'see', count: 5, icon: '👀', things: 'you can see', placeholder: 'A lamp, the window, my hands...' },
+  { sense: 'touch', count: 4, icon: '✋', things: 'you can feel', placeholder: 'My feet on the floor, my sleeve...' },
+  { sense: 'hear', count: 3, icon: '👂', things: 'you can hear', placeholder: 'A car outside, the fridge...' },
+  { sense: 'smell', count: 2, icon: '👃', things: 'you can smell', placeholder: 'Coffee, fresh air...' },
+  { sense: 'taste', count: 1, icon: '👅', things: 'you can taste', placeholder: 'Toothpaste, water...' },
+];
+
+const describeThings = (count: number, things: string) =>
+  `${count === 1 ? 'thing' : 'things'} ${things}`;
+
+// Things written down so far, one per comma or line
+const countNamed = (note: string) =>
+  note.split(/[,\n]/).filter(part => part.trim()).length;
+
+interface GroundingExerciseProps {
+  // Called for each step the user wrote something for
+  onNoteAdded: (note: GroundingNote) => void;
+  onFinish: () => void;
+}
+
+export const GroundingExercise: React.FC<GroundingExerciseProps> = ({ onNoteAdded, onFinish }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [currentNote, setCurrentNote] = useState('');
+
+  const isComplete = stepIndex >= GROUNDING_STEPS.length;
+  const step = GROUNDING_STEPS[stepIndex];
+  const named = isComplete ? 0 : Math.min(countNamed(currentNote), step.count);
+
+  const handleNext = () => {
+    const trimmed = currentNote.trim();
+    if (trimmed) {
+      onNoteAdded({ sense: step.sense, note: trimmed });
+    }
+
+    setCurrentNote('');
+    setStepIndex(prev => prev + 1);
+  };
+
+  if (isComplete) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.icon}>🌿</Text>
+        <Text style={styles.prompt}>You're here, right now.</Text>
+        <Text style={styles.hint}>
+          Notice how your body feels after slowing down. You did that.
+        </Text>
+        <LargeButton title="Back to Breathing" onPress={onFinish} style={styles.button} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.progress}>
+        Step {stepIndex + 1} of {GROUNDING_STEPS.length}
+      </Text>
+      <Text style={styles.icon}>{step.icon}</Text>
+      <Text style={styles.prompt}>Name {step.count} {describeThings(step.count, step.things)}</Text>
+      <Text style={styles.hint}>
+        Take your time. Say them out loud or in your head. Writing them down is optional.
+      </Text>
+
+      <LargeTextInput
+        value={currentNote}
+        onChangeText={setCurrentNote}
+        placeholder={step.placeholder}
+        multiline
+        maxLength={300}
+        style={styles.input}
+      />
+      {named > 0 && (
+        <Text style={styles.named}>
+          {named} of {step.count} {describeThings(step.count, step.things)}
+        </Text>
+      )}
+
+      <LargeButton
+        title={stepIndex === GROUNDING_STEPS.length - 1 ? 'Done' : 'Next'}
+        onPress={handleNext}
+        style={styles.button}
+      />
+
+      <TouchableOpacity style={styles.stopButton} onPress={onFinish}>
+        <Text style={styles.stopButtonText}>Stop and go back to breathing</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    maxWidth: 350,
+    width: '100%',
+    marginTop: 20,
+  },
+  progress: {
+    ...Fonts.caption,
+    color: Colors.surface,
+    opacity: 0.8,
+    marginBottom: 12,
+  },
+  icon: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  prompt: {
+    ...Fonts.title,
+    color: Colors.surface,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  hint: {
+    ...Fonts.body,
+    color: Colors.surface,
+    textAlign: 'center',
+    opacity: 0.9,
+    marginBottom: 20,
+  },
+  input: {
+    width: '100%',
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  named: {
+    ...Fonts.caption,
+    color: Colors.surface,
+    opacity: 0.8,
+    alignSelf: 'flex-end',
+    marginTop: 8,
+  },
+  button: {
+    width: '100%',
+    marginTop: 16,
+    backgroundColor: Colors.primaryDark,
+  },
+  stopButton: {
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  stopButtonText: {
+    ...Fonts.body,
+    color: Colors.surface,
+    opacity: 0.8,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, ScrollView, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+import { database, Meeting } from '../utils/database';
+import {
+  draftFromMeeting,
+  draftToMeetingInput,
+  EMPTY_MEETING_DRAFT,
+  FELLOWSHIPS,
+  MeetingDraft,
+  validateMeetingDraft,
+  WEEKDAYS,
+} from '../utils/meetings';
+
+interface MeetingModalProps {
+  visible: boolean;
+  // The meeting being edited, or null to add a new one
+  meeting: Meeting | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const MeetingModal: React.FC<MeetingModalProps> = ({ visible, meeting, onClose, onSaved }) => {
+  const [draft, setDraft] = useState<MeetingDraft>(EMPTY_MEETING_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(meeting ? draftFromMeeting(meeting) : EMPTY_MEETING_DRAFT);
+    }
+  }, [visible, meeting]);
+
+  const update = (changes: Partial<MeetingDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const handleSave = async () => {
+    const validationError = validateMeetingDraft(draft);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      if (meeting?.id) {
+        await database.updateMeeting(meeting.id, draftToMeetingInput(draft));
+      } else {
+        await database.addMeeting(draftToMeetingInput(draft));
+      }
+      onSaved();
+    } catch (error) {
+      // console.error('Error saving meeting:', error);
+      Alert.alert('Error', 'Failed to save meeting. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>
+            {meeting ? 'Edit Meeting' : 'Add Meeting'}
+          </Text>
+
+          <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Name</Text>
+              <TextInput
+                style={styles.textInput}
+                value={draft.name}
+                onChangeText={name => update({ name })}
+                placeholder="e.g. Tuesday Night Big Book"
+                placeholderTextColor={Colors.textLight}
+                autoCapitalize="words"
+                maxLength={80}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Fellowship (optional)</Text>
+              <View style={styles.chipRow}>
+                {FELLOWSHIPS.map(fellowship => (
+                  <TouchableOpacity
+                    key={fellowship}
+                    style={[styles.chip, draft.fellowship === fellowship && styles.chipSelected]}
+                    onPress={() => update({ fellowship: draft.fellowship === fellowship ? null : fellowship })}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.chipText, draft.fellowship === fellowship && styles.chipTextSelected]}>
+                      {fellowship}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Day</Text>
+              <View style={styles.chipRow}>
+                {WEEKDAYS.map((day, index) => (
+                  <TouchableOpacity
+                    key={day}
+                    style={[styles.chip, draft.dayOfWeek === index && styles.chipSelected]}
+                    onPress={() => update({ dayOfWeek: index })}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.chipText, draft.dayOfWeek === index && styles.chipTextSelected]}>
+                      {day.slice(0, 3)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Start time</Text>
+              <TextInput
+                style={styles.textInput}
+                value={draft.startTime}
+                onChangeText={startTime => update({ startTime })}
+                placeholder="19:00"
+                placeholderTextColor={Colors.textLight}
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Location (optional)</Text>
+              <TextInput
+                style={styles.textInput}
+                value={draft.location}
+                onChangeText={location => update({ location })}
+                placeholder="e.g. St. Mark's Hall, back entrance"
+                placeholderTextColor={Colors.textLight}
+                maxLength={120}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Online link (optional)</Text>
+              <TextInput
+                style={styles.textInput}
+                value={draft.onlineUrl}
+                onChangeText={onlineUrl => update({ onlineUrl })}
+                placeholder="e.g. zoom.us/j/123456789"
+                placeholderTextColor={Colors.textLight}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Notes (optional)</Text>
+              <TextInput
+                style={[styles.textInput, styles.notesInput]}
+                value={draft.notes}
+                onChangeText={notes => update({ notes })}
+                placeholder="e.g. Passcode, who to ask for, speaker meeting"
+                placeholderTextColor={Colors.textLight}
+                multiline
+                maxLength={300}
+              />
+            </View>
+          </ScrollView>
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={onClose}
+              disabled={isSaving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.saveButton}
+              onPress={handleSave}
+              disabled={isSaving}
+            >
+              <Text style={styles.saveButtonText}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: 20,
+    padding: 24,
+    margin: 20,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  modalTitle: {
+    ...Fonts.largeTitle,
+    color: Colors.text,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  formScroll: {
+    flexShrink: 1,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    ...Fonts.body,
+    color: Colors.text,
+    marginBottom: 8,
+    fontWeight: '600',
+  },
+  textInput: {
+    ...Fonts.body,
+    color: Colors.text,
+    padding: 16,
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    backgroundColor: Colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primaryDark,
+  },
+  chipText: {
+    ...Fonts.caption,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: Colors.surface,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    ...Fonts.body,
+    color: Colors.surface,
+    fontWeight: '600',
+  },
+});
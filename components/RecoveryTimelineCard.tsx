@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Linking, Alert } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+import {
+  formatMarkerTime,
+  formatSourceCitation,
+  getMarkerSources,
+  getRecoveryProgress,
+  RecoveryMarker,
+  RecoverySubstance,
+} from '../utils/recoveryTimeline';
+
+interface RecoveryTimelineCardProps {
+  substance: RecoverySubstance;
+  // Days counted since the tracker's sober date
+  days: number;
+}
+
+// Health recovery markers passed so far and the next one to look forward to
+export const RecoveryTimelineCard: React.FC<RecoveryTimelineCardProps> = ({ substance, days }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { passed, next, daysUntilNext } = getRecoveryProgress(substance, days);
+  const latest = passed[passed.length - 1];
+
+  const handleOpenSource = async (url: string) => {
+    try {
+      await Linking.openURL(url);
+    } catch (error) {
+      // console.error('Error opening recovery source:', error);
+      Alert.alert('Error', 'Failed to open the website. Please try again.');
+    }
+  };
+
+  const renderMarker = (marker: RecoveryMarker, showSources: boolean) => {
+    const isPassed = marker.days <= days;
+    const isNext = marker === next;
+
+    return (
+      <View key={marker.days} style={styles.marker}>
+        <Text style={styles.markerIcon}>{isPassed ? '✅' : isNext ? '⏳' : '⚪️'}</Text>
+        <View style={styles.markerBody}>
+          <Text style={[styles.markerTime, isNext && styles.markerTimeNext]}>
+            {formatMarkerTime(marker.days)}
+            {isNext && daysUntilNext !== null && ` · ${daysUntilNext === 1 ? '1 day to go' : `${daysUntilNext} days to go`}`}
+          </Text>
+          <Text style={[styles.markerTitle, !isPassed && !isNext && styles.markerTitleUpcoming]}>{marker.title}</Text>
+          <Text style={styles.markerDescription}>{marker.description}</Text>
+          {showSources && getMarkerSources(marker).map(source => (
+            <TouchableOpacity
+              key={source.title}
+              disabled={!source.url}
+              onPress={() => source.url && handleOpenSource(source.url)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.source, !!source.url && styles.sourceLink]}>{formatSourceCitation(source)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>🌱 Body & Mind</Text>
+      <Text style={styles.subtitle}>
+        What often happens after quitting {substance.label}. {passed.length} of {substance.markers.length} passed.
+      </Text>
+
+      {isExpanded
+        ? substance.markers.map(marker => renderMarker(marker, true))
+        : [latest, next].filter((marker): marker is RecoveryMarker => !!marker).map(marker => renderMarker(marker, false))}
+
+      {isExpanded && (
+        <Text style={styles.disclaimer}>
+          Everyone's body is different. This is general information, not medical advice.
+        </Text>
+      )}
+
+      <TouchableOpacity style={styles.toggleButton} onPress={() => setIsExpanded(!isExpanded)} activeOpacity={0.7}>
+        <Text style={styles.toggleText}>{isExpanded ? 'Show less' : 'Full timeline & sources'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  title: {
+    ...Fonts.headline,
+    color: Colors.text,
+  },
+  subtitle: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  marker: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  markerIcon: {
+    fontSize: 18,
+    marginRight: 12,
+  },
+  markerBody: {
+    flex: 1,
+  },
+  markerTime: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    fontWeight: '600',
+  },
+  markerTimeNext: {
+    color: Colors.primary,
+  },
+  markerTitle: {
+    ...Fonts.body,
+    color: Colors.text,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  markerTitleUpcoming: {
+    color: Colors.textSecondary,
+  },
+  markerDescription: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginTop: 4,
+    lineHeight: 18,
+  },
+  source: {
+    ...Fonts.caption,
+    color: Colors.textLight,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  sourceLink: {
+    color: Colors.primary,
+  },
+  disclaimer: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  toggleButton: {
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+  toggleText: {
+    ...Fonts.body,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+});
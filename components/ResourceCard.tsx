@@ -0,0 +1,91 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Linking, Alert } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+import { CountryCode } from '../utils/countries';
+import { callPhoneNumber } from '../utils/phone';
+import { formatResourceUrl, Resource } from '../utils/resources';
+
+interface ResourceCardProps {
+  resource: Resource;
+  country: CountryCode;
+  isFavorite: boolean;
+  onToggleFavorite: (resource: Resource) => void;
+}
+
+export const ResourceCard: React.FC<ResourceCardProps> = ({ resource, country, isFavorite, onToggleFavorite }) => {
+  const { phone } = resource;
+
+  const handleOpenWebsite = async () => {
+    try {
+      await Linking.openURL(resource.url);
+    } catch (error) {
+      // console.error('Error opening resource website:', error);
+      Alert.alert('Error', 'Failed to open the website. Please try again.');
+    }
+  };
+
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={handleOpenWebsite}
+      activeOpacity={0.8}
+    >
+      <View style={styles.header}>
+        <Text style={styles.name}>{resource.name}</Text>
+        <TouchableOpacity
+          onPress={() => onToggleFavorite(resource)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          accessibilityLabel={isFavorite ? `Remove ${resource.name} from favorites` : `Add ${resource.name} to favorites`}
+        >
+          <Text style={styles.favoriteIcon}>{isFavorite ? '★' : '☆'}</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.website}>{formatResourceUrl(resource.url)}</Text>
+      {phone && (
+        <TouchableOpacity onPress={() => callPhoneNumber(phone, country)} activeOpacity={0.8}>
+          <Text style={styles.website}>📞 {phone}</Text>
+        </TouchableOpacity>
+      )}
+      <Text style={styles.description}>{resource.description}</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  name: {
+    ...Fonts.body,
+    color: Colors.text,
+    fontWeight: '600',
+    marginBottom: 4,
+    flex: 1,
+  },
+  favoriteIcon: {
+    fontSize: 22,
+    color: Colors.primary,
+  },
+  website: {
+    ...Fonts.body,
+    color: Colors.primary,
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  description: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    lineHeight: 18,
+  },
+});
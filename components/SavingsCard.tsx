@@ -0,0 +1,180 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+import { Tracker } from '../utils/database';
+import {
+  formatHours,
+  formatMoney,
+  getDaysUntilGoal,
+  getGoalProgress,
+  getHoursRegained,
+  getMoneySaved,
+  getTrackerCurrency,
+  hasSavingsSetUp,
+} from '../utils/savings';
+
+interface SavingsCardProps {
+  tracker: Tracker;
+  // Days counted since the tracker's sober date
+  days: number;
+  onEdit: () => void;
+}
+
+// Money saved, hours regained and progress towards a savings goal
+export const SavingsCard: React.FC<SavingsCardProps> = ({ tracker, days, onEdit }) => {
+  if (!hasSavingsSetUp(tracker)) {
+    return (
+      <TouchableOpacity style={styles.card} onPress={onEdit} activeOpacity={0.8}>
+        <Text style={styles.title}>💰 Money & Time</Text>
+        <Text style={styles.subtitle}>
+          Add what {tracker.name} used to cost you to see the money saved and hours you've got back.
+        </Text>
+      </TouchableOpacity>
+    );
+  }
+
+  const currency = getTrackerCurrency(tracker);
+  const moneySaved = getMoneySaved(tracker, days);
+  const hoursRegained = getHoursRegained(tracker, days);
+  const goal = moneySaved !== null && tracker.savings_goal_minor
+    ? getGoalProgress(moneySaved, tracker.savings_goal_minor)
+    : null;
+  const daysUntilGoal = moneySaved !== null ? getDaysUntilGoal(tracker, moneySaved) : null;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>💰 Money & Time</Text>
+        <TouchableOpacity onPress={onEdit} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+          <Text style={styles.editText}>Edit</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.statsRow}>
+        {moneySaved !== null && (
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{formatMoney(moneySaved, currency)}</Text>
+            <Text style={styles.statLabel}>saved</Text>
+          </View>
+        )}
+        {hoursRegained !== null && (
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{formatHours(hoursRegained)}</Text>
+            <Text style={styles.statLabel}>regained</Text>
+          </View>
+        )}
+      </View>
+
+      {goal && moneySaved !== null && (
+        <View style={styles.goal}>
+          <View style={styles.goalHeader}>
+            <Text style={styles.goalName}>{tracker.savings_goal_name}</Text>
+            <Text style={styles.goalAmount}>
+              {formatMoney(Math.min(moneySaved, tracker.savings_goal_minor!), currency)} of {formatMoney(tracker.savings_goal_minor!, currency)}
+            </Text>
+          </View>
+          <View style={styles.track}>
+            <View style={[styles.fill, { width: `${Math.round(goal.ratio * 100)}%` }]} />
+          </View>
+          <Text style={styles.goalStatus}>
+            {goal.isReached
+              ? '🎉 You\'ve saved enough. Treat yourself!'
+              : daysUntilGoal === 1
+                ? 'Just 1 more day at this rate'
+                : `About ${daysUntilGoal} more days at this rate`}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    ...Fonts.headline,
+    color: Colors.text,
+  },
+  subtitle: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    marginTop: 8,
+  },
+  editText: {
+    ...Fonts.body,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  stat: {
+    flex: 1,
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  statValue: {
+    ...Fonts.headline,
+    color: Colors.primary,
+  },
+  statLabel: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+  },
+  goal: {
+    marginTop: 16,
+  },
+  goalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 6,
+  },
+  goalName: {
+    ...Fonts.body,
+    color: Colors.text,
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+  goalAmount: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginLeft: 8,
+  },
+  track: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: Colors.background,
+    overflow: 'hidden',
+    marginBottom: 4,
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 5,
+    backgroundColor: Colors.primary,
+  },
+  goalStatus: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+  },
+});
@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, ScrollView, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+import { database, Tracker } from '../utils/database';
+import {
+  createSavingsDraft,
+  draftToSavings,
+  getTrackerCurrency,
+  MAX_GOAL_NAME_LENGTH,
+  SavingsDraft,
+  SPEND_PERIODS,
+  validateSavingsDraft,
+} from '../utils/savings';
+
+interface SavingsModalProps {
+  visible: boolean;
+  tracker: Tracker;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const SavingsModal: React.FC<SavingsModalProps> = ({ visible, tracker, onClose, onSaved }) => {
+  const [draft, setDraft] = useState<SavingsDraft>(createSavingsDraft(tracker));
+  const [isSaving, setIsSaving] = useState(false);
+  const currency = getTrackerCurrency(tracker);
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(createSavingsDraft(tracker));
+    }
+  }, [visible, tracker]);
+
+  const update = (changes: Partial<SavingsDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const handleSave = async () => {
+    const validationError = validateSavingsDraft(draft, currency);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await database.updateTrackerSavings(tracker.id!, draftToSavings(draft, currency));
+      onSaved();
+    } catch (error) {
+      // console.error('Error saving tracker savings:', error);
+      Alert.alert('Error', 'Failed to save. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>Money & Time</Text>
+
+          <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+            <Text style={styles.introText}>
+              Rough numbers are fine. Leave anything blank that doesn't apply to {tracker.name}.
+            </Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>What you usually spent ({currency})</Text>
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.textInput, styles.amountInput]}
+                  value={draft.spend}
+                  onChangeText={spend => update({ spend })}
+                  placeholder="0"
+                  placeholderTextColor={Colors.textLight}
+                  keyboardType="decimal-pad"
+                  maxLength={10}
+                />
+                {SPEND_PERIODS.map(period => (
+                  <TouchableOpacity
+                    key={period.value}
+                    style={[styles.chip, draft.spendPeriod === period.value && styles.chipSelected]}
+                    onPress={() => update({ spendPeriod: period.value })}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.chipText, draft.spendPeriod === period.value && styles.chipTextSelected]}>
+                      {period.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Time it took</Text>
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.textInput, styles.amountInput]}
+                  value={draft.minutesPerOccasion}
+                  onChangeText={minutesPerOccasion => update({ minutesPerOccasion })}
+                  placeholder="0"
+                  placeholderTextColor={Colors.textLight}
+                  keyboardType="number-pad"
+                  maxLength={4}
+                />
+                <Text style={styles.unitText}>minutes each time,</Text>
+              </View>
+              <View style={[styles.row, styles.rowSpacing]}>
+                <TextInput
+                  style={[styles.textInput, styles.amountInput]}
+                  value={draft.occasionsPerWeek}
+                  onChangeText={occasionsPerWeek => update({ occasionsPerWeek })}
+                  placeholder="0"
+                  placeholderTextColor={Colors.textLight}
+                  keyboardType="number-pad"
+                  maxLength={3}
+                />
+                <Text style={styles.unitText}>times a week</Text>
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Saving up for (optional)</Text>
+              <TextInput
+                style={styles.textInput}
+                value={draft.goalName}
+                onChangeText={goalName => update({ goalName })}
+                placeholder="e.g. New bike"
+                placeholderTextColor={Colors.textLight}
+                maxLength={MAX_GOAL_NAME_LENGTH}
+              />
+              <TextInput
+                style={[styles.textInput, styles.rowSpacing]}
+                value={draft.goalAmount}
+                onChangeText={goalAmount => update({ goalAmount })}
+                placeholder={`Cost in ${currency}`}
+                placeholderTextColor={Colors.textLight}
+                keyboardType="decimal-pad"
+                maxLength={10}
+              />
+            </View>
+          </ScrollView>
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={onClose}
+              disabled={isSaving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.saveButton}
+              onPress={handleSave}
+              disabled={isSaving}
+            >
+              <Text style={styles.saveButtonText}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: 20,
+    padding: 24,
+    margin: 20,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  modalTitle: {
+    ...Fonts.largeTitle,
+    color: Colors.text,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  formScroll: {
+    flexShrink: 1,
+  },
+  introText: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    fontStyle: 'italic',
+    marginBottom: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    ...Fonts.body,
+    color: Colors.text,
+    marginBottom: 8,
+    fontWeight: '600',
+  },
+  textInput: {
+    ...Fonts.body,
+    color: Colors.text,
+    padding: 16,
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowSpacing: {
+    marginTop: 8,
+  },
+  amountInput: {
+    width: 100,
+    textAlign: 'center',
+  },
+  unitText: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+  },
+  chip: {
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    backgroundColor: Colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primaryDark,
+  },
+  chipText: {
+    ...Fonts.caption,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: Colors.surface,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    ...Fonts.body,
+    color: Colors.surface,
+    fontWeight: '600',
+  },
+});
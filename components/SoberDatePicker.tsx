@@ -0,0 +1,192 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+import { Stepper, TimeSteppers } from './DateTimeSteppers';
+import { addDaysToKey } from '../utils/dateMath';
+import { parseDateKey } from '../utils/milestones';
+import {
+  createSoberDateDraft,
+  getSoberDatePreview,
+  SoberDateDraft,
+  SoberDateField,
+  stepSoberDate,
+  validateSoberDateDraft,
+} from '../utils/soberDate';
+
+interface SoberDatePickerProps {
+  draft: SoberDateDraft;
+  onChange: (draft: SoberDateDraft) => void;
+}
+
+// Picks the day, and optionally the time, a tracker counts from, with a
+// preview of what the counter will show
+export const SoberDatePicker: React.FC<SoberDatePickerProps> = ({ draft, onChange }) => {
+  const update = (changes: Partial<SoberDateDraft>) => onChange({ ...draft, ...changes });
+  const stepDate = (field: SoberDateField) => (amount: number) =>
+    update({ dateKey: stepSoberDate(draft.dateKey, field, amount) });
+
+  const today = createSoberDateDraft();
+  const yesterdayKey = addDaysToKey(today.dateKey, -1);
+  const date = parseDateKey(draft.dateKey);
+
+  const error = validateSoberDateDraft(draft);
+  const preview = getSoberDatePreview(draft);
+
+  const shortcuts = [
+    { label: 'Today', selected: draft.dateKey === today.dateKey, onPress: () => update({ dateKey: today.dateKey }) },
+    { label: 'Yesterday', selected: draft.dateKey === yesterdayKey, onPress: () => update({ dateKey: yesterdayKey }) },
+    // Starting right now is the one case where the exact time is known
+    { label: 'Right now', selected: draft.hasTime && draft.dateKey === today.dateKey && draft.time === today.time, onPress: () => onChange({ ...today, hasTime: true }) },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipRow}>
+        {shortcuts.map(shortcut => (
+          <TouchableOpacity
+            key={shortcut.label}
+            style={[styles.chip, shortcut.selected && styles.chipSelected]}
+            onPress={shortcut.onPress}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.chipText, shortcut.selected && styles.chipTextSelected]}>{shortcut.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.dateLabel}>
+        {date
+          ? date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+          : draft.dateKey}
+      </Text>
+
+      <View style={styles.stepperRow}>
+        <Stepper
+          label="Month"
+          value={date ? date.toLocaleDateString('en-US', { month: 'short' }) : '--'}
+          onStep={stepDate('month')}
+        />
+        <Stepper label="Day" value={date ? String(date.getDate()) : '--'} onStep={stepDate('day')} />
+        <Stepper label="Year" value={date ? String(date.getFullYear()) : '--'} onStep={stepDate('year')} />
+      </View>
+
+      <View style={styles.timeToggle}>
+        <View style={styles.timeToggleText}>
+          <Text style={styles.toggleTitle}>I know the time</Text>
+          <Text style={styles.toggleSubtitle}>
+            {draft.hasTime ? 'Counting from this exact time' : 'Counting from the start of the day'}
+          </Text>
+        </View>
+        <Switch
+          value={draft.hasTime}
+          onValueChange={hasTime => update({ hasTime })}
+          trackColor={{ false: Colors.border, true: Colors.primary }}
+          thumbColor={Colors.surface}
+        />
+      </View>
+
+      {draft.hasTime && <TimeSteppers time={draft.time} onChange={time => update({ time })} />}
+
+      <View style={[styles.preview, error && styles.previewError]}>
+        {error ? (
+          <Text style={styles.errorText}>{error}</Text>
+        ) : (
+          <>
+            <Text style={styles.previewLabel}>Your counter will show</Text>
+            <Text style={styles.previewText}>{preview}</Text>
+          </>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    backgroundColor: Colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primaryDark,
+  },
+  chipText: {
+    ...Fonts.caption,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: Colors.surface,
+  },
+  dateLabel: {
+    ...Fonts.headline,
+    color: Colors.text,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 16,
+  },
+  timeToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  timeToggleText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  toggleTitle: {
+    ...Fonts.body,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  toggleSubtitle: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+  },
+  preview: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+  },
+  previewError: {
+    borderWidth: 1,
+    borderColor: Colors.danger,
+  },
+  previewLabel: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  previewText: {
+    ...Fonts.headline,
+    color: Colors.primary,
+    textAlign: 'center',
+  },
+  errorText: {
+    ...Fonts.body,
+    color: Colors.danger,
+    textAlign: 'center',
+  },
+});
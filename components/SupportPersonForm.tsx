@@ -0,0 +1,167 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+import { SupportRole } from '../utils/database';
+import { MAX_SUPPORT_NOTES_LENGTH, SUPPORT_ROLES, SupportPersonDraft } from '../utils/supportContacts';
+
+interface SupportPersonFormProps {
+  value: SupportPersonDraft;
+  onChange: (draft: SupportPersonDraft) => void;
+}
+
+export const SupportPersonForm: React.FC<SupportPersonFormProps> = ({ value, onChange }) => {
+  const update = (changes: Partial<SupportPersonDraft>) => onChange({ ...value, ...changes });
+
+  return (
+    <View>
+      <View style={styles.inputGroup}>
+        <Text style={styles.inputLabel}>Name</Text>
+        <TextInput
+          style={styles.textInput}
+          value={value.name}
+          onChangeText={name => update({ name })}
+          placeholder="Enter their name"
+          placeholderTextColor={Colors.textLight}
+          autoCorrect={false}
+          autoCapitalize="words"
+          returnKeyType="next"
+          maxLength={50}
+        />
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.inputLabel}>Phone Number</Text>
+        <TextInput
+          style={styles.textInput}
+          value={value.phone}
+          onChangeText={phone => update({ phone })}
+          placeholder="Enter their phone number"
+          placeholderTextColor={Colors.textLight}
+          keyboardType="phone-pad"
+          returnKeyType="done"
+          maxLength={20}
+        />
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.inputLabel}>Who are they to you?</Text>
+        <View style={styles.roleRow}>
+          {(Object.keys(SUPPORT_ROLES) as SupportRole[]).map(role => (
+            <TouchableOpacity
+              key={role}
+              style={[styles.roleChip, value.role === role && styles.roleChipSelected]}
+              onPress={() => update({ role })}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.roleChipText, value.role === role && styles.roleChipTextSelected]}>
+                {SUPPORT_ROLES[role].icon} {SUPPORT_ROLES[role].label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.inputLabel}>Usual hours (optional)</Text>
+        <View style={styles.hoursRow}>
+          <TextInput
+            style={[styles.textInput, styles.hoursInput]}
+            value={value.availableFrom}
+            onChangeText={availableFrom => update({ availableFrom })}
+            placeholder="9:00"
+            placeholderTextColor={Colors.textLight}
+            keyboardType="numbers-and-punctuation"
+            maxLength={5}
+          />
+          <Text style={styles.hoursSeparator}>to</Text>
+          <TextInput
+            style={[styles.textInput, styles.hoursInput]}
+            value={value.availableUntil}
+            onChangeText={availableUntil => update({ availableUntil })}
+            placeholder="21:00"
+            placeholderTextColor={Colors.textLight}
+            keyboardType="numbers-and-punctuation"
+            maxLength={5}
+          />
+        </View>
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.inputLabel}>Notes (optional)</Text>
+        <TextInput
+          style={[styles.textInput, styles.notesInput]}
+          value={value.notes}
+          onChangeText={notes => update({ notes })}
+          placeholder="e.g. Text first, prefers evenings"
+          placeholderTextColor={Colors.textLight}
+          multiline
+          maxLength={MAX_SUPPORT_NOTES_LENGTH}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    ...Fonts.body,
+    color: Colors.text,
+    marginBottom: 8,
+    fontWeight: '600',
+  },
+  textInput: {
+    ...Fonts.body,
+    color: Colors.text,
+    padding: 16,
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  roleRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  roleChip: {
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    backgroundColor: Colors.surface,
+  },
+  roleChipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primaryDark,
+  },
+  roleChipText: {
+    ...Fonts.caption,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  roleChipTextSelected: {
+    color: Colors.surface,
+  },
+  hoursRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  hoursInput: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  hoursSeparator: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+});
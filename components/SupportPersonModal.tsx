@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { SupportPersonForm } from './SupportPersonForm';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+import { database, SupportPerson } from '../utils/database';
+import { storage } from '../utils/storage';
+import { CountryCode, DEFAULT_COUNTRY } from '../utils/countries';
+import {
+  draftFromPerson,
+  draftToInput,
+  EMPTY_SUPPORT_DRAFT,
+  SupportPersonDraft,
+  validateSupportDraft,
+} from '../utils/supportContacts';
+
+interface SupportPersonModalProps {
+  visible: boolean;
+  // The person being edited, or null to add someone new
+  person: SupportPerson | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const SupportPersonModal: React.FC<SupportPersonModalProps> = ({ visible, person, onClose, onSaved }) => {
+  const [draft, setDraft] = useState<SupportPersonDraft>(EMPTY_SUPPORT_DRAFT);
+  const [country, setCountry] = useState<CountryCode>(DEFAULT_COUNTRY);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setDraft(EMPTY_SUPPORT_DRAFT);
+    storage.getCountry().then(savedCountry => {
+      setCountry(savedCountry);
+      setDraft(person ? draftFromPerson(person, savedCountry) : EMPTY_SUPPORT_DRAFT);
+    });
+  }, [visible, person]);
+
+  const handleSave = async () => {
+    const validationError = validateSupportDraft(draft, country);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      if (person?.id) {
+        await database.updateSupportPerson(person.id, draftToInput(draft, country));
+      } else {
+        await database.addSupportPerson(draftToInput(draft, country));
+      }
+      onSaved();
+    } catch (error) {
+      // console.error('Error saving support person:', error);
+      Alert.alert('Error', 'Failed to save support person. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>
+            {person ? 'Edit Support Person' : 'Add Support Person'}
+          </Text>
+
+          <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+            <SupportPersonForm value={draft} onChange={setDraft} />
+
+            <View style={styles.modalNote}>
+              <Text style={styles.modalNoteText}>
+                💙 This person will be available as a quick contact option during difficult moments.
+              </Text>
+            </View>
+          </ScrollView>
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={onClose}
+              disabled={isSaving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.saveButton}
+              onPress={handleSave}
+              disabled={isSaving}
+            >
+              <Text style={styles.saveButtonText}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: Colors.surface,
+    borderRadius: 20,
+    padding: 24,
+    margin: 20,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  modalTitle: {
+    ...Fonts.largeTitle,
+    color: Colors.text,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  formScroll: {
+    flexShrink: 1,
+  },
+  modalNote: {
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  modalNoteText: {
+    ...Fonts.caption,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    ...Fonts.body,
+    color: Colors.textSecondary,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    ...Fonts.body,
+    color: Colors.surface,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { LargeButton } from './LargeButton';
+import { Colors } from '../constants/Colors';
+import { Fonts } from '../constants/Fonts';
+import { UrgeRating } from '../utils/database';
+import { getNow } from '../utils/clock';
+
+const CHECK_INTERVAL_MINUTES = 2;
+const WINDOW_OPTIONS = [10, 20, 30];
+const INTENSITY_OPTIONS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+const CURVE_HEIGHT = 120;
+
+type TimerStage = 'setup' | 'rating' | 'waiting' | 'complete';
+
+type Rating = Pick<UrgeRating, 'minute' | 'intensity'>;
+
+interface UrgeSurfingTimerProps {
+  onRating: (rating: Rating) => void;
+  onFinish: () => void;
+}
+
+const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remaining = seconds % 60;
+  return `${minutes}:${String(remaining).padStart(2, '0')}`;
+};
+
+const UrgeCurve: React.FC<{ ratings: Rating[] }> = ({ ratings }) => (
+  <View style={styles.curve}>
+    {ratings.map(rating => (
+      <View key={rating.minute} style={styles.curveColumn}>
+        <Text style={styles.curveValue}>{rating.intensity}</Text>
+        <View style={[styles.curveBar, { height: Math.max(4, (rating.intensity / 10) * CURVE_HEIGHT) }]} />
+        <Text style={styles.curveLabel}>{rating.minute}m</Text>
+      </View>
+    ))}
+  </View>
+);
+
+export const UrgeSurfingTimer: React.FC<UrgeSurfingTimerProps> = ({ onRating, onFinish }) => {
+  const [stage, setStage] = useState<TimerStage>('setup');
+  const [windowMinutes, setWindowMinutes] = useState(WINDOW_OPTIONS[0]);
+  const [ratings, setRatings] = useState<Rating[]>([]);
+  const [nextCheckAt, setNextCheckAt] = useState(0);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  // Count down to the next check-in while waiting
+  useEffect(() => {
+    if (stage !== 'waiting') return;
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((nextCheckAt - getNow().getTime()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) setStage('rating');
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [stage, nextCheckAt]);
+
+  const handleRate = (intensity: number) => {
+    const rating = { minute: ratings.length * CHECK_INTERVAL_MINUTES, intensity };
+    setRatings(prev => [...prev, rating]);
+    onRating(rating);
+
+    if (rating.minute >= windowMinutes) {
+      setStage('complete');
+    } else {
+      setNextCheckAt(getNow().getTime() + CHECK_INTERVAL_MINUTES * 60 * 1000);
+      setStage('waiting');
+    }
+  };
+
+  const getSummary = () => {
+    const first = ratings[0]?.intensity ?? 0;
+    const last = ratings[ratings.length - 1]?.intensity ?? 0;
+    const peak = Math.max(...ratings.map(rating => rating.intensity));
+
+    if (last < first) return `Your craving went from ${first} down to ${last}. It peaked and passed.`;
+    if (last < peak) return `Your craving peaked at ${peak} and came down to ${last}. You rode the wave.`;
+    return 'The urge is still here, and so are you. You stayed with it without acting on it.';
+  };
+
+  if (stage === 'setup') {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.icon}>🌊</Text>
+        <Text style={styles.prompt}>Surf the urge</Text>
+        <Text style={styles.hint}>
+          Cravings rise, peak and pass, like a wave. We'll check in every {CHECK_INTERVAL_MINUTES} minutes so you can watch this one pass.
+        </Text>
+        <Text style={styles.label}>How long would you like to surf?</Text>
+        <View style={styles.optionRow}>
+          {WINDOW_OPTIONS.map(minutes => (
+            <TouchableOpacity
+              key={minutes}
+              style={[styles.optionButton, windowMinutes === minutes && styles.optionButtonSelected]}
+              onPress={() => setWindowMinutes(minutes)}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.optionText, windowMinutes === minutes && styles.optionTextSelected]}>
+                {minutes} min
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <LargeButton title="Start" onPress={() => setStage('rating')} style={styles.button} />
+        <TouchableOpacity style={styles.stopButton} onPress={onFinish}>
+          <Text style={styles.stopButtonText}>Go back to breathing</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {ratings.length > 0 && <UrgeCurve ratings={ratings} />}
+
+      {stage === 'rating' && (
+        <>
+          <Text style={styles.prompt}>How strong is the craving right now?</Text>
+          <Text style={styles.hint}>0 is no craving at all, 10 is the strongest you've felt.</Text>
+          <View style={styles.intensityGrid}>
+            {INTENSITY_OPTIONS.map(intensity => (
+              <TouchableOpacity
+                key={intensity}
+                style={styles.intensityButton}
+                onPress={() => handleRate(intensity)}
+                activeOpacity={0.8}
+                accessibilityLabel={`Craving intensity ${intensity}`}
+              >
+                <Text style={styles.intensityText}>{intensity}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+
+      {stage === 'waiting' && (
+        <>
+          <Text style={styles.countdown}>{formatCountdown(secondsLeft)}</Text>
+          <Text style={styles.hint}>
+            Notice where you feel the urge in your body. Breathe into it. You don't have to act on it.
+          </Text>
+        </>
+      )}
+
+      {stage === 'complete' && (
+        <>
+          <Text style={styles.prompt}>You made it through</Text>
+          <Text style={styles.hint}>{getSummary()}</Text>
+          <LargeButton title="Back to Breathing" onPress={onFinish} style={styles.button} />
+        </>
+      )}
+
+      {stage !== 'complete' && (
+        <TouchableOpacity style={styles.stopButton} onPress={onFinish}>
+          <Text style={styles.stopButtonText}>Stop and go back to breathing</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    maxWidth: 350,
+    width: '100%',
+    marginTop: 20,
+  },
+  icon: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  prompt: {
+    ...Fonts.title,
+    color: Colors.surface,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  hint: {
+    ...Fonts.body,
+    color: Colors.surface,
+    textAlign: 'center',
+    opacity: 0.9,
+    marginBottom: 20,
+  },
+  label: {
+    ...Fonts.body,
+    color: Colors.surface,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    width: '100%',
+  },
+  optionButton: {
+    flex: 1,
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+    borderRadius: 12,
+    paddingVertical: 14,
+    minHeight: 56,
+    justifyContent: 'center',
+  },
+  optionButtonSelected: {
+    backgroundColor: Colors.surface,
+    borderColor: Colors.surface,
+  },
+  optionText: {
+    ...Fonts.button,
+    color: Colors.surface,
+    textAlign: 'center',
+  },
+  optionTextSelected: {
+    color: Colors.primary,
+  },
+  intensityGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 10,
+  },
+  intensityButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: Colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  intensityText: {
+    ...Fonts.button,
+    color: Colors.primary,
+  },
+  countdown: {
+    fontSize: 56,
+    fontWeight: '700',
+    color: Colors.surface,
+    marginBottom: 12,
+  },
+  curve: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    width: '100%',
+  },
+  curveColumn: {
+    alignItems: 'center',
+    flex: 1,
+    maxWidth: 36,
+  },
+  curveValue: {
+    ...Fonts.caption,
+    color: Colors.surface,
+    marginBottom: 4,
+  },
+  curveBar: {
+    width: '100%',
+    backgroundColor: Colors.surface,
+    borderRadius: 6,
+  },
+  curveLabel: {
+    ...Fonts.caption,
+    fontSize: 12,
+    color: Colors.surface,
+    opacity: 0.8,
+    marginTop: 4,
+  },
+  button: {
+    width: '100%',
+    marginTop: 16,
+    backgroundColor: Colors.primaryDark,
+  },
+  stopButton: {
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  stopButtonText: {
+    ...Fonts.body,
+    color: Colors.surface,
+    opacity: 0.8,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,53 @@
+import {
+  CUSTOM_TIMING_LIMITS,
+  DEFAULT_CUSTOM_TIMINGS,
+  parseCustomTimings,
+  validateCustomTimings,
+} from '../breathingPatterns';
+
+const timings = (overrides = {}) => ({ ...DEFAULT_CUSTOM_TIMINGS, ...overrides });
+
+describe('validateCustomTimings', () => {
+  it('accepts timings at the limits', () => {
+    const { breath, hold } = CUSTOM_TIMING_LIMITS;
+    expect(validateCustomTimings(timings())).toBeNull();
+    expect(validateCustomTimings({ inhale: breath.min, holdIn: hold.min, exhale: breath.max, holdOut: hold.max })).toBeNull();
+  });
+
+  it('rejects breaths outside the limits', () => {
+    const { breath } = CUSTOM_TIMING_LIMITS;
+    const message = `Breathing in and out should each be ${breath.min}-${breath.max} seconds.`;
+    expect(validateCustomTimings(timings({ inhale: breath.min - 1 }))).toBe(message);
+    expect(validateCustomTimings(timings({ inhale: breath.max + 1 }))).toBe(message);
+    expect(validateCustomTimings(timings({ exhale: 0 }))).toBe(message);
+    expect(validateCustomTimings(timings({ exhale: breath.max + 1 }))).toBe(message);
+  });
+
+  it('rejects holds outside the limits', () => {
+    const { hold } = CUSTOM_TIMING_LIMITS;
+    const message = `Holds should be ${hold.min}-${hold.max} seconds.`;
+    expect(validateCustomTimings(timings({ holdIn: -1 }))).toBe(message);
+    expect(validateCustomTimings(timings({ holdOut: hold.max + 1 }))).toBe(message);
+  });
+
+  it('rejects values that are not whole seconds', () => {
+    const message = 'Please enter whole numbers of seconds.';
+    expect(validateCustomTimings(timings({ inhale: 4.5 }))).toBe(message);
+    expect(validateCustomTimings(timings({ holdOut: NaN }))).toBe(message);
+    expect(validateCustomTimings(timings({ exhale: Infinity }))).toBe(message);
+  });
+});
+
+describe('parseCustomTimings', () => {
+  it('reads the form and counts blank fields as 0', () => {
+    expect(parseCustomTimings({ inhale: ' 4 ', holdIn: '', exhale: '6', holdOut: '0' }))
+      .toEqual({ inhale: 4, holdIn: 0, exhale: 6, holdOut: 0 });
+  });
+
+  it('lets validation turn away text that is not a number', () => {
+    const parsed = parseCustomTimings({ inhale: '4', holdIn: 'two', exhale: '6s', holdOut: '0' });
+    expect(parsed.holdIn).toBeNaN();
+    expect(parsed.exhale).toBeNaN();
+    expect(validateCustomTimings(parsed)).toBe('Please enter whole numbers of seconds.');
+  });
+});
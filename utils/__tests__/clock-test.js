@@ -0,0 +1,91 @@
+import {
+  daysSince,
+  formatTimeZone,
+  fromHomeTime,
+  getHomeTimeZone,
+  getNow,
+  getTodayKey,
+  isValidTimeZone,
+  setHomeTimeZone,
+  setNowProvider,
+  toDateKey,
+  toHomeTime,
+} from '../clock';
+
+afterEach(() => {
+  setNowProvider(null);
+  setHomeTimeZone(null);
+});
+
+describe('getNow', () => {
+  it('uses the injected clock until it is reset', () => {
+    const fixed = new Date('2024-06-12T09:30:00Z');
+    setNowProvider(() => fixed);
+    expect(getNow()).toBe(fixed);
+
+    setNowProvider(null);
+    expect(Math.abs(getNow().getTime() - Date.now())).toBeLessThan(1000);
+  });
+});
+
+describe('home time zone', () => {
+  it('ignores unknown time zones', () => {
+    setHomeTimeZone('Europe/Paris');
+    setHomeTimeZone('Mars/Olympus_Mons');
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(getHomeTimeZone()).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  });
+
+  it('names time zones by their city', () => {
+    expect(formatTimeZone('America/New_York')).toBe('New York');
+    expect(formatTimeZone('UTC')).toBe('UTC');
+  });
+});
+
+describe('toHomeTime', () => {
+  it('reads the wall clock in the home time zone', () => {
+    setHomeTimeZone('Asia/Tokyo');
+    expect(toHomeTime(new Date('2024-01-10T20:15:00Z'))).toEqual(new Date(2024, 0, 11, 5, 15));
+  });
+
+  it('round trips with fromHomeTime', () => {
+    setHomeTimeZone('America/New_York');
+    ['2024-01-10T20:15:00Z', '2024-03-10T07:30:00Z', '2024-11-03T05:30:00Z'].forEach(iso => {
+      const instant = new Date(iso);
+      expect(fromHomeTime(toHomeTime(instant))).toEqual(instant);
+    });
+  });
+});
+
+describe('date keys', () => {
+  it('puts an instant on its home calendar day', () => {
+    const lateEvening = new Date('2024-03-10T03:30:00Z');
+    setHomeTimeZone('America/New_York');
+    expect(toDateKey(lateEvening)).toBe('2024-03-09');
+    setHomeTimeZone('Asia/Tokyo');
+    expect(toDateKey(lateEvening)).toBe('2024-03-10');
+  });
+
+  it('makes today\'s key from the injected clock', () => {
+    setHomeTimeZone('America/Los_Angeles');
+    setNowProvider(() => new Date('2024-07-01T06:59:00Z'));
+    expect(getTodayKey()).toBe('2024-06-30');
+  });
+});
+
+describe('daysSince', () => {
+  it('counts home midnights across a daylight saving change', () => {
+    setHomeTimeZone('America/New_York');
+    // Noon Saturday to 1am Monday, over the night clocks went forward
+    expect(daysSince(new Date('2024-03-09T17:00:00Z'), new Date('2024-03-11T05:00:00Z'))).toBe(2);
+    expect(daysSince(new Date('2024-11-02T16:00:00Z'), new Date('2024-11-04T05:30:00Z'))).toBe(2);
+  });
+
+  it('keeps counting home days while travelling', () => {
+    setHomeTimeZone('America/New_York');
+    // 11pm in New York is already the next day in London, but not at home
+    const soberAt = new Date('2024-01-11T04:00:00Z');
+    expect(daysSince(soberAt, new Date('2024-01-11T15:00:00Z'))).toBe(1);
+    expect(daysSince(soberAt, new Date('2024-01-11T04:30:00Z'))).toBe(0);
+  });
+});
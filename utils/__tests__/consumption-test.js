@@ -0,0 +1,123 @@
+import {
+  draftToConsumptionInput,
+  formatAmount,
+  getDailyTotal,
+  getLimitProgress,
+  getWeekStart,
+  getWeeklyTotal,
+  getWeeklyTrend,
+  parseAmount,
+  validateConsumptionDraft,
+  createConsumptionDraft,
+} from '../consumption';
+
+const at = (year, month, day, hour = 12) => new Date(year, month - 1, day, hour).toISOString();
+const entry = (consumedAt, amount, unit = 'standard drinks') => ({ consumed_at: consumedAt, substance: 'Alcohol', amount, unit });
+
+// Wednesday
+const now = new Date(2024, 5, 12, 18);
+
+describe('parseAmount', () => {
+  it('accepts decimals with a point or a comma', () => {
+    expect(parseAmount('1.5')).toBe(1.5);
+    expect(parseAmount(' 2,5 ')).toBe(2.5);
+  });
+
+  it('rejects zero, negatives and text', () => {
+    expect(parseAmount('0')).toBeNull();
+    expect(parseAmount('-1')).toBeNull();
+    expect(parseAmount('a few')).toBeNull();
+  });
+});
+
+describe('validateConsumptionDraft', () => {
+  it('accepts the default draft', () => {
+    expect(validateConsumptionDraft(createConsumptionDraft())).toBeNull();
+  });
+
+  it('starts at the current time', () => {
+    expect(createConsumptionDraft('joints', now)).toMatchObject({ dateKey: '2024-06-12', time: '18:00' });
+  });
+
+  it('needs a real date and time that has already passed', () => {
+    const draft = createConsumptionDraft('joints', now);
+    expect(validateConsumptionDraft({ ...draft, time: '17:55' }, now)).toBeNull();
+    expect(validateConsumptionDraft({ ...draft, time: '18:05' }, now)).toMatch(/hasn't come yet/);
+    expect(validateConsumptionDraft({ ...draft, dateKey: '2024-02-30' }, now)).toMatch(/real date/);
+  });
+
+  it('needs an amount and a unit', () => {
+    expect(validateConsumptionDraft({ ...createConsumptionDraft(), amount: '' })).toMatch(/amount/);
+    expect(validateConsumptionDraft({ ...createConsumptionDraft(), unit: ' ' })).toMatch(/unit/);
+  });
+});
+
+describe('draftToConsumptionInput', () => {
+  it('logs the picked date and time and normalizes the unit', () => {
+    const draft = { ...createConsumptionDraft('Joints', now), dateKey: '2024-06-11', time: '20:00' };
+    const input = draftToConsumptionInput(draft, 2);
+    expect(input.tracker_id).toBe(2);
+    expect(input.consumed_at).toBe(at(2024, 6, 11, 20));
+    expect(input.unit).toBe('joints');
+    expect(input.context).toBeNull();
+  });
+});
+
+describe('getWeekStart', () => {
+  it('starts weeks on Monday', () => {
+    expect(getWeekStart(now)).toEqual(new Date(2024, 5, 10));
+    expect(getWeekStart(new Date(2024, 5, 16, 23))).toEqual(new Date(2024, 5, 10));
+  });
+});
+
+describe('totals', () => {
+  const entries = [
+    entry(at(2024, 6, 12, 9), 2),
+    entry(at(2024, 6, 12, 10), 1, 'joints'),
+    entry(at(2024, 6, 10, 21), 1.5),
+    entry(at(2024, 6, 9, 21), 4),
+  ];
+
+  it('adds up today in the tracked unit only', () => {
+    expect(getDailyTotal(entries, 'standard drinks', now)).toBe(2);
+  });
+
+  it('adds up this week from Monday', () => {
+    expect(getWeeklyTotal(entries, 'standard drinks', now)).toBe(3.5);
+  });
+});
+
+describe('getLimitProgress', () => {
+  it('reports what is left under the limit', () => {
+    expect(getLimitProgress(1.5, 2)).toEqual({ total: 1.5, limit: 2, ratio: 0.75, remaining: 0.5, isOver: false });
+  });
+
+  it('caps the ratio when over the limit', () => {
+    expect(getLimitProgress(3, 2)).toMatchObject({ ratio: 1, remaining: 0, isOver: true });
+  });
+
+  it('has no progress without a limit', () => {
+    expect(getLimitProgress(3, null)).toMatchObject({ ratio: 0, remaining: null, isOver: false });
+  });
+});
+
+describe('getWeeklyTrend', () => {
+  it('compares each week with the one before', () => {
+    const trend = getWeeklyTrend([
+      entry(at(2024, 6, 11), 5),
+      entry(at(2024, 6, 4), 10),
+    ], 'standard drinks', now, 2);
+
+    expect(trend).toEqual([
+      { weekStart: '2024-06-03', total: 10, change: null },
+      { weekStart: '2024-06-10', total: 5, change: -50 },
+    ]);
+  });
+});
+
+describe('formatAmount', () => {
+  it('uses the singular for exactly one', () => {
+    expect(formatAmount(1, 'standard drinks')).toBe('1 standard drink');
+    expect(formatAmount(2.5, 'standard drinks')).toBe('2.5 standard drinks');
+  });
+});
@@ -0,0 +1,41 @@
+import { COUNTRIES } from '../countries';
+import { formatDialInstruction, formatTextInstruction, getCrisisLines } from '../crisisLines';
+
+describe('getCrisisLines', () => {
+  it('has an emergency number and at least one reachable line for every country', () => {
+    Object.keys(COUNTRIES).forEach(code => {
+      const region = getCrisisLines(code);
+      expect(region.emergency).toMatch(/^\d+$/);
+      expect(region.lines.length).toBeGreaterThan(0);
+      region.lines.forEach(line => {
+        expect(line.name).toBeTruthy();
+        expect(line.hours).toBeTruthy();
+        expect(line.phone || line.text).toBeTruthy();
+      });
+    });
+  });
+
+  it('returns the lines for the given country', () => {
+    expect(getCrisisLines('GB').lines[0].name).toBe('Samaritans');
+    expect(getCrisisLines('GB').emergency).toBe('999');
+  });
+
+  it('falls back to the default country for unknown codes', () => {
+    expect(getCrisisLines('XX')).toBe(getCrisisLines('US'));
+  });
+});
+
+describe('formatDialInstruction', () => {
+  it('adds any extra step after the number', () => {
+    expect(formatDialInstruction({ name: 'VCL', description: '', phone: '988', dialNote: 'then press 1', hours: '24/7' }))
+      .toBe('988, then press 1');
+    expect(formatDialInstruction({ name: 'Text only', description: '', hours: '24/7' })).toBeNull();
+  });
+});
+
+describe('formatTextInstruction', () => {
+  it('includes the keyword when the line needs one', () => {
+    expect(formatTextInstruction({ number: '741741', keyword: 'HOME' })).toBe('Text HOME to 741741');
+    expect(formatTextInstruction({ number: '988' })).toBe('Text 988');
+  });
+});
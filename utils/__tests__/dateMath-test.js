@@ -0,0 +1,106 @@
+import {
+  addDaysToKey,
+  addMonths,
+  addYears,
+  calendarDaysBetween,
+  formatDateKey,
+  getCalendarDuration,
+  subtractCalendarDuration,
+} from '../dateMath';
+
+describe('addMonths', () => {
+  it('keeps the day and time of day', () => {
+    expect(addMonths(new Date(2024, 0, 15, 21, 45), 1)).toEqual(new Date(2024, 1, 15, 21, 45));
+  });
+
+  it('lands on the last day of shorter months', () => {
+    expect(addMonths(new Date(2024, 0, 31), 1)).toEqual(new Date(2024, 1, 29));
+    expect(addMonths(new Date(2025, 0, 31), 1)).toEqual(new Date(2025, 1, 28));
+    expect(addMonths(new Date(2024, 2, 31), -1)).toEqual(new Date(2024, 1, 29));
+    expect(addMonths(new Date(2024, 7, 31), 1)).toEqual(new Date(2024, 8, 30));
+  });
+
+  it('crosses year boundaries', () => {
+    expect(addMonths(new Date(2024, 10, 30), 3)).toEqual(new Date(2025, 1, 28));
+    expect(addMonths(new Date(2024, 1, 10), -14)).toEqual(new Date(2022, 11, 10));
+  });
+});
+
+describe('addYears', () => {
+  it('puts a leap day on Feb 28 in other years and back on Feb 29 in leap years', () => {
+    expect(addYears(new Date(2024, 1, 29), 1)).toEqual(new Date(2025, 1, 28));
+    expect(addYears(new Date(2024, 1, 29), 4)).toEqual(new Date(2028, 1, 29));
+  });
+});
+
+describe('calendarDaysBetween', () => {
+  it('counts midnights, ignoring the time of day', () => {
+    expect(calendarDaysBetween(new Date(2024, 0, 10, 23, 30), new Date(2024, 0, 11, 0, 5))).toBe(1);
+    expect(calendarDaysBetween(new Date(2024, 0, 10, 1), new Date(2024, 0, 10, 23))).toBe(0);
+  });
+
+  it('counts the leap day', () => {
+    expect(calendarDaysBetween(new Date(2024, 1, 28), new Date(2024, 2, 1))).toBe(2);
+    expect(calendarDaysBetween(new Date(2023, 1, 28), new Date(2023, 2, 1))).toBe(1);
+    expect(calendarDaysBetween(new Date(2024, 0, 1), new Date(2025, 0, 1))).toBe(366);
+  });
+});
+
+describe('getCalendarDuration', () => {
+  it('counts whole calendar years, months and days', () => {
+    expect(getCalendarDuration(new Date(2023, 2, 15), new Date(2024, 4, 20))).toEqual({ years: 1, months: 2, days: 5 });
+    expect(getCalendarDuration(new Date(2024, 0, 10), new Date(2024, 0, 10))).toEqual({ years: 0, months: 0, days: 0 });
+    expect(getCalendarDuration(new Date(2024, 0, 10), new Date(2023, 0, 10))).toEqual({ years: 0, months: 0, days: 0 });
+  });
+
+  it('makes a year from a leap day exactly 1 year', () => {
+    // 366 days, which 365-day years would show as 1 year 1 day
+    expect(getCalendarDuration(new Date(2023, 2, 1), new Date(2024, 2, 1))).toEqual({ years: 1, months: 0, days: 0 });
+    expect(getCalendarDuration(new Date(2024, 1, 29), new Date(2025, 1, 28))).toEqual({ years: 1, months: 0, days: 0 });
+    expect(getCalendarDuration(new Date(2024, 1, 29), new Date(2025, 2, 1))).toEqual({ years: 1, months: 0, days: 1 });
+  });
+
+  it('handles month ends', () => {
+    expect(getCalendarDuration(new Date(2024, 0, 31), new Date(2024, 1, 29))).toEqual({ years: 0, months: 1, days: 0 });
+    expect(getCalendarDuration(new Date(2025, 0, 31), new Date(2025, 1, 28))).toEqual({ years: 0, months: 1, days: 0 });
+    expect(getCalendarDuration(new Date(2025, 0, 31), new Date(2025, 2, 1))).toEqual({ years: 0, months: 1, days: 1 });
+    // Jan 30 + 1 month is also the last day of February
+    expect(getCalendarDuration(new Date(2024, 0, 30), new Date(2024, 1, 29))).toEqual({ years: 0, months: 1, days: 0 });
+    expect(getCalendarDuration(new Date(2024, 0, 30), new Date(2024, 1, 28))).toEqual({ years: 0, months: 0, days: 29 });
+  });
+
+  it('ignores the time of day', () => {
+    expect(getCalendarDuration(new Date(2024, 0, 10, 23), new Date(2024, 1, 10, 1))).toEqual({ years: 0, months: 1, days: 0 });
+  });
+});
+
+describe('subtractCalendarDuration', () => {
+  it('goes back by calendar years, months and days at the same time of day', () => {
+    const now = new Date(2024, 4, 20, 9, 15);
+    expect(subtractCalendarDuration(now, { years: 1, months: 2, days: 5 })).toEqual(new Date(2023, 2, 15, 9, 15));
+  });
+
+  it('round trips with getCalendarDuration', () => {
+    const now = new Date(2025, 2, 1, 12);
+    [new Date(2024, 6, 4, 12), new Date(2024, 1, 28, 12), new Date(2023, 11, 15, 12), new Date(2025, 1, 3, 12)].forEach(start => {
+      expect(subtractCalendarDuration(now, getCalendarDuration(start, now))).toEqual(start);
+    });
+  });
+
+  it('lands on month ends rather than overflowing', () => {
+    expect(subtractCalendarDuration(new Date(2024, 2, 31), { years: 0, months: 1, days: 0 })).toEqual(new Date(2024, 1, 29));
+  });
+});
+
+describe('date keys', () => {
+  it('formats the local calendar date', () => {
+    expect(formatDateKey(new Date(2024, 1, 9, 23, 59))).toBe('2024-02-09');
+  });
+
+  it('moves keys by whole days across month, year and leap days', () => {
+    expect(addDaysToKey('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDaysToKey('2024-03-01', -1)).toBe('2024-02-29');
+    expect(addDaysToKey('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addDaysToKey('2024-03-09', 2)).toBe('2024-03-11');
+  });
+});
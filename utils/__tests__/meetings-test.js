@@ -0,0 +1,92 @@
+import {
+  draftToMeetingInput,
+  EMPTY_MEETING_DRAFT,
+  formatMeetingSchedule,
+  formatNextMeeting,
+  formatTimeOfDay,
+  getNextMeeting,
+  getNextOccurrence,
+  validateMeetingDraft,
+} from '../meetings';
+
+// Monday 15 January 2024, 18:00
+const monday = new Date(2024, 0, 15, 18, 0);
+
+const meeting = (overrides = {}) => ({
+  id: 1,
+  name: 'Monday Night Group',
+  day_of_week: 1,
+  start_time: '19:00',
+  ...overrides,
+});
+
+describe('validateMeetingDraft', () => {
+  const draft = { ...EMPTY_MEETING_DRAFT, name: 'Home group', startTime: '7:30' };
+
+  it('needs a name and a start time', () => {
+    expect(validateMeetingDraft(draft)).toBeNull();
+    expect(validateMeetingDraft({ ...draft, name: ' ' })).not.toBeNull();
+    expect(validateMeetingDraft({ ...draft, startTime: '25:00' })).not.toBeNull();
+  });
+
+  it('rejects links with spaces', () => {
+    expect(validateMeetingDraft({ ...draft, onlineUrl: 'zoom.us/j/123' })).toBeNull();
+    expect(validateMeetingDraft({ ...draft, onlineUrl: 'my zoom link' })).not.toBeNull();
+  });
+});
+
+describe('draftToMeetingInput', () => {
+  it('normalises the time and adds a scheme to bare links', () => {
+    const input = draftToMeetingInput({ ...EMPTY_MEETING_DRAFT, name: ' Home group ', startTime: '7:30', onlineUrl: 'zoom.us/j/123' });
+    expect(input.name).toBe('Home group');
+    expect(input.start_time).toBe('07:30');
+    expect(input.online_url).toBe('https://zoom.us/j/123');
+    expect(input.location).toBeNull();
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('returns later today when the meeting has not started yet', () => {
+    expect(getNextOccurrence(meeting(), monday)).toEqual(new Date(2024, 0, 15, 19, 0));
+  });
+
+  it('stays on today while the meeting is still running', () => {
+    expect(getNextOccurrence(meeting({ start_time: '17:30' }), monday)).toEqual(new Date(2024, 0, 15, 17, 30));
+  });
+
+  it('moves to next week once the meeting has finished', () => {
+    expect(getNextOccurrence(meeting({ start_time: '17:00' }), monday)).toEqual(new Date(2024, 0, 22, 17, 0));
+    expect(getNextOccurrence(meeting({ start_time: '16:00' }), monday)).toEqual(new Date(2024, 0, 22, 16, 0));
+  });
+
+  it('wraps around the end of the week and month', () => {
+    const saturday = new Date(2024, 0, 27, 12, 0);
+    expect(getNextOccurrence(meeting({ day_of_week: 0, start_time: '10:00' }), saturday)).toEqual(new Date(2024, 0, 28, 10, 0));
+    expect(getNextOccurrence(meeting({ day_of_week: 2 }), saturday)).toEqual(new Date(2024, 0, 30, 19, 0));
+  });
+});
+
+describe('getNextMeeting', () => {
+  it('picks the soonest meeting', () => {
+    const wednesday = meeting({ id: 2, day_of_week: 3 });
+    const tonight = meeting({ id: 3, start_time: '20:00' });
+    expect(getNextMeeting([wednesday, tonight], monday).meeting.id).toBe(3);
+    expect(getNextMeeting([], monday)).toBeNull();
+  });
+});
+
+describe('formatting', () => {
+  it('formats times of day in 12-hour time', () => {
+    expect(formatTimeOfDay('00:05')).toBe('12:05 AM');
+    expect(formatTimeOfDay('12:00')).toBe('12:00 PM');
+    expect(formatTimeOfDay('19:30')).toBe('7:30 PM');
+  });
+
+  it('describes the weekly schedule and the next meeting', () => {
+    expect(formatMeetingSchedule(meeting())).toBe('Mondays at 7:00 PM');
+    expect(formatNextMeeting(new Date(2024, 0, 15, 17, 30), monday)).toBe('Started at 5:30 PM');
+    expect(formatNextMeeting(new Date(2024, 0, 15, 19, 0), monday)).toBe('Today at 7:00 PM');
+    expect(formatNextMeeting(new Date(2024, 0, 16, 9, 0), monday)).toBe('Tomorrow at 9:00 AM');
+    expect(formatNextMeeting(new Date(2024, 0, 18, 19, 0), monday)).toBe('Thursday at 7:00 PM');
+  });
+});
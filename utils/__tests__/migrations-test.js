@@ -0,0 +1,82 @@
+import { MigrationError, MIGRATIONS, runMigrations } from '../migrations';
+
+// Minimal stand-in for expo-sqlite: tracks user_version and rolls it back
+// when a transaction throws.
+const createFakeDatabase = (initialVersion = 0) => {
+  const state = { userVersion: initialVersion, executed: [] };
+
+  const db = {
+    getFirstAsync: async (sql) => {
+      if (sql === 'PRAGMA user_version') return { user_version: state.userVersion };
+      return null;
+    },
+    getAllAsync: async () => [],
+    execAsync: async (sql) => {
+      const match = sql.match(/PRAGMA user_version = (\d+)/);
+      if (match) {
+        state.userVersion = Number(match[1]);
+      } else {
+        state.executed.push(sql);
+      }
+    },
+    withTransactionAsync: async (task) => {
+      const versionBefore = state.userVersion;
+      try {
+        await task();
+      } catch (error) {
+        state.userVersion = versionBefore;
+        throw error;
+      }
+    },
+  };
+
+  return { db, state };
+};
+
+const migration = (version, up) => ({
+  version,
+  name: `migration_${version}`,
+  up: up ?? (async (db) => { await db.execAsync(`step ${version}`); }),
+});
+
+describe('runMigrations', () => {
+  it('applies pending migrations in version order', async () => {
+    const { db, state } = createFakeDatabase();
+
+    const version = await runMigrations(db, [migration(3), migration(1), migration(2)]);
+
+    expect(version).toBe(3);
+    expect(state.userVersion).toBe(3);
+    expect(state.executed).toEqual(['step 1', 'step 2', 'step 3']);
+  });
+
+  it('skips migrations the database already has', async () => {
+    const { db, state } = createFakeDatabase(2);
+
+    await runMigrations(db, [migration(1), migration(2), migration(3)]);
+
+    expect(state.executed).toEqual(['step 3']);
+  });
+
+  it('stops at the failing migration and reports it', async () => {
+    const { db, state } = createFakeDatabase();
+    const failing = migration(2, async () => {
+      throw new Error('disk full');
+    });
+
+    const result = runMigrations(db, [migration(1), failing, migration(3)]);
+
+    await expect(result).rejects.toBeInstanceOf(MigrationError);
+    await expect(result).rejects.toMatchObject({ version: 2, migrationName: 'migration_2' });
+    expect(state.userVersion).toBe(1);
+    expect(state.executed).toEqual(['step 1']);
+  });
+});
+
+describe('MIGRATIONS', () => {
+  it('has unique, increasing versions', () => {
+    const versions = MIGRATIONS.map(m => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+  });
+});
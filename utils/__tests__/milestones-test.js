@@ -0,0 +1,193 @@
+import { setHomeTimeZone } from '../clock';
+import {
+  getLastCelebrated,
+  getLatestMilestone,
+  getMilestones,
+  getMilestoneToCelebrate,
+  getUpcomingMilestones,
+  isMilestoneReached,
+  parseDateKey,
+  toMilestoneCelebration,
+  validateCustomMilestoneDraft,
+} from '../milestones';
+
+const soberDate = new Date(2024, 0, 10, 22, 30).toISOString();
+
+describe('getMilestones', () => {
+  it('counts the first milestones in exact hours', () => {
+    const [first, second] = getMilestones(soberDate);
+    expect(first).toMatchObject({ id: 'hours-24', days: 1, dateKey: '2024-01-11', label: '24 hours' });
+    expect(new Date(first.at)).toEqual(new Date(2024, 0, 11, 22, 30));
+    expect(second).toMatchObject({ id: 'hours-72', dateKey: '2024-01-13', label: '72 hours' });
+    expect(getMilestones(soberDate).some(m => m.id === 'days-1' || m.id === 'days-3')).toBe(false);
+  });
+
+  it('counts day milestones by calendar day from the sober date', () => {
+    const milestones = getMilestones(soberDate);
+    expect(milestones.find(m => m.days === 7)).toMatchObject({ dateKey: '2024-01-17', label: '1 week' });
+    expect(milestones.find(m => m.id === 'days-14')).toMatchObject({ dateKey: '2024-01-24', label: '2 weeks' });
+  });
+
+  it('puts month milestones on the same day of the month', () => {
+    const milestones = getMilestones(soberDate);
+    expect(milestones.find(m => m.id === 'months-1')).toMatchObject({ dateKey: '2024-02-10', days: 31, label: '1 month' });
+    expect(milestones.find(m => m.id === 'months-3')).toMatchObject({ dateKey: '2024-04-10', label: '3 months' });
+    expect(milestones.find(m => m.id === 'months-6')).toMatchObject({ dateKey: '2024-07-10', label: '6 months' });
+
+    const fromMonthEnd = getMilestones(new Date(2024, 0, 31, 20).toISOString());
+    expect(fromMonthEnd.find(m => m.id === 'months-1').dateKey).toBe('2024-02-29');
+    expect(fromMonthEnd.find(m => m.id === 'months-2').dateKey).toBe('2024-03-31');
+  });
+
+  it('puts yearly anniversaries on the same calendar date', () => {
+    const years = getMilestones(soberDate).filter(m => m.label.endsWith('year') || m.label.endsWith('years'));
+    expect(years[0]).toMatchObject({ dateKey: '2025-01-10', days: 366, label: '1 year' });
+    expect(years[1]).toMatchObject({ dateKey: '2026-01-10', label: '2 years' });
+  });
+
+  it('puts leap day anniversaries on Feb 28 in other years', () => {
+    const years = getMilestones(new Date(2024, 1, 29, 9).toISOString()).filter(m => m.kind === 'anniversary');
+    expect(years[0]).toMatchObject({ dateKey: '2025-02-28', days: 365 });
+    expect(years[3]).toMatchObject({ dateKey: '2028-02-29', label: '4 years' });
+  });
+
+  it('repeats every hundred days', () => {
+    const hundreds = getMilestones(soberDate).filter(m => m.kind === 'hundred_days');
+    expect(hundreds[0]).toMatchObject({ id: 'hundred-days-100', dateKey: '2024-04-19', label: '100 days' });
+    expect(hundreds.find(m => m.days === 1000)).toMatchObject({ label: '1,000 days' });
+    expect(hundreds.filter(m => m.days > 3650).length).toBeGreaterThan(0);
+  });
+
+  it('keeps every milestone id unique and in date order', () => {
+    const milestones = getMilestones(soberDate);
+    const dateKeys = milestones.map(m => m.dateKey);
+    expect(new Set(milestones.map(m => m.id)).size).toBe(milestones.length);
+    expect(dateKeys).toEqual([...dateKeys].sort());
+  });
+
+  it('slots custom milestones in by date with their own message', () => {
+    const custom = [
+      { id: 3, tracker_id: 1, title: 'First holiday', date_key: '2024-01-20', message: 'Sun, sea and a clear head' },
+      { id: 4, tracker_id: 1, title: 'Sober birthday', date_key: '2024-03-02', message: null },
+      { id: 5, tracker_id: 1, title: 'Before', date_key: '2024-01-01', message: null },
+    ];
+    const milestones = getMilestones(soberDate, custom);
+    const holiday = milestones.findIndex(m => m.id === 'custom-3');
+    expect(milestones[holiday]).toMatchObject({ kind: 'custom', days: 10, label: 'First holiday', message: 'Sun, sea and a clear head' });
+    expect(milestones[holiday - 1].days).toBe(7);
+    expect(milestones.find(m => m.id === 'custom-4').message).toBe('🎉 Sober birthday!');
+    expect(milestones.find(m => m.id === 'custom-5')).toBeUndefined();
+  });
+
+  it('dates milestones on the home calendar', () => {
+    // 10:30pm in New York is already the next day in Tokyo
+    const newYorkEvening = '2024-01-11T03:30:00Z';
+    try {
+      setHomeTimeZone('America/New_York');
+      expect(getMilestones(newYorkEvening).find(m => m.id === 'days-7').dateKey).toBe('2024-01-17');
+      setHomeTimeZone('Asia/Tokyo');
+      expect(getMilestones(newYorkEvening).find(m => m.id === 'days-7').dateKey).toBe('2024-01-18');
+    } finally {
+      setHomeTimeZone(null);
+    }
+  });
+});
+
+describe('isMilestoneReached', () => {
+  it('waits for the exact hour on hour milestones', () => {
+    const [first] = getMilestones(soberDate);
+    expect(isMilestoneReached(first, new Date(2024, 0, 11, 22, 0))).toBe(false);
+    expect(isMilestoneReached(first, new Date(2024, 0, 11, 22, 30))).toBe(true);
+  });
+});
+
+describe('getUpcomingMilestones', () => {
+  it('returns the next milestones after today, soonest first', () => {
+    const upcoming = getUpcomingMilestones(soberDate, new Date(2024, 0, 17, 12), 2);
+    expect(upcoming.map(m => m.dateKey)).toEqual(['2024-01-24', '2024-02-10']);
+  });
+});
+
+describe('getMilestoneToCelebrate', () => {
+  const celebrated = (dateKey, milestoneId) => ({ soberDate, dateKey, milestoneId });
+
+  it("celebrates today's milestone", () => {
+    const celebration = getMilestoneToCelebrate(soberDate, null, new Date(2024, 0, 17, 8));
+    expect(celebration).toMatchObject({ milestone: { days: 7 }, missed: false });
+  });
+
+  it('celebrates a milestone that passed while away', () => {
+    const celebration = getMilestoneToCelebrate(soberDate, celebrated('2024-01-13'), new Date(2024, 0, 20));
+    expect(celebration).toMatchObject({ milestone: { days: 7 }, missed: true });
+  });
+
+  it('does not repeat a milestone already celebrated', () => {
+    expect(getMilestoneToCelebrate(soberDate, celebrated('2024-01-17'), new Date(2024, 0, 20))).toBeNull();
+  });
+
+  it('ignores old milestones without a record for this sober date', () => {
+    const now = new Date(2024, 0, 20);
+    expect(getMilestoneToCelebrate(soberDate, null, now)).toBeNull();
+    expect(getMilestoneToCelebrate(soberDate, { soberDate: 'earlier', dateKey: '2023-05-01' }, now)).toBeNull();
+  });
+
+  it('has nothing to celebrate on the first day', () => {
+    expect(getLatestMilestone(soberDate, new Date(2024, 0, 10, 23))).toBeNull();
+  });
+
+  it('celebrates a custom milestone added for a day already celebrated', () => {
+    const custom = [{ id: 9, tracker_id: 1, title: 'Gym streak', date_key: '2024-01-17' }];
+    const now = new Date(2024, 0, 17, 18);
+    expect(getMilestoneToCelebrate(soberDate, celebrated('2024-01-17', 'days-7'), now, custom))
+      .toMatchObject({ milestone: { id: 'custom-9' }, missed: false });
+    expect(getMilestoneToCelebrate(soberDate, celebrated('2024-01-17', 'custom-9'), now, custom)).toBeNull();
+    // Older records only have the date
+    expect(getMilestoneToCelebrate(soberDate, celebrated('2024-01-17'), now, custom)).toBeNull();
+  });
+});
+
+describe('celebration history', () => {
+  const row = (date_key, milestone_id, celebrated_at, sober_date = soberDate) =>
+    ({ tracker_id: 1, sober_date, milestone_id, label: milestone_id, date_key, celebrated_at });
+
+  it('takes the last milestone celebrated for this sober date', () => {
+    const history = [
+      row('2024-01-13', 'hours-72', '2024-01-13T09:00:00Z'),
+      row('2024-01-17', 'days-7', '2024-01-17T09:00:00Z'),
+      row('2024-01-17', 'custom-9', '2024-01-17T18:00:00Z'),
+      row('2023-05-01', 'months-6', '2024-01-18T09:00:00Z', 'earlier'),
+    ];
+    expect(getLastCelebrated(soberDate, history))
+      .toEqual({ soberDate, dateKey: '2024-01-17', milestoneId: 'custom-9' });
+    expect(getLastCelebrated('later', history)).toBeNull();
+  });
+
+  it('turns an older stored record into a history row', () => {
+    expect(toMilestoneCelebration(1, { soberDate, dateKey: '2024-01-17' })).toMatchObject({
+      tracker_id: 1,
+      milestone_id: 'days-7',
+      date_key: '2024-01-17',
+      celebrated_at: new Date(2024, 0, 17).toISOString(),
+    });
+    expect(toMilestoneCelebration(1, { soberDate, dateKey: '2024-01-11', milestoneId: 'hours-24' }))
+      .toMatchObject({ milestone_id: 'hours-24', celebrated_at: new Date(2024, 0, 11, 22, 30).toISOString() });
+    expect(toMilestoneCelebration(1, { soberDate, dateKey: '2024-01-17', milestoneId: 'custom-9' })).toBeNull();
+  });
+});
+
+describe('custom milestone drafts', () => {
+  it('parses only real calendar dates', () => {
+    expect(parseDateKey('2024-02-29')).toEqual(new Date(2024, 1, 29));
+    expect(parseDateKey('2023-02-29')).toBeNull();
+    expect(parseDateKey('2024-2-1')).toBeNull();
+  });
+
+  it('needs a name and a date on or after the sober date', () => {
+    const draft = { title: 'First holiday', dateKey: '2024-06-01', message: '' };
+    expect(validateCustomMilestoneDraft(draft, soberDate)).toBeNull();
+    expect(validateCustomMilestoneDraft({ ...draft, dateKey: '2024-01-10' }, soberDate)).toBeNull();
+    expect(validateCustomMilestoneDraft({ ...draft, title: ' ' }, soberDate)).toMatch(/name/);
+    expect(validateCustomMilestoneDraft({ ...draft, dateKey: 'June 1' }, soberDate)).toMatch(/YYYY-MM-DD/);
+    expect(validateCustomMilestoneDraft({ ...draft, dateKey: '2024-01-09' }, soberDate)).toMatch(/on or after/);
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  buildCallUrl,
+  buildLocalCallUrl,
+  formatPhoneNumber,
+  isValidPhoneNumber,
+  normalizePhoneNumber,
+  parsePhoneNumber,
+} from '../phone';
+
+describe('normalizePhoneNumber', () => {
+  it('normalises North American numbers in common formats', () => {
+    expect(normalizePhoneNumber('(415) 555-0123', 'US')).toBe('+14155550123');
+    expect(normalizePhoneNumber('415.555.0123', 'US')).toBe('+14155550123');
+    expect(normalizePhoneNumber('1 415 555 0123', 'US')).toBe('+14155550123');
+    expect(normalizePhoneNumber('+1 415 555 0123', 'GB')).toBe('+14155550123');
+  });
+
+  it('drops the trunk prefix from national numbers', () => {
+    expect(normalizePhoneNumber('07700 900123', 'GB')).toBe('+447700900123');
+    expect(normalizePhoneNumber('0412 345 678', 'AU')).toBe('+61412345678');
+    expect(normalizePhoneNumber('06 12 34 56 78', 'FR')).toBe('+33612345678');
+    expect(normalizePhoneNumber('030 1234567', 'DE')).toBe('+49301234567');
+  });
+
+  it('accepts international numbers written with +, 00 or 011', () => {
+    expect(normalizePhoneNumber('+44 20 7946 0958', 'US')).toBe('+442079460958');
+    expect(normalizePhoneNumber('0044 20 7946 0958', 'IE')).toBe('+442079460958');
+    expect(normalizePhoneNumber('011 44 20 7946 0958', 'US')).toBe('+442079460958');
+    expect(normalizePhoneNumber('+353 87 123 4567', 'US')).toBe('+353871234567');
+  });
+
+  it('removes a bracketed trunk prefix from international numbers', () => {
+    expect(normalizePhoneNumber('+44 (0)20 7946 0958', 'US')).toBe('+442079460958');
+  });
+
+  it("keeps Italy's leading zero", () => {
+    expect(normalizePhoneNumber('06 1234 5678', 'IT')).toBe('+390612345678');
+    expect(normalizePhoneNumber('+39 06 1234 5678', 'US')).toBe('+390612345678');
+  });
+
+  it('accepts numbers from countries without specific rules', () => {
+    expect(normalizePhoneNumber('+380 44 123 4567', 'US')).toBe('+380441234567');
+  });
+});
+
+describe('isValidPhoneNumber', () => {
+  it('rejects numbers of the wrong length', () => {
+    expect(isValidPhoneNumber('555 0123', 'US')).toBe(false);
+    expect(isValidPhoneNumber('+44 20 7946', 'US')).toBe(false);
+    expect(isValidPhoneNumber('+1234567890123456', 'US')).toBe(false);
+  });
+
+  it('rejects North American numbers with impossible area codes', () => {
+    expect(isValidPhoneNumber('(115) 555-0123', 'US')).toBe(false);
+    expect(isValidPhoneNumber('(415) 055-0123', 'US')).toBe(false);
+  });
+
+  it('rejects letters and misplaced plus signs', () => {
+    expect(isValidPhoneNumber('call me', 'US')).toBe(false);
+    expect(isValidPhoneNumber('415-555-CALL', 'US')).toBe(false);
+    expect(isValidPhoneNumber('44+2079460958', 'US')).toBe(false);
+    expect(isValidPhoneNumber('', 'US')).toBe(false);
+  });
+});
+
+describe('parsePhoneNumber', () => {
+  it('prefers the default country for shared calling codes', () => {
+    expect(parsePhoneNumber('+1 416 555 0123', 'CA').country).toBe('CA');
+    expect(parsePhoneNumber('+1 416 555 0123', 'GB').country).toBe('US');
+  });
+});
+
+describe('formatPhoneNumber', () => {
+  it('shows numbers from the home country in national form', () => {
+    expect(formatPhoneNumber('+14155550123', 'US')).toBe('(415) 555-0123');
+    expect(formatPhoneNumber('+447700900123', 'GB')).toBe('07700 900123');
+    expect(formatPhoneNumber('+61412345678', 'AU')).toBe('0412 345 678');
+  });
+
+  it('shows numbers from other countries in international form', () => {
+    expect(formatPhoneNumber('+447700900123', 'US')).toBe('+44 7700 900123');
+    expect(formatPhoneNumber('+14155550123', 'GB')).toBe('+1 415 555 0123');
+    expect(formatPhoneNumber('+380441234567', 'US')).toBe('+380441234567');
+  });
+
+  it('leaves numbers it cannot parse unchanged', () => {
+    expect(formatPhoneNumber('555-0123', 'US')).toBe('555-0123');
+  });
+});
+
+describe('buildCallUrl', () => {
+  it('dials the normalised number', () => {
+    expect(buildCallUrl('(415) 555-0123', 'US')).toBe('tel:+14155550123');
+  });
+
+  it('falls back to the digits for numbers that do not validate', () => {
+    expect(buildCallUrl('555 0123', 'US')).toBe('tel:5550123');
+  });
+});
+
+describe('buildLocalCallUrl', () => {
+  it('keeps short and toll-free numbers as written', () => {
+    expect(buildLocalCallUrl('988')).toBe('tel:988');
+    expect(buildLocalCallUrl('116 123')).toBe('tel:116123');
+    expect(buildLocalCallUrl('0800 111 0 111')).toBe('tel:08001110111');
+    expect(buildLocalCallUrl('1-800-662-4357')).toBe('tel:18006624357');
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  formatMarkerTime,
+  getMarkerSources,
+  getRecoveryProgress,
+  getRecoverySubstance,
+  getTrackerRecoverySubstance,
+  RECOVERY_TIMELINE,
+} from '../recoveryTimeline';
+
+const tracker = overrides => ({
+  id: 1,
+  name: 'Alcohol',
+  tracking_sobriety: true,
+  tracking_mode: 'sober',
+  sober_date: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('recovery timeline seed', () => {
+  it('has sorted markers that each cite a known source', () => {
+    RECOVERY_TIMELINE.substances.forEach(substance => {
+      expect(substance.markers.length).toBeGreaterThan(0);
+      expect(substance.matches).toContain(substance.id);
+
+      const days = substance.markers.map(marker => marker.days);
+      expect(days).toEqual([...days].sort((a, b) => a - b));
+      expect(new Set(days).size).toBe(days.length);
+
+      substance.markers.forEach(marker => {
+        expect(Number.isInteger(marker.days) && marker.days > 0).toBe(true);
+        expect(marker.title).toBeTruthy();
+        expect(marker.description).toBeTruthy();
+        expect(marker.sources.length).toBeGreaterThan(0);
+        expect(getMarkerSources(marker)).toHaveLength(marker.sources.length);
+      });
+    });
+  });
+
+  it('has complete sources with https links', () => {
+    Object.values(RECOVERY_TIMELINE.sources).forEach(source => {
+      expect(source.title).toBeTruthy();
+      expect(source.publisher).toBeTruthy();
+      expect(Number.isInteger(source.year)).toBe(true);
+      if (source.url) expect(source.url).toMatch(/^https:\/\//);
+    });
+  });
+});
+
+describe('getRecoverySubstance', () => {
+  it('matches words in the tracker name', () => {
+    expect(getRecoverySubstance('Alcohol').id).toBe('alcohol');
+    expect(getRecoverySubstance('Quit smoking').id).toBe('nicotine');
+    expect(getRecoverySubstance('No more weed!').id).toBe('cannabis');
+  });
+
+  it('treats the default tracker as alcohol', () => {
+    expect(getRecoverySubstance('Sobriety').id).toBe('alcohol');
+  });
+
+  it('returns null for habits without health markers', () => {
+    expect(getRecoverySubstance('Gambling')).toBeNull();
+    expect(getRecoverySubstance('Social media')).toBeNull();
+    expect(getRecoverySubstance('Potatoes')).toBeNull();
+  });
+});
+
+describe('getTrackerRecoverySubstance', () => {
+  it('only applies to trackers counting from a date without cutting back', () => {
+    expect(getTrackerRecoverySubstance(tracker()).id).toBe('alcohol');
+    expect(getTrackerRecoverySubstance(tracker({ tracking_mode: 'trying' })).id).toBe('alcohol');
+    expect(getTrackerRecoverySubstance(tracker({ tracking_mode: 'reducing' }))).toBeNull();
+    expect(getTrackerRecoverySubstance(tracker({ tracking_sobriety: false, tracking_mode: 'paused' }))).toBeNull();
+    expect(getTrackerRecoverySubstance(tracker({ sober_date: null }))).toBeNull();
+  });
+});
+
+describe('getRecoveryProgress', () => {
+  const substance = {
+    id: 'alcohol',
+    label: 'alcohol',
+    matches: ['alcohol'],
+    markers: [
+      { days: 1, title: 'A', description: 'a', sources: [] },
+      { days: 14, title: 'B', description: 'b', sources: [] },
+      { days: 30, title: 'C', description: 'c', sources: [] },
+    ],
+  };
+
+  it('has nothing passed on the first day', () => {
+    const progress = getRecoveryProgress(substance, 0);
+    expect(progress.passed).toEqual([]);
+    expect(progress.next.title).toBe('A');
+    expect(progress.daysUntilNext).toBe(1);
+  });
+
+  it('counts a marker as passed on its day', () => {
+    const progress = getRecoveryProgress(substance, 14);
+    expect(progress.passed.map(marker => marker.title)).toEqual(['A', 'B']);
+    expect(progress.next.title).toBe('C');
+    expect(progress.daysUntilNext).toBe(16);
+  });
+
+  it('has no next marker once every one has passed', () => {
+    const progress = getRecoveryProgress(substance, 400);
+    expect(progress.passed).toHaveLength(3);
+    expect(progress.next).toBeNull();
+    expect(progress.daysUntilNext).toBeNull();
+  });
+});
+
+describe('formatMarkerTime', () => {
+  it('uses the largest whole unit', () => {
+    expect(formatMarkerTime(1)).toBe('24 hours');
+    expect(formatMarkerTime(3)).toBe('Day 3');
+    expect(formatMarkerTime(14)).toBe('2 weeks');
+    expect(formatMarkerTime(30)).toBe('1 month');
+    expect(formatMarkerTime(90)).toBe('3 months');
+    expect(formatMarkerTime(365)).toBe('1 year');
+    expect(formatMarkerTime(1825)).toBe('5 years');
+    expect(formatMarkerTime(45)).toBe('Day 45');
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  getDeliveryTime,
+  isInQuietHours,
+  withReminderDefaults,
+} from '../reminders';
+
+const overnight = { enabled: true, start: '22:00', end: '07:00' };
+
+describe('isInQuietHours', () => {
+  it('wraps quiet hours that cross midnight', () => {
+    expect(isInQuietHours('23:30', overnight)).toBe(true);
+    expect(isInQuietHours('06:59', overnight)).toBe(true);
+    expect(isInQuietHours('07:00', overnight)).toBe(false);
+    expect(isInQuietHours('21:59', overnight)).toBe(false);
+  });
+
+  it('handles daytime quiet hours', () => {
+    const workday = { enabled: true, start: '09:00', end: '17:00' };
+    expect(isInQuietHours('12:00', workday)).toBe(true);
+    expect(isInQuietHours('17:30', workday)).toBe(false);
+  });
+
+  it('does nothing when quiet hours are off', () => {
+    expect(isInQuietHours('23:30', { ...overnight, enabled: false })).toBe(false);
+  });
+});
+
+describe('getDeliveryTime', () => {
+  it('holds reminders until quiet hours end', () => {
+    expect(getDeliveryTime('23:00', overnight)).toBe('07:00');
+    expect(getDeliveryTime('20:30', overnight)).toBe('20:30');
+  });
+});
+
+describe('withReminderDefaults', () => {
+  it('returns the defaults when nothing is saved', () => {
+    expect(withReminderDefaults(null)).toEqual(DEFAULT_REMINDER_SETTINGS);
+  });
+
+  it('keeps saved values and fills in missing reminders', () => {
+    const settings = withReminderDefaults({
+      reminders: { check_in: { enabled: true, time: '10:15' } },
+      quietHours: { enabled: true },
+    });
+    expect(settings.reminders.check_in).toEqual({ enabled: true, time: '10:15' });
+    expect(settings.reminders.intention).toEqual(DEFAULT_REMINDER_SETTINGS.reminders.intention);
+    expect(settings.quietHours).toEqual({ ...DEFAULT_REMINDER_SETTINGS.quietHours, enabled: true });
+  });
+});
@@ -0,0 +1,66 @@
+import { COUNTRIES } from '../countries';
+import {
+  filterResources,
+  formatResourceUrl,
+  getResourcesForRegion,
+  groupResourcesByCategory,
+  RESOURCE_CATEGORIES,
+  RESOURCES,
+} from '../resources';
+
+describe('resource catalog', () => {
+  it('has unique ids and valid fields for every entry', () => {
+    const ids = RESOURCES.map(resource => resource.id);
+    expect(new Set(ids).size).toBe(ids.length);
+
+    RESOURCES.forEach(resource => {
+      expect(RESOURCE_CATEGORIES[resource.category]).toBeDefined();
+      expect(resource.url).toMatch(/^https:\/\//);
+      expect(resource.region === 'global' || resource.region in COUNTRIES).toBe(true);
+      expect(Array.isArray(resource.tags)).toBe(true);
+    });
+  });
+});
+
+describe('getResourcesForRegion', () => {
+  it('includes global resources and those for the country only', () => {
+    const gb = getResourcesForRegion('GB').map(resource => resource.id);
+    expect(gb).toContain('aa');
+    expect(gb).toContain('mind');
+    expect(gb).not.toContain('nami');
+  });
+});
+
+describe('filterResources', () => {
+  const resources = getResourcesForRegion('US');
+
+  it('matches every word of the query against name, description and tags', () => {
+    const ids = filterResources(resources, { query: 'secular online' }).map(resource => resource.id);
+    expect(ids).toEqual(['smart-meetings', 'smart-online']);
+  });
+
+  it('ignores case and extra spaces', () => {
+    expect(filterResources(resources, { query: '  NAMI ' }).map(resource => resource.id)).toEqual(['nami']);
+  });
+
+  it('filters by category and favorites', () => {
+    expect(filterResources(resources, { category: 'family' }).every(resource => resource.category === 'family')).toBe(true);
+    expect(
+      filterResources(resources, { favoritesOnly: true, favoriteIds: ['aa', 'mind'] }).map(resource => resource.id)
+    ).toEqual(['aa']);
+  });
+});
+
+describe('groupResourcesByCategory', () => {
+  it('keeps category order and drops empty groups', () => {
+    const groups = groupResourcesByCategory(filterResources(RESOURCES, { query: 'family' }));
+    expect(groups.map(group => group.category)).toEqual(['family', 'mental_health']);
+  });
+});
+
+describe('formatResourceUrl', () => {
+  it('drops the scheme, www and trailing slash', () => {
+    expect(formatResourceUrl('https://www.mind.org.uk/')).toBe('mind.org.uk');
+    expect(formatResourceUrl('https://aa.org/meeting-finder')).toBe('aa.org/meeting-finder');
+  });
+});
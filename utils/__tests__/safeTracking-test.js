@@ -0,0 +1,75 @@
+import {
+  formatElapsedTime,
+  formatSobrietyTime,
+  getEncouragementMessage,
+  isCountingMode,
+  isInFirstDays,
+  isTrackingMode,
+  TRACKING_MODES,
+} from '../safeTracking';
+
+describe('tracking modes', () => {
+  it('recognises all four modes', () => {
+    expect(['sober', 'trying', 'reducing', 'paused'].every(isTrackingMode)).toBe(true);
+    expect(isTrackingMode('moderating')).toBe(false);
+    expect(isTrackingMode(undefined)).toBe(false);
+  });
+
+  it('only counts days for active modes', () => {
+    expect(isCountingMode('reducing')).toBe(true);
+    expect(isCountingMode('paused')).toBe(false);
+  });
+});
+
+describe('getEncouragementMessage', () => {
+  it('uses day-based copy for sober and trying', () => {
+    expect(getEncouragementMessage(0, 'sober')).toBe("Today you chose to start. That's courage.");
+    expect(getEncouragementMessage(45, 'trying')).toBe("Look how far you've come. You're amazing.");
+  });
+
+  it("uses each mode's own copy for reducing and paused", () => {
+    expect(getEncouragementMessage(45, 'reducing')).toBe(TRACKING_MODES.reducing.encouragement);
+    expect(getEncouragementMessage(0, 'paused')).toBe(TRACKING_MODES.paused.encouragement);
+  });
+});
+
+describe('formatSobrietyTime', () => {
+  const format = (from, to) => formatSobrietyTime(from.toISOString(), to);
+
+  it('counts days and weeks in the first month', () => {
+    expect(format(new Date(2024, 0, 10, 22), new Date(2024, 0, 10, 23))).toBe('Today');
+    expect(format(new Date(2024, 0, 10, 22), new Date(2024, 0, 11, 8))).toBe('1 Day');
+    expect(format(new Date(2024, 0, 10), new Date(2024, 0, 24))).toBe('2 Weeks');
+    expect(format(new Date(2024, 0, 10), new Date(2024, 0, 25))).toBe('2 Weeks 1 Day');
+  });
+
+  it('counts calendar months', () => {
+    expect(format(new Date(2024, 0, 10), new Date(2024, 1, 10))).toBe('1 Month');
+    expect(format(new Date(2024, 0, 31), new Date(2024, 1, 29))).toBe('1 Month');
+    expect(format(new Date(2024, 0, 10), new Date(2024, 3, 12))).toBe('3 Months 2 Days');
+  });
+
+  it('counts calendar years across a leap day', () => {
+    expect(format(new Date(2023, 2, 1), new Date(2024, 2, 1))).toBe('1 Year');
+    expect(format(new Date(2024, 1, 29), new Date(2025, 1, 28))).toBe('1 Year');
+    expect(format(new Date(2022, 5, 1), new Date(2024, 5, 16))).toBe('2 Years 15 Days');
+  });
+});
+
+describe('first days', () => {
+  const start = new Date(2024, 0, 10, 22, 30);
+  const later = (minutes) => new Date(start.getTime() + minutes * 60 * 1000);
+
+  it('counts hours and minutes', () => {
+    expect(formatElapsedTime(start, later(45))).toBe('45 minutes');
+    expect(formatElapsedTime(start, later(61))).toBe('1 hour 1 minute');
+    expect(formatElapsedTime(start, later(26 * 60 + 5))).toBe('26 hours 5 minutes');
+    expect(formatElapsedTime(start, later(48 * 60))).toBe('48 hours');
+  });
+
+  it('lasts until the 72 hour milestone', () => {
+    expect(isInFirstDays(start, later(71 * 60 + 59))).toBe(true);
+    expect(isInFirstDays(start, later(72 * 60))).toBe(false);
+    expect(isInFirstDays(start, later(-5))).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  createSavingsDraft,
+  draftToSavings,
+  formatMoney,
+  getDaysUntilGoal,
+  getGoalProgress,
+  getHoursRegained,
+  getMinorUnitDigits,
+  getMoneySaved,
+  parseMoney,
+  toMoneyInput,
+  validateSavingsDraft,
+} from '../savings';
+
+const tracker = {
+  name: 'Alcohol',
+  currency: 'USD',
+  spend_minor: 7000,
+  spend_period: 'week',
+  minutes_per_occasion: 90,
+  occasions_per_week: 4,
+  savings_goal_name: 'New bike',
+  savings_goal_minor: 60000,
+};
+
+describe('parseMoney', () => {
+  it('stores amounts as whole minor units', () => {
+    expect(parseMoney('4.50', 'USD')).toBe(450);
+    expect(parseMoney('0.1', 'USD')).toBe(10);
+    expect(parseMoney('$1,200', 'USD')).toBe(120000);
+  });
+
+  it('reads a decimal comma', () => {
+    expect(parseMoney('4,50', 'EUR')).toBe(450);
+    expect(parseMoney('1.200,75', 'EUR')).toBe(120075);
+  });
+
+  it('uses the currency\'s own minor unit', () => {
+    expect(getMinorUnitDigits('JPY')).toBe(0);
+    expect(parseMoney('500', 'JPY')).toBe(500);
+  });
+
+  it('rejects zero and text', () => {
+    expect(parseMoney('0', 'USD')).toBeNull();
+    expect(parseMoney('lots', 'USD')).toBeNull();
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats minor units in the given locale', () => {
+    expect(formatMoney(123456, 'USD', 'en-US')).toBe('$1,234.56');
+    expect(toMoneyInput(450, 'USD')).toBe('4.50');
+  });
+});
+
+describe('getMoneySaved', () => {
+  it('spreads a weekly spend over each day', () => {
+    expect(getMoneySaved(tracker, 10)).toBe(10000);
+    expect(getMoneySaved({ ...tracker, spend_period: 'day', spend_minor: 1250 }, 3)).toBe(3750);
+  });
+
+  it('is null without a spend', () => {
+    expect(getMoneySaved({ ...tracker, spend_minor: null }, 10)).toBeNull();
+  });
+});
+
+describe('getHoursRegained', () => {
+  it('counts whole hours from time per occasion', () => {
+    // 90 minutes, 4 times a week, for two weeks
+    expect(getHoursRegained(tracker, 14)).toBe(12);
+  });
+});
+
+describe('savings goal', () => {
+  it('reports progress towards the goal', () => {
+    expect(getGoalProgress(15000, 60000)).toEqual({ ratio: 0.25, remainingMinor: 45000, isReached: false });
+    expect(getGoalProgress(70000, 60000)).toMatchObject({ ratio: 1, remainingMinor: 0, isReached: true });
+  });
+
+  it('estimates the days left at the current rate', () => {
+    expect(getDaysUntilGoal(tracker, 50000)).toBe(10);
+  });
+});
+
+describe('savings drafts', () => {
+  it('round-trips a tracker', () => {
+    const draft = createSavingsDraft(tracker);
+    expect(draft.spend).toBe('70.00');
+    expect(validateSavingsDraft(draft, 'USD')).toBeNull();
+    expect(draftToSavings(draft, 'USD')).toEqual({
+      currency: 'USD',
+      spend_minor: 7000,
+      spend_period: 'week',
+      minutes_per_occasion: 90,
+      occasions_per_week: 4,
+      savings_goal_name: 'New bike',
+      savings_goal_minor: 60000,
+    });
+  });
+
+  it('needs both parts of time regained and of a goal', () => {
+    const draft = createSavingsDraft(tracker);
+    expect(validateSavingsDraft({ ...draft, occasionsPerWeek: '' }, 'USD')).toMatch(/both/);
+    expect(validateSavingsDraft({ ...draft, goalName: ' ' }, 'USD')).toMatch(/name/);
+  });
+});
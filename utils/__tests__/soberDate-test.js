@@ -0,0 +1,85 @@
+import {
+  createSoberDateDraft,
+  draftToSoberDate,
+  getSoberDatePreview,
+  stepSoberDate,
+  stepSoberTime,
+  validateSoberDateDraft,
+} from '../soberDate';
+
+// Saturday 15 June 2024, 14:20
+const now = new Date(2024, 5, 15, 14, 20);
+
+const draft = (overrides = {}) => ({ dateKey: '2024-06-01', time: '00:00', hasTime: false, ...overrides });
+
+describe('createSoberDateDraft', () => {
+  it('starts a new date on today with the current time ready to add', () => {
+    expect(createSoberDateDraft(null, now)).toEqual({ dateKey: '2024-06-15', time: '14:20', hasTime: false });
+  });
+
+  it('shows an existing sober date with its time unless it was midnight', () => {
+    expect(createSoberDateDraft(new Date(2024, 4, 3, 21, 45).toISOString(), now))
+      .toEqual({ dateKey: '2024-05-03', time: '21:45', hasTime: true });
+    expect(createSoberDateDraft(new Date(2024, 4, 3).toISOString(), now))
+      .toEqual({ dateKey: '2024-05-03', time: '00:00', hasTime: false });
+  });
+});
+
+describe('validateSoberDateDraft', () => {
+  it('accepts today and earlier days', () => {
+    expect(validateSoberDateDraft(draft(), now)).toBeNull();
+    expect(validateSoberDateDraft(draft({ dateKey: '2024-06-15' }), now)).toBeNull();
+    expect(validateSoberDateDraft(draft({ dateKey: '2024-06-15', time: '14:20', hasTime: true }), now)).toBeNull();
+  });
+
+  it('rejects the future, including later today', () => {
+    expect(validateSoberDateDraft(draft({ dateKey: '2024-06-16' }), now)).toMatch(/future/);
+    expect(validateSoberDateDraft(draft({ dateKey: '2024-06-15', time: '18:00', hasTime: true }), now)).toMatch(/earlier time/);
+  });
+
+  it('rejects dates that aren\'t real or are too long ago', () => {
+    expect(validateSoberDateDraft(draft({ dateKey: '2024-02-30' }), now)).toMatch(/real date/);
+    expect(validateSoberDateDraft(draft({ dateKey: '1974-06-14' }), now)).toMatch(/50 years/);
+    expect(validateSoberDateDraft(draft({ dateKey: '1974-06-15' }), now)).toBeNull();
+  });
+});
+
+describe('draftToSoberDate', () => {
+  it('saves the exact time, or midnight without one', () => {
+    expect(draftToSoberDate(draft({ time: '21:45', hasTime: true }))).toBe(new Date(2024, 5, 1, 21, 45).toISOString());
+    expect(draftToSoberDate(draft({ time: '21:45' }))).toBe(new Date(2024, 5, 1).toISOString());
+  });
+
+  it('keeps the current sober date when the draft still shows it', () => {
+    const current = new Date(2024, 4, 3, 21, 45, 37).toISOString();
+    expect(draftToSoberDate(createSoberDateDraft(current, now), current)).toBe(current);
+    expect(draftToSoberDate({ ...createSoberDateDraft(current, now), dateKey: '2024-05-04' }, current))
+      .toBe(new Date(2024, 4, 4, 21, 45).toISOString());
+  });
+});
+
+describe('stepping', () => {
+  it('moves the date without going past today', () => {
+    expect(stepSoberDate('2024-03-01', 'day', -1, now)).toBe('2024-02-29');
+    expect(stepSoberDate('2024-03-31', 'month', -1, now)).toBe('2024-02-29');
+    expect(stepSoberDate('2023-07-20', 'year', 1, now)).toBe('2024-06-15');
+    expect(stepSoberDate('2024-06-15', 'day', 1, now)).toBe('2024-06-15');
+  });
+
+  it('wraps the time around midnight', () => {
+    expect(stepSoberTime('23:00', 'hour', 1)).toBe('00:00');
+    expect(stepSoberTime('00:03', 'minute', -5)).toBe('23:58');
+    expect(stepSoberTime('09:30', 'hour', 12)).toBe('21:30');
+  });
+});
+
+describe('getSoberDatePreview', () => {
+  it('shows hours and minutes in the first days, then days', () => {
+    expect(getSoberDatePreview(draft({ dateKey: '2024-06-15', time: '09:05', hasTime: true }), now)).toBe('5 hours 15 minutes');
+    expect(getSoberDatePreview(draft(), now)).toBe('14 days · 2 Weeks');
+  });
+
+  it('shows nothing for an invalid date', () => {
+    expect(getSoberDatePreview(draft({ dateKey: '2024-07-01' }), now)).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { getStreakDays, summarizeStreaks } from '../streaks';
+
+const at = (year, month, day, hour = 12) => new Date(year, month - 1, day, hour).toISOString();
+const now = new Date(2024, 5, 15, 9);
+
+describe('getStreakDays', () => {
+  it('counts calendar days to the end of a closed streak', () => {
+    expect(getStreakDays({ started_at: at(2024, 1, 30, 23), ended_at: at(2024, 2, 2, 1) }, now)).toBe(3);
+  });
+
+  it('counts an open streak up to today', () => {
+    expect(getStreakDays({ started_at: at(2024, 6, 1) }, now)).toBe(14);
+  });
+});
+
+describe('summarizeStreaks', () => {
+  it('reports current, longest and total days', () => {
+    const summary = summarizeStreaks([
+      { started_at: at(2024, 6, 1) },
+      { started_at: at(2024, 3, 1), ended_at: at(2024, 5, 1) },
+      { started_at: at(2024, 1, 1), ended_at: at(2024, 1, 11) },
+    ], now);
+
+    expect(summary).toEqual({ currentDays: 14, longestDays: 61, totalDays: 85, streakCount: 3 });
+  });
+
+  it('counts overlapping days once', () => {
+    const summary = summarizeStreaks([
+      { started_at: at(2024, 6, 5) },
+      { started_at: at(2024, 6, 1), ended_at: at(2024, 6, 10) },
+    ], now);
+
+    expect(summary.totalDays).toBe(14);
+  });
+
+  it('has no current streak when tracking is paused', () => {
+    const summary = summarizeStreaks([{ started_at: at(2024, 1, 1), ended_at: at(2024, 1, 8) }], now);
+    expect(summary.currentDays).toBeNull();
+    expect(summary.longestDays).toBe(7);
+  });
+});
@@ -0,0 +1,94 @@
+import { setHomeTimeZone } from '../clock';
+import {
+  EMPTY_SUPPORT_DRAFT,
+  isAvailableAt,
+  orderForReachOut,
+  parseTimeOfDay,
+  validateSupportDraft,
+} from '../supportContacts';
+
+afterEach(() => {
+  setHomeTimeZone(null);
+});
+
+const at = (hours, minutes = 0) => new Date(2024, 0, 15, hours, minutes);
+
+const person = (overrides = {}) => ({
+  id: 1,
+  name: 'Sam',
+  phone: '5551234567',
+  role: 'friend',
+  priority: 1,
+  ...overrides,
+});
+
+describe('parseTimeOfDay', () => {
+  it('normalises hours and minutes', () => {
+    expect(parseTimeOfDay('9')).toBe('09:00');
+    expect(parseTimeOfDay('9:30')).toBe('09:30');
+    expect(parseTimeOfDay(' 17:05 ')).toBe('17:05');
+  });
+
+  it('rejects anything that is not a time of day', () => {
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('9:75')).toBeNull();
+    expect(parseTimeOfDay('nine')).toBeNull();
+  });
+});
+
+describe('validateSupportDraft', () => {
+  const draft = { ...EMPTY_SUPPORT_DRAFT, name: 'Sam', phone: '(415) 555-0123' };
+
+  it('accepts a name and phone with no hours', () => {
+    expect(validateSupportDraft(draft, 'US')).toBeNull();
+  });
+
+  it('rejects phone numbers that are not valid for the country', () => {
+    expect(validateSupportDraft({ ...draft, phone: '555 0123' }, 'US')).not.toBeNull();
+    expect(validateSupportDraft({ ...draft, phone: '07700 900123' }, 'GB')).toBeNull();
+  });
+
+  it('requires both availability times together', () => {
+    expect(validateSupportDraft({ ...draft, availableFrom: '9:00' }, 'US')).not.toBeNull();
+    expect(validateSupportDraft({ ...draft, availableFrom: '9:00', availableUntil: '17:00' }, 'US')).toBeNull();
+  });
+});
+
+describe('isAvailableAt', () => {
+  it('treats people without hours as always available', () => {
+    expect(isAvailableAt(person(), at(3))).toBe(true);
+  });
+
+  it('checks a daytime range', () => {
+    const daytime = person({ available_from: '09:00', available_until: '17:00' });
+    expect(isAvailableAt(daytime, at(9))).toBe(true);
+    expect(isAvailableAt(daytime, at(16, 59))).toBe(true);
+    expect(isAvailableAt(daytime, at(17))).toBe(false);
+  });
+
+  it('wraps ranges that cross midnight', () => {
+    const overnight = person({ available_from: '22:00', available_until: '06:00' });
+    expect(isAvailableAt(overnight, at(23))).toBe(true);
+    expect(isAvailableAt(overnight, at(2))).toBe(true);
+    expect(isAvailableAt(overnight, at(12))).toBe(false);
+  });
+
+  it('reads the hours on the home time zone clock', () => {
+    setHomeTimeZone('Asia/Tokyo');
+    // 05:15 in Tokyo
+    const instant = new Date('2024-01-10T20:15:00Z');
+    expect(isAvailableAt(person({ available_from: '09:00', available_until: '17:00' }), instant)).toBe(false);
+    expect(isAvailableAt(person({ available_from: '22:00', available_until: '06:00' }), instant)).toBe(true);
+  });
+});
+
+describe('orderForReachOut', () => {
+  it('keeps priority order but moves unavailable people last', () => {
+    const sponsor = person({ id: 1, available_from: '09:00', available_until: '17:00' });
+    const friend = person({ id: 2 });
+    const family = person({ id: 3 });
+
+    const ordered = orderForReachOut([sponsor, friend, family], at(20));
+    expect(ordered.map(p => p.id)).toEqual([2, 3, 1]);
+  });
+});
@@ -0,0 +1,42 @@
+import { getCountingTrackers, getHomeTrackers, validateTrackerName } from '../trackers';
+
+const trackers = [
+  { id: 1, name: 'Alcohol', tracking_sobriety: true, tracking_mode: 'sober', sober_date: '2024-01-01T12:00:00.000Z', is_primary: false },
+  { id: 2, name: 'Nicotine', tracking_sobriety: true, tracking_mode: 'trying', sober_date: '2024-03-01T12:00:00.000Z', is_primary: true },
+  { id: 3, name: 'Gambling', tracking_sobriety: false, tracking_mode: 'paused', sober_date: null, is_primary: false },
+];
+
+describe('getCountingTrackers', () => {
+  it('leaves out paused trackers', () => {
+    expect(getCountingTrackers(trackers).map(tracker => tracker.id)).toEqual([1, 2]);
+  });
+});
+
+describe('getHomeTrackers', () => {
+  it('shows only the primary tracker by default', () => {
+    expect(getHomeTrackers(trackers, 'primary').map(tracker => tracker.id)).toEqual([2]);
+  });
+
+  it('rotates through every counting tracker, primary first', () => {
+    expect(getHomeTrackers(trackers, 'rotate').map(tracker => tracker.id)).toEqual([2, 1]);
+  });
+
+  it('falls back to another tracker while the primary one is paused', () => {
+    const paused = trackers.map(tracker => tracker.id === 2 ? { ...tracker, tracking_sobriety: false } : tracker);
+    expect(getHomeTrackers(paused, 'primary').map(tracker => tracker.id)).toEqual([1]);
+  });
+});
+
+describe('validateTrackerName', () => {
+  it('needs a name', () => {
+    expect(validateTrackerName('  ', trackers)).toMatch(/name/);
+  });
+
+  it('rejects a name already in use, ignoring case', () => {
+    expect(validateTrackerName('alcohol ', trackers)).toMatch(/already/);
+  });
+
+  it('lets a tracker keep its own name', () => {
+    expect(validateTrackerName('Alcohol', trackers, 1)).toBeNull();
+  });
+});
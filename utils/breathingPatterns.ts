@@ -0,0 +1,143 @@
+// Breathing Patterns
+// Timings for the SOS breathing exercise. The animation walks through the
+// phases of the selected pattern in order, then starts the next cycle.
+
+export type BreathPhaseType = 'inhale' | 'hold' | 'exhale' | 'pause';
+
+export interface BreathPhase {
+  type: BreathPhaseType;
+  seconds: number;
+  // How large the breathing circle grows (inhale) or shrinks (exhale) to
+  scale?: number;
+  // Overrides the default instruction for this phase type
+  instruction?: string;
+}
+
+export interface BreathingPattern {
+  id: string;
+  name: string;
+  description: string;
+  phases: BreathPhase[];
+}
+
+export interface CustomBreathingTimings {
+  inhale: number;
+  holdIn: number;
+  exhale: number;
+  holdOut: number;
+}
+
+export const BREATHING_SCALE_MIN = 0.8;
+export const BREATHING_SCALE_MAX = 1.4;
+
+export const DEFAULT_BREATHING_PATTERN_ID = 'relaxing';
+
+export const DEFAULT_CUSTOM_TIMINGS: CustomBreathingTimings = {
+  inhale: 4,
+  holdIn: 2,
+  exhale: 6,
+  holdOut: 0,
+};
+
+// Limits for custom patterns, in seconds
+export const CUSTOM_TIMING_LIMITS = {
+  breath: { min: 2, max: 15 },
+  hold: { min: 0, max: 15 },
+};
+
+export const BREATHING_PATTERNS: Record<string, BreathingPattern> = {
+  relaxing: {
+    id: 'relaxing',
+    name: '4-7-8 Relaxing Breath',
+    description: 'Breathe in for 4, hold for 7, out for 8. Deeply calming once you are used to it.',
+    phases: [
+      { type: 'inhale', seconds: 4 },
+      { type: 'hold', seconds: 7 },
+      { type: 'exhale', seconds: 8 },
+      { type: 'pause', seconds: 2 },
+    ],
+  },
+  box: {
+    id: 'box',
+    name: 'Box Breathing',
+    description: 'Four even sides of 4 seconds each. Easy to remember when your mind is racing.',
+    phases: [
+      { type: 'inhale', seconds: 4 },
+      { type: 'hold', seconds: 4 },
+      { type: 'exhale', seconds: 4 },
+      { type: 'hold', seconds: 4 },
+    ],
+  },
+  coherent: {
+    id: 'coherent',
+    name: 'Coherent Breathing',
+    description: 'In for 5, out for 5, with no holding. Gentle and steady.',
+    phases: [
+      { type: 'inhale', seconds: 5 },
+      { type: 'exhale', seconds: 5 },
+    ],
+  },
+  sigh: {
+    id: 'sigh',
+    name: 'Physiological Sigh',
+    description: 'Two breaths in through the nose, then one long sigh out. Quick relief when you feel panicky.',
+    phases: [
+      { type: 'inhale', seconds: 2, scale: 1.25 },
+      { type: 'inhale', seconds: 1, instruction: 'One more sip of air...' },
+      { type: 'exhale', seconds: 6, instruction: 'Long, slow sigh out...' },
+      { type: 'pause', seconds: 2 },
+    ],
+  },
+};
+
+export const createCustomPattern = (timings: CustomBreathingTimings): BreathingPattern => {
+  const phases: BreathPhase[] = [{ type: 'inhale', seconds: timings.inhale }];
+  if (timings.holdIn > 0) phases.push({ type: 'hold', seconds: timings.holdIn });
+  phases.push({ type: 'exhale', seconds: timings.exhale });
+  if (timings.holdOut > 0) phases.push({ type: 'hold', seconds: timings.holdOut });
+
+  return {
+    id: 'custom',
+    name: 'My Pattern',
+    description: `In ${timings.inhale}, hold ${timings.holdIn}, out ${timings.exhale}, hold ${timings.holdOut}.`,
+    phases,
+  };
+};
+
+export const getBreathingPattern = (patternId: string, customTimings?: CustomBreathingTimings): BreathingPattern => {
+  if (patternId === 'custom') {
+    return createCustomPattern(customTimings || DEFAULT_CUSTOM_TIMINGS);
+  }
+  return BREATHING_PATTERNS[patternId] || BREATHING_PATTERNS[DEFAULT_BREATHING_PATTERN_ID];
+};
+
+// Reads the custom pattern form. A blank field counts as 0; anything that
+// isn't a number is kept as NaN so validateCustomTimings turns it away.
+export const parseCustomTimings = (inputs: Record<keyof CustomBreathingTimings, string>): CustomBreathingTimings => {
+  const parse = (value: string) => (value.trim() ? Number(value.trim()) : 0);
+  return {
+    inhale: parse(inputs.inhale),
+    holdIn: parse(inputs.holdIn),
+    exhale: parse(inputs.exhale),
+    holdOut: parse(inputs.holdOut),
+  };
+};
+
+// Returns an error message, or null if the timings are usable
+export const validateCustomTimings = (timings: CustomBreathingTimings): string | null => {
+  const { breath, hold } = CUSTOM_TIMING_LIMITS;
+  const values = [timings.inhale, timings.holdIn, timings.exhale, timings.holdOut];
+
+  if (values.some(value => !Number.isInteger(value))) {
+    return 'Please enter whole numbers of seconds.';
+  }
+  if (timings.inhale < breath.min || timings.inhale > breath.max ||
+      timings.exhale < breath.min || timings.exhale > breath.max) {
+    return `Breathing in and out should each be ${breath.min}-${breath.max} seconds.`;
+  }
+  if (timings.holdIn < hold.min || timings.holdIn > hold.max ||
+      timings.holdOut < hold.min || timings.holdOut > hold.max) {
+    return `Holds should be ${hold.min}-${hold.max} seconds.`;
+  }
+  return null;
+};
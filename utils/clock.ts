@@ -0,0 +1,125 @@
+// Clock
+// The one place the app asks what time it is and which day it is. Days are
+// counted in the user's home time zone, saved the first time the app runs, so
+// travelling or a daylight saving change doesn't make a counter jump or put a
+// check-in on the wrong day. Records store exact instants (ISO strings) or
+// YYYY-MM-DD keys made here; calendar math runs on the home wall clock from
+// toHomeTime. Tests can swap in their own "now".
+import { calendarDaysBetween, formatDateKey } from './dateMath';
+
+type NowProvider = () => Date;
+
+const systemNow: NowProvider = () => new Date();
+
+let nowProvider: NowProvider = systemNow;
+// Null until loaded from storage, which means the device's time zone
+let homeTimeZone: string | null = null;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export const getNow = (): Date => nowProvider();
+
+// Pass null to go back to the system clock
+export const setNowProvider = (provider: NowProvider | null): void => {
+  nowProvider = provider ?? systemNow;
+};
+
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch (error) {
+    return 'UTC';
+  }
+};
+
+export const isValidTimeZone = (timeZone: string | null | undefined): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const getHomeTimeZone = (): string => homeTimeZone ?? getDeviceTimeZone();
+
+// Pass null to follow the device's time zone. Unknown zones are ignored.
+export const setHomeTimeZone = (timeZone: string | null): void => {
+  homeTimeZone = isValidTimeZone(timeZone) ? timeZone : null;
+};
+
+// 'America/New_York' -> 'New York'
+export const formatTimeZone = (timeZone: string): string =>
+  (timeZone.split('/').pop() ?? timeZone).replace(/_/g, ' ');
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// What a wall clock in the home time zone reads at `instant`, as a Date whose
+// local year, month, day and time match it. Only for calendar math and
+// display; never store it.
+export const toHomeTime = (instant: Date = getNow()): Date => {
+  const timeZone = getHomeTimeZone();
+  if (timeZone === getDeviceTimeZone()) return new Date(instant);
+
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(instant).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return new Date(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    // Some engines write midnight as 24
+    parts.hour % 24,
+    parts.minute,
+    parts.second,
+    instant.getMilliseconds()
+  );
+};
+
+// The instant a home wall clock reading from toHomeTime stands for
+export const fromHomeTime = (wallClock: Date): Date => {
+  if (getHomeTimeZone() === getDeviceTimeZone()) return new Date(wallClock);
+
+  const wallAsUtc = (date: Date) => Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+  const target = wallAsUtc(wallClock);
+  // Guess with the offset at the target, then again with the offset at the
+  // guess in case a daylight saving change falls between the two
+  let instant = target - (wallAsUtc(toHomeTime(new Date(target))) - target);
+  instant = target - (wallAsUtc(toHomeTime(new Date(instant))) - instant);
+  return new Date(instant);
+};
+
+// The home calendar date of an instant as YYYY-MM-DD
+export const toDateKey = (instant: Date = getNow()): string => formatDateKey(toHomeTime(instant));
+
+export const getTodayKey = (): string => toDateKey(getNow());
+
+// Home calendar days from one instant to another, ignoring the time of day
+export const daysSince = (instant: Date, now: Date = getNow()): number =>
+  calendarDaysBetween(toHomeTime(instant), toHomeTime(now));
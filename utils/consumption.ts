@@ -0,0 +1,191 @@
+// Consumption Log
+// Drafts, limits and weekly trends for the drink and use log kept in
+// "reducing" mode. Totals only add up entries in the same unit.
+import { ConsumptionEntry, ConsumptionEntryInput, Tracker, TrackerConsumptionLimits } from './database';
+import { getNow, toDateKey, toHomeTime } from './clock';
+import { addDaysToKey, formatDateKey } from './dateMath';
+import { createSoberDateDraft, getDraftInstant } from './soberDate';
+
+export const STANDARD_DRINKS = 'standard drinks';
+
+export const SUBSTANCES = ['Alcohol', 'Cannabis', 'Nicotine', 'Other'];
+export const CONTEXTS = ['Home', 'Social', 'Work', 'Out', 'Alone'];
+
+export const CRAVING_OPTIONS = Array.from({ length: 11 }, (_, index) => index);
+export const MAX_CONSUMPTION_NOTE_LENGTH = 120;
+
+// Weeks shown in the trend, including this one
+export const TREND_WEEKS = 4;
+
+export interface ConsumptionLimits {
+  // Which unit the limits and trends count
+  unit: string;
+  daily: number | null;
+  weekly: number | null;
+}
+
+export const DEFAULT_CONSUMPTION_LIMITS: ConsumptionLimits = {
+  unit: STANDARD_DRINKS,
+  daily: null,
+  weekly: null,
+};
+
+export const getTrackerConsumptionLimits = (tracker: Tracker): ConsumptionLimits => ({
+  unit: tracker.consumption_unit || STANDARD_DRINKS,
+  daily: tracker.daily_limit ?? null,
+  weekly: tracker.weekly_limit ?? null,
+});
+
+export const toTrackerConsumptionLimits = (limits: ConsumptionLimits): TrackerConsumptionLimits => ({
+  consumption_unit: limits.unit,
+  daily_limit: limits.daily,
+  weekly_limit: limits.weekly,
+});
+
+export interface ConsumptionDraft {
+  substance: string;
+  amount: string;
+  unit: string;
+  context: string;
+  whoWith: string;
+  craving: number | null;
+  // When it was, in home time: YYYY-MM-DD and 'HH:MM', 24-hour
+  dateKey: string;
+  time: string;
+}
+
+// Starts at the current time
+export const createConsumptionDraft = (unit: string = STANDARD_DRINKS, now: Date = getNow()): ConsumptionDraft => {
+  const { dateKey, time } = createSoberDateDraft(null, now);
+  return {
+    substance: SUBSTANCES[0],
+    amount: '1',
+    unit,
+    context: '',
+    whoWith: '',
+    craving: null,
+    dateKey,
+    time,
+  };
+};
+
+const getConsumedAt = (draft: ConsumptionDraft): Date | null =>
+  getDraftInstant({ dateKey: draft.dateKey, time: draft.time, hasTime: true });
+
+export interface LimitProgress {
+  total: number;
+  limit: number | null;
+  // 0-1, capped so progress bars don't overflow
+  ratio: number;
+  remaining: number | null;
+  isOver: boolean;
+}
+
+export interface WeeklyTotal {
+  weekStart: string; // YYYY-MM-DD, Monday
+  total: number;
+  // Percentage change from the week before, or null with nothing to compare
+  change: number | null;
+}
+
+export const parseAmount = (value: string): number | null => {
+  const amount = Number(value.trim().replace(',', '.'));
+  return Number.isFinite(amount) && amount > 0 ? Math.round(amount * 10) / 10 : null;
+};
+
+// Returns an error message, or null if the draft can be saved
+export const validateConsumptionDraft = (draft: ConsumptionDraft, now: Date = getNow()): string | null => {
+  const consumedAt = getConsumedAt(draft);
+  if (!consumedAt) return 'Please pick a real date.';
+  if (consumedAt > now) return 'That time hasn\'t come yet. Please pick an earlier time.';
+  if (!draft.substance.trim()) return 'Please choose or enter what you had.';
+  if (parseAmount(draft.amount) === null) return 'Please enter an amount greater than 0, like 1 or 1.5.';
+  if (!draft.unit.trim()) return 'Please enter a unit, like standard drinks or joints.';
+  return null;
+};
+
+// Expects a draft that has passed validateConsumptionDraft
+export const draftToConsumptionInput = (draft: ConsumptionDraft, trackerId: number): ConsumptionEntryInput => ({
+  tracker_id: trackerId,
+  consumed_at: getConsumedAt(draft)!.toISOString(),
+  substance: draft.substance.trim(),
+  amount: parseAmount(draft.amount)!,
+  unit: draft.unit.trim().toLowerCase(),
+  context: draft.context.trim() || null,
+  who_with: draft.whoWith.trim() || null,
+  craving: draft.craving,
+});
+
+// Weeks start on Monday
+export const getWeekStart = (date: Date): Date => {
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday);
+};
+
+// Entries count toward the home calendar day they were logged on, from the
+// first date key up to but not including the second
+const sumAmounts = (entries: ConsumptionEntry[], unit: string, fromKey: string, toKey: string) =>
+  entries
+    .filter(entry => {
+      const dateKey = toDateKey(new Date(entry.consumed_at));
+      return entry.unit === unit && dateKey >= fromKey && dateKey < toKey;
+    })
+    .reduce((total, entry) => total + entry.amount, 0);
+
+const roundAmount = (amount: number) => Math.round(amount * 10) / 10;
+
+const getWeekStartKey = (now: Date) => formatDateKey(getWeekStart(toHomeTime(now)));
+
+export const getDailyTotal = (entries: ConsumptionEntry[], unit: string, now: Date = getNow()): number => {
+  const today = toDateKey(now);
+  return roundAmount(sumAmounts(entries, unit, today, addDaysToKey(today, 1)));
+};
+
+export const getWeeklyTotal = (entries: ConsumptionEntry[], unit: string, now: Date = getNow()): number => {
+  const start = getWeekStartKey(now);
+  return roundAmount(sumAmounts(entries, unit, start, addDaysToKey(start, 7)));
+};
+
+export const getLimitProgress = (total: number, limit: number | null): LimitProgress => ({
+  total,
+  limit,
+  ratio: limit ? Math.min(total / limit, 1) : 0,
+  remaining: limit === null ? null : roundAmount(Math.max(limit - total, 0)),
+  isOver: limit !== null && total > limit,
+});
+
+// Totals for the last few weeks, oldest first
+export const getWeeklyTrend = (
+  entries: ConsumptionEntry[],
+  unit: string,
+  now: Date = getNow(),
+  weeks: number = TREND_WEEKS
+): WeeklyTotal[] => {
+  const thisWeek = getWeekStartKey(now);
+  const totals = Array.from({ length: weeks + 1 }, (_, index) => {
+    const start = addDaysToKey(thisWeek, -(weeks - index) * 7);
+    return { weekStart: start, total: roundAmount(sumAmounts(entries, unit, start, addDaysToKey(start, 7))) };
+  });
+
+  // The extra week at the front is only there to compare the first one with
+  return totals.slice(1).map((week, index) => {
+    const previous = totals[index].total;
+    return {
+      ...week,
+      change: previous > 0 ? Math.round(((week.total - previous) / previous) * 100) : null,
+    };
+  });
+};
+
+export const formatAmount = (amount: number, unit: string): string => {
+  const value = Number.isInteger(amount) ? String(amount) : amount.toFixed(1);
+  // "1 standard drinks" reads badly, so drop a trailing s for exactly one
+  const label = amount === 1 && unit.endsWith('s') ? unit.slice(0, -1) : unit;
+  return `${value} ${label}`;
+};
+
+export const formatChange = (change: number | null): string => {
+  if (change === null) return '';
+  if (change === 0) return 'Same as the week before';
+  return change < 0 ? `↓ ${Math.abs(change)}% from the week before` : `↑ ${change}% from the week before`;
+};
@@ -0,0 +1,71 @@
+// Countries
+// The countries the app knows how to handle, with the numbering rules used to
+// parse and format their phone numbers and the currency money is entered in.
+import { getLocales } from 'expo-localization';
+
+export type CountryCode =
+  | 'US'
+  | 'CA'
+  | 'GB'
+  | 'IE'
+  | 'AU'
+  | 'NZ'
+  | 'DE'
+  | 'FR'
+  | 'ES'
+  | 'IT'
+  | 'NL'
+  | 'IN'
+  | 'ZA'
+  | 'MX';
+
+export interface PhoneNumbering {
+  callingCode: string;
+  // Dialled before national numbers inside the country, dropped internationally
+  trunkPrefix?: string;
+  // Allowed lengths of the number after the calling code
+  nationalLengths: number[];
+  // Digit groups for display; the last group takes any remaining digits
+  groups: number[];
+}
+
+export interface Country {
+  code: CountryCode;
+  name: string;
+  currency: string; // ISO 4217 code
+  phone: PhoneNumbering;
+}
+
+export const DEFAULT_COUNTRY: CountryCode = 'US';
+
+export const COUNTRIES: Record<CountryCode, Country> = {
+  US: { code: 'US', name: 'United States', currency: 'USD', phone: { callingCode: '1', trunkPrefix: '1', nationalLengths: [10], groups: [3, 3, 4] } },
+  CA: { code: 'CA', name: 'Canada', currency: 'CAD', phone: { callingCode: '1', trunkPrefix: '1', nationalLengths: [10], groups: [3, 3, 4] } },
+  GB: { code: 'GB', name: 'United Kingdom', currency: 'GBP', phone: { callingCode: '44', trunkPrefix: '0', nationalLengths: [9, 10], groups: [4, 6] } },
+  IE: { code: 'IE', name: 'Ireland', currency: 'EUR', phone: { callingCode: '353', trunkPrefix: '0', nationalLengths: [7, 8, 9], groups: [2, 3, 4] } },
+  AU: { code: 'AU', name: 'Australia', currency: 'AUD', phone: { callingCode: '61', trunkPrefix: '0', nationalLengths: [9], groups: [3, 3, 3] } },
+  NZ: { code: 'NZ', name: 'New Zealand', currency: 'NZD', phone: { callingCode: '64', trunkPrefix: '0', nationalLengths: [8, 9, 10], groups: [2, 3, 4] } },
+  DE: { code: 'DE', name: 'Germany', currency: 'EUR', phone: { callingCode: '49', trunkPrefix: '0', nationalLengths: [6, 7, 8, 9, 10, 11, 12, 13], groups: [3, 8] } },
+  FR: { code: 'FR', name: 'France', currency: 'EUR', phone: { callingCode: '33', trunkPrefix: '0', nationalLengths: [9], groups: [1, 2, 2, 2, 2] } },
+  ES: { code: 'ES', name: 'Spain', currency: 'EUR', phone: { callingCode: '34', nationalLengths: [9], groups: [3, 3, 3] } },
+  // Italian numbers keep their leading 0 internationally, so there is no trunk prefix
+  IT: { code: 'IT', name: 'Italy', currency: 'EUR', phone: { callingCode: '39', nationalLengths: [6, 7, 8, 9, 10, 11], groups: [3, 3, 4] } },
+  NL: { code: 'NL', name: 'Netherlands', currency: 'EUR', phone: { callingCode: '31', trunkPrefix: '0', nationalLengths: [9], groups: [2, 3, 4] } },
+  IN: { code: 'IN', name: 'India', currency: 'INR', phone: { callingCode: '91', trunkPrefix: '0', nationalLengths: [10], groups: [5, 5] } },
+  ZA: { code: 'ZA', name: 'South Africa', currency: 'ZAR', phone: { callingCode: '27', trunkPrefix: '0', nationalLengths: [9], groups: [2, 3, 4] } },
+  MX: { code: 'MX', name: 'Mexico', currency: 'MXN', phone: { callingCode: '52', nationalLengths: [10], groups: [2, 4, 4] } },
+};
+
+export const isCountryCode = (value: string | null | undefined): value is CountryCode =>
+  !!value && Object.prototype.hasOwnProperty.call(COUNTRIES, value);
+
+// Reads the region from the device settings, the same place the device
+// currency comes from. Intl's locale can be incomplete on Android.
+export const getDeviceCountry = (): CountryCode | null => {
+  try {
+    const region = getLocales()[0]?.regionCode;
+    return isCountryCode(region) ? region : null;
+  } catch (error) {
+    return null;
+  }
+};
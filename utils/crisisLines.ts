@@ -0,0 +1,39 @@
+// Crisis Lines
+// Hotlines and text lines for each supported country, bundled with the app
+// so they work offline. The data lives in seeders/crisis_lines_seed.json.
+import { CountryCode, DEFAULT_COUNTRY } from './countries';
+
+export interface CrisisTextLine {
+  number: string;
+  // Word to send as the first message, e.g. HOME to 741741
+  keyword?: string;
+}
+
+export interface CrisisLine {
+  name: string;
+  description: string;
+  // As written locally and dialled that way
+  phone?: string;
+  // Extra step after the call connects, e.g. "then press 1"
+  dialNote?: string;
+  text?: CrisisTextLine;
+  hours: string;
+}
+
+export interface RegionCrisisLines {
+  emergency: string;
+  lines: CrisisLine[];
+}
+
+const CRISIS_LINES: Record<CountryCode, RegionCrisisLines> = require('../seeders/crisis_lines_seed.json');
+
+export const getCrisisLines = (country: CountryCode): RegionCrisisLines =>
+  CRISIS_LINES[country] || CRISIS_LINES[DEFAULT_COUNTRY];
+
+export const formatDialInstruction = (line: CrisisLine): string | null => {
+  if (!line.phone) return null;
+  return line.dialNote ? `${line.phone}, ${line.dialNote}` : line.phone;
+};
+
+export const formatTextInstruction = (text: CrisisTextLine): string =>
+  text.keyword ? `Text ${text.keyword} to ${text.number}` : `Text ${text.number}`;
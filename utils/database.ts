@@ -1,32 +1,19 @@
 import * as SQLite from 'expo-sqlite';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { daysSince, getNow, getTodayKey } from './clock';
+import { ConsumptionLimits } from './consumption';
+import { addDaysToKey } from './dateMath';
+import { CelebratedMilestone, toMilestoneCelebration } from './milestones';
+import { MigrationError, runMigrations } from './migrations';
+import { CountingTrackingMode, isCountingMode, isTrackingMode, TrackingModeId } from './safeTracking';
 
 // Utility function to calculate days by calendar date (not exact 24-hour periods)
 // This means if someone starts on Thursday night and checks on Friday morning,
-// it will count as 1 day (not 0.5 days like the exact time calculation would)
+// it will count as 1 day (not 0.5 days like the exact time calculation would).
+// Days are on the home calendar, so travelling doesn't change the count.
 export function calculateSobrietyDaysByDate(soberDate: string): number {
-  const sober = new Date(soberDate);
-  const now = new Date();
-  
-  // Reset time to start of day for both dates (midnight)
-  const soberStart = new Date(sober.getFullYear(), sober.getMonth(), sober.getDate());
-  const nowStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  
-  // Calculate difference in days
-  const timeDiff = nowStart.getTime() - soberStart.getTime();
-  const daysDiff = Math.floor(timeDiff / (1000 * 3600 * 24));
-  
-  // Debug logging (can be removed later)
-  // console.log('Sobriety calculation:', {
-  //   soberDate: soberDate,
-  //   soberStart: soberStart.toISOString(),
-  //   nowStart: nowStart.toISOString(),
-  //   timeDiff: timeDiff,
-  //   daysDiff: daysDiff
-  // });
-  
-  return daysDiff;
+  return daysSince(new Date(soberDate));
 }
 
 // Database interface
@@ -43,30 +30,199 @@ export interface User {
   name: string;
   has_completed_onboarding: boolean;
   setup_step: number;
+  why_note?: string | null; // The user's own "why I'm doing this", shown during SOS
   created_at?: string;
   updated_at?: string;
 }
 
+export type SupportRole = 'sponsor' | 'therapist' | 'friend' | 'family';
+
 export interface SupportPerson {
   id?: number;
   name: string;
   phone: string;
+  role: SupportRole;
+  priority: number; // Lower numbers come first
+  notes?: string | null;
+  available_from?: string | null; // 'HH:MM', local time
+  available_until?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
-export interface SobrietyData {
+// A named counter, e.g. "Alcohol" or "Gambling", with its own mode, start
+// date and streak history
+export interface Tracker {
   id?: number;
+  name: string;
   tracking_sobriety: boolean;
-  tracking_mode: 'sober' | 'trying'; // 'sober' for days sober, 'trying' for days trying to be sober
-  sober_date?: string;
+  tracking_mode: TrackingModeId; // 'paused' keeps the history but stops counting
+  sober_date?: string | null;
+  is_primary?: boolean; // Shown on Home
+  // Optional, for money saved and time regained. Amounts are integers in the
+  // minor unit (e.g. cents) of currency.
+  currency?: string | null;
+  spend_minor?: number | null;
+  spend_period?: SpendPeriod | null;
+  minutes_per_occasion?: number | null;
+  occasions_per_week?: number | null;
+  savings_goal_name?: string | null;
+  savings_goal_minor?: number | null;
+  // Optional, for reducing mode. Limits count amounts logged in consumption_unit.
+  consumption_unit?: string | null;
+  daily_limit?: number | null;
+  weekly_limit?: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type SpendPeriod = 'day' | 'week';
+
+export type TrackerInput = Pick<Tracker, 'name' | 'tracking_sobriety' | 'tracking_mode' | 'sober_date'>;
+
+export type TrackerSavings = Pick<
+  Tracker,
+  'currency' | 'spend_minor' | 'spend_period' | 'minutes_per_occasion' | 'occasions_per_week' | 'savings_goal_name' | 'savings_goal_minor'
+>;
+
+export type TrackerConsumptionLimits = Pick<Tracker, 'consumption_unit' | 'daily_limit' | 'weekly_limit'>;
+
+// One period of tracking. The streak being tracked now has no ended_at.
+export interface Streak {
+  id?: number;
+  tracker_id: number;
+  started_at: string;
+  ended_at?: string | null;
+  tracking_mode: CountingTrackingMode;
+  note?: string | null; // What the user wants to remember about this streak
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A milestone the user added for a tracker, like a first sober birthday
+export interface CustomMilestone {
+  id?: number;
+  tracker_id: number;
+  title: string;
+  date_key: string; // Local calendar date as YYYY-MM-DD
+  message?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
+export type CustomMilestoneInput = Pick<CustomMilestone, 'tracker_id' | 'title' | 'date_key' | 'message'>;
+
+// A milestone that was celebrated, tied to the sober date it was counted from
+export interface MilestoneCelebrationRecord {
+  id?: number;
+  tracker_id: number;
+  sober_date: string;
+  milestone_id: string;
+  label: string;
+  date_key: string;
+  celebrated_at: string;
+}
+
+export type MilestoneCelebrationInput = Omit<MilestoneCelebrationRecord, 'id'>;
+
+// One drink or use logged in reducing mode
+export interface ConsumptionEntry {
+  id?: number;
+  tracker_id: number;
+  consumed_at: string;
+  substance: string;
+  amount: number;
+  unit: string; // 'standard drinks' or the user's own unit
+  context?: string | null;
+  who_with?: string | null;
+  craving?: number | null; // 0-10
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ConsumptionEntryInput = Omit<ConsumptionEntry, 'id' | 'created_at' | 'updated_at'>;
+
 export interface UserReason {
   id?: number;
   reason: string;
+  is_custom?: boolean; // Written by the user rather than picked from the preset list
+  created_at?: string;
+}
+
+export type SupportPersonInput = Pick<
+  SupportPerson,
+  'name' | 'phone' | 'role' | 'notes' | 'available_from' | 'available_until'
+>;
+
+export type SOSTool = 'breathing' | 'grounding' | 'urge_surfing';
+
+export type GroundingSense = 'see' | 'touch' | 'hear' | 'smell' | 'taste';
+
+export interface GroundingNote {
+  sense: GroundingSense;
+  note: string;
+}
+
+// How the urge felt once the SOS session was over
+export type SOSOutcome = 'gone' | 'lower' | 'same' | 'acted';
+
+// A craving check-in during urge surfing, `minute` minutes into the SOS session
+export interface UrgeRating {
+  id?: number;
+  sos_log_id?: number;
+  minute: number;
+  intensity: number; // 0-10
+  recorded_at: string;
+}
+
+export type SOSOutreachMethod = 'call' | 'text';
+
+// A call or text to a support person started from an SOS session
+export interface SOSOutreach {
+  method: SOSOutreachMethod;
+  support_person_id?: number;
+  name: string;
+  timestamp: string;
+}
+
+export interface SOSSession {
+  id?: number;
+  timestamp: string; // when the session started
+  ended_at?: string | null;
+  breathing_cycles: number;
+  tools_used: SOSTool[];
+  outcome?: SOSOutcome | null;
+  grounding_notes: GroundingNote[];
+  urge_ratings: UrgeRating[];
+  outreach: SOSOutreach[];
+  created_at?: string;
+}
+
+export interface Meeting {
+  id?: number;
+  name: string;
+  fellowship?: string | null;
+  // 0 = Sunday, matching Date.getDay()
+  day_of_week: number;
+  // 'HH:MM', 24-hour
+  start_time: string;
+  location?: string | null;
+  online_url?: string | null;
+  notes?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type MeetingInput = Omit<Meeting, 'id' | 'created_at' | 'updated_at'>;
+
+export interface MeetingAttendance {
+  id?: number;
+  // Null once the meeting itself has been deleted
+  meeting_id: number | null;
+  meeting_name: string;
+  // Local calendar date, YYYY-MM-DD
+  attended_on: string;
+  reflection?: string | null;
   created_at?: string;
 }
 
@@ -96,8 +252,30 @@ export interface DailyCheckIn {
   created_at?: string;
 }
 
+// A sobriety_data row from backups made before trackers
+interface LegacySobrietyBackup {
+  id?: number;
+  tracking_sobriety: boolean | number;
+  tracking_mode: string;
+  sober_date?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+const fromLegacySobrietyBackup = (data: LegacySobrietyBackup): Omit<Tracker, 'id'> => ({
+  name: 'Sobriety',
+  tracking_sobriety: !!data.tracking_sobriety,
+  tracking_mode: isTrackingMode(data.tracking_mode) ? data.tracking_mode : 'sober',
+  sober_date: data.sober_date || null,
+  is_primary: true,
+  created_at: data.created_at,
+  updated_at: data.updated_at,
+});
+
 class DatabaseService {
   private db: SQLite.SQLiteDatabase | null = null;
+  // Kept so screens that initialize lazily don't run a failed migration again
+  private migrationError: MigrationError | null = null;
 
   // Retry mechanism for failed operations
   private async retryOperation<T>(operation: () => Promise<T>, maxRetries: number = 3, delayMs: number = 1000): Promise<T> {
@@ -117,6 +295,8 @@ class DatabaseService {
   }
 
   async init(): Promise<void> {
+    if (this.migrationError) throw this.migrationError;
+
     try {
       // Close existing database connection if any
       if (this.db) {
@@ -130,246 +310,92 @@ class DatabaseService {
       // Open database
       this.db = await SQLite.openDatabaseAsync('sober_balance.db');
       
-      // Check if we need to migrate the database
-      await this.migrateDatabase();
-      
-      // Create tables
-      await this.createTables();
+      // Bring the schema up to date. A failed migration is rolled back and
+      // rethrown rather than letting the app run against a half-built schema.
+      await runMigrations(this.db);
       
       // Seed encouragements if table is empty
       await this.seedEncouragements();
       
       // Try to restore data from backup if database is empty
       await this.restoreDataIfNeeded();
+
+      // Move settings that used to live in AsyncStorage into the database
+      await this.migrateLegacyStorage();
       
       // console.log('Database initialized successfully');
     } catch (error) {
       // console.error('Error initializing database:', error);
       // Reset database connection on error
       this.db = null;
+      if (error instanceof MigrationError) {
+        this.migrationError = error;
+      }
       throw error;
     }
   }
 
-  private async migrateDatabase(): Promise<void> {
+  // Settings that were kept in AsyncStorage before they had a place in the
+  // database. Each key is removed once moved.
+  private async migrateLegacyStorage(): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
+    // Consumption limits from before trackers had their own belong to the
+    // primary tracker
     try {
-      // Check if daily_check_ins table exists and has the old schema
-      const tableInfo = await this.db.getAllAsync<{ name: string; type: string }>(
-        "PRAGMA table_info(daily_check_ins)"
-      );
-
-      if (tableInfo.length > 0) {
-        // Table exists, check if it has the old 'feeling' column
-        const hasFeelingColumn = tableInfo.some(column => column.name === 'feeling');
-        
-        if (hasFeelingColumn) {
-          // console.log('Migrating daily_check_ins table to remove feeling column...');
-          
-          // Create new table with correct schema
-          await this.db.execAsync(`
-            CREATE TABLE IF NOT EXISTS daily_check_ins_new (
-              id INTEGER PRIMARY KEY AUTOINCREMENT,
-              goal TEXT NOT NULL,
-              energy TEXT NOT NULL,
-              tone TEXT NOT NULL,
-              thankful TEXT NOT NULL,
-              date TEXT NOT NULL UNIQUE,
-              created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-            );
-          `);
-
-          // Copy data from old table to new table (excluding feeling column)
-          await this.db.execAsync(`
-            INSERT INTO daily_check_ins_new (goal, energy, tone, thankful, date, created_at)
-            SELECT goal, energy, tone, thankful, date, created_at FROM daily_check_ins;
-          `);
-
-          // Drop old table
-          await this.db.execAsync('DROP TABLE daily_check_ins;');
-
-          // Rename new table to original name
-          await this.db.execAsync('ALTER TABLE daily_check_ins_new RENAME TO daily_check_ins;');
-
-          // console.log('Database migration completed successfully');
-        }
+      const value = await AsyncStorage.getItem('consumptionLimits');
+      if (value) {
+        const limits: Partial<ConsumptionLimits> = JSON.parse(value);
+        await this.db.runAsync(
+          'UPDATE trackers SET consumption_unit = ?, daily_limit = ?, weekly_limit = ? WHERE is_primary = 1 AND consumption_unit IS NULL',
+          [limits.unit || null, limits.daily ?? null, limits.weekly ?? null]
+        );
+        await AsyncStorage.removeItem('consumptionLimits');
       }
+    } catch (error) {
+      // console.warn('Failed to move consumption limits into the database:', error);
+    }
 
-      // Add updated_at column to journal_entries table if it doesn't exist
-      const journalTableInfo = await this.db.getAllAsync<{ name: string; type: string }>(
-        "PRAGMA table_info(journal_entries)"
-      );
-      
-      if (journalTableInfo.length > 0) {
-        const hasUpdatedAtColumn = journalTableInfo.some(column => column.name === 'updated_at');
-        
-        if (!hasUpdatedAtColumn) {
-          // console.log('Adding updated_at column to journal_entries table...');
-          try {
-            // First add the column without default
-            await this.db.execAsync('ALTER TABLE journal_entries ADD COLUMN updated_at DATETIME');
-            // Then update existing rows with current timestamp
-            await this.db.execAsync('UPDATE journal_entries SET updated_at = created_at WHERE updated_at IS NULL');
-          } catch (error) {
-            // console.warn('Failed to add updated_at column to journal_entries:', error);
-          }
-        }
-      }
+    // The last celebrated milestone, keyed by tracker id. Before trackers a
+    // single record was kept for the primary tracker.
+    try {
+      const value = await AsyncStorage.getItem('celebratedMilestone');
+      if (value) {
+        const saved = JSON.parse(value);
+        const primary = await this.db.getFirstAsync<{ id: number }>('SELECT id FROM trackers WHERE is_primary = 1');
+        const byTracker: Record<string, CelebratedMilestone> = 'soberDate' in saved
+          ? primary ? { [primary.id]: saved } : {}
+          : saved;
+
+        for (const [key, celebrated] of Object.entries(byTracker)) {
+          const trackerId = Number(key);
+          const tracker = await this.db.getFirstAsync<{ sober_date: string | null }>(
+            'SELECT sober_date FROM trackers WHERE id = ?',
+            [trackerId]
+          );
+          // A record for an earlier sober date no longer counts
+          if (!celebrated?.soberDate || tracker?.sober_date !== celebrated.soberDate) continue;
 
-      // Add updated_at column to intentions table if it doesn't exist
-      const intentionsTableInfo = await this.db.getAllAsync<{ name: string; type: string }>(
-        "PRAGMA table_info(intentions)"
-      );
-      
-      if (intentionsTableInfo.length > 0) {
-        const hasUpdatedAtColumn = intentionsTableInfo.some(column => column.name === 'updated_at');
-        
-        if (!hasUpdatedAtColumn) {
-          // console.log('Adding updated_at column to intentions table...');
-          try {
-            // First add the column without default
-            await this.db.execAsync('ALTER TABLE intentions ADD COLUMN updated_at DATETIME');
-            // Then update existing rows with current timestamp
-            await this.db.execAsync('UPDATE intentions SET updated_at = created_at WHERE updated_at IS NULL');
-          } catch (error) {
-            // console.warn('Failed to add updated_at column to intentions:', error);
-          }
-        }
-      }
+          const newer = await this.db.getFirstAsync<{ count: number }>(
+            'SELECT COUNT(*) as count FROM milestone_celebrations WHERE tracker_id = ? AND sober_date = ? AND date_key >= ?',
+            [trackerId, celebrated.soberDate, celebrated.dateKey]
+          );
+          if (newer && newer.count > 0) continue;
 
-      // Add tracking_mode column to sobriety_data table if it doesn't exist
-      const sobrietyTableInfo = await this.db.getAllAsync<{ name: string; type: string }>(
-        "PRAGMA table_info(sobriety_data)"
-      );
-      
-      if (sobrietyTableInfo.length > 0) {
-        const hasTrackingModeColumn = sobrietyTableInfo.some(column => column.name === 'tracking_mode');
-        
-        if (!hasTrackingModeColumn) {
-          // console.log('Adding tracking_mode column to sobriety_data table...');
-          try {
-            // Add the column with default value 'sober' for existing data
-            await this.db.execAsync('ALTER TABLE sobriety_data ADD COLUMN tracking_mode TEXT DEFAULT "sober"');
-            // Update existing rows to have 'sober' as the default tracking mode
-            await this.db.execAsync('UPDATE sobriety_data SET tracking_mode = "sober" WHERE tracking_mode IS NULL');
-          } catch (error) {
-            // console.warn('Failed to add tracking_mode column to sobriety_data:', error);
-          }
+          const celebration = toMilestoneCelebration(trackerId, celebrated, await this.getCustomMilestones(trackerId));
+          if (!celebration) continue;
+          await this.db.runAsync(
+            'INSERT INTO milestone_celebrations (tracker_id, sober_date, milestone_id, label, date_key, celebrated_at) VALUES (?, ?, ?, ?, ?, ?)',
+            [celebration.tracker_id, celebration.sober_date, celebration.milestone_id, celebration.label, celebration.date_key, celebration.celebrated_at]
+          );
         }
+        await AsyncStorage.removeItem('celebratedMilestone');
       }
     } catch (error) {
-      // console.error('Error during database migration:', error);
-      // If migration fails, we'll continue with normal table creation
-      // which will handle the case where the table doesn't exist
+      // console.warn('Failed to move the celebrated milestone into the database:', error);
     }
   }
 
-  private async createTables(): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    // Create encouragements table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS encouragements (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        message TEXT NOT NULL,
-        seen BOOLEAN DEFAULT 0,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // Create users table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL,
-        has_completed_onboarding BOOLEAN DEFAULT 0,
-        setup_step INTEGER DEFAULT 0,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // Create support_persons table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS support_persons (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL,
-        phone TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // Create sobriety_data table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS sobriety_data (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        tracking_sobriety BOOLEAN DEFAULT 0,
-        tracking_mode TEXT NOT NULL,
-        sober_date TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // Create user_reasons table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS user_reasons (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        reason TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // Create sos_logs table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS sos_logs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // Create journal_entries table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS journal_entries (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        content TEXT NOT NULL,
-        timestamp TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // Create intentions table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS intentions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        content TEXT NOT NULL,
-        timestamp TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // Create daily_check_ins table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS daily_check_ins (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        goal TEXT NOT NULL,
-        energy TEXT NOT NULL,
-        tone TEXT NOT NULL,
-        thankful TEXT NOT NULL,
-        date TEXT NOT NULL UNIQUE,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // console.log('Tables created successfully');
-  }
-
   private async seedEncouragements(): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -420,371 +446,1506 @@ class DatabaseService {
     }
   }
 
-  async getRandomUnseenEncouragement(): Promise<Encouragement | null> {
+  async getRandomUnseenEncouragement(): Promise<Encouragement | null> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for unseen encouragement:', error);
+        return null;
+      }
+    }
+
+    try {
+      const result = await this.db!.getFirstAsync<Encouragement>(
+        'SELECT * FROM encouragements WHERE seen = 0 ORDER BY RANDOM() LIMIT 1'
+      );
+      
+      return result || null;
+    } catch (error) {
+      // console.error('Error getting random encouragement:', error);
+      return null;
+    }
+  }
+
+  async markEncouragementAsSeen(id: number): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for marking encouragement:', error);
+        return;
+      }
+    }
+
+    try {
+      await this.db!.runAsync(
+        'UPDATE encouragements SET seen = 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [id]
+      );
+    } catch (error) {
+      // console.error('Error marking encouragement as seen:', error);
+      throw error;
+    }
+  }
+
+  async resetAllEncouragements(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      await this.db.runAsync(
+        'UPDATE encouragements SET seen = 0, updated_at = CURRENT_TIMESTAMP'
+      );
+      // console.log('All encouragements reset');
+    } catch (error) {
+      // console.error('Error resetting encouragements:', error);
+      throw error;
+    }
+  }
+
+  async getEncouragementStats(): Promise<{ total: number; seen: number; unseen: number }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const total = await this.db.getFirstAsync<{ count: number }>(
+        'SELECT COUNT(*) as count FROM encouragements'
+      );
+      
+      const seen = await this.db.getFirstAsync<{ count: number }>(
+        'SELECT COUNT(*) as count FROM encouragements WHERE seen = 1'
+      );
+
+      return {
+        total: total?.count || 0,
+        seen: seen?.count || 0,
+        unseen: (total?.count || 0) - (seen?.count || 0)
+      };
+    } catch (error) {
+      // console.error('Error getting encouragement stats:', error);
+      return { total: 0, seen: 0, unseen: 0 };
+    }
+  }
+
+  // User methods
+  async createUser(name: string): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const result = await this.db.runAsync(
+        'INSERT INTO users (name) VALUES (?)',
+        [name]
+      );
+      return result.lastInsertRowId;
+    } catch (error) {
+      // console.error('Error creating user:', error);
+      throw error;
+    }
+  }
+
+  async getUser(): Promise<User | null> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for user:', error);
+        return null;
+      }
+    }
+
+    try {
+      const result = await this.db!.getFirstAsync<User>(
+        'SELECT * FROM users ORDER BY id DESC LIMIT 1'
+      );
+      return result || null;
+    } catch (error) {
+      // console.error('Error getting user:', error);
+      return null;
+    }
+  }
+
+  async updateUserOnboarding(hasCompleted: boolean, setupStep: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      await this.db.runAsync(
+        'UPDATE users SET has_completed_onboarding = ?, setup_step = ?, updated_at = CURRENT_TIMESTAMP WHERE id = (SELECT id FROM users ORDER BY id DESC LIMIT 1)',
+        [hasCompleted ? 1 : 0, setupStep]
+      );
+      
+      // Backup data after successful update
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after user onboarding update:', error);
+      }
+    } catch (error) {
+      // console.error('Error updating user onboarding:', error);
+      throw error;
+    }
+  }
+
+  async updateWhyNote(note: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      await this.db.runAsync(
+        'UPDATE users SET why_note = ?, updated_at = CURRENT_TIMESTAMP WHERE id = (SELECT id FROM users ORDER BY id DESC LIMIT 1)',
+        [note || null]
+      );
+
+      // Backup data after successful update
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after why note update:', error);
+      }
+    } catch (error) {
+      // console.error('Error updating why note:', error);
+      throw error;
+    }
+  }
+
+  async updateUserName(name: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      await this.db.runAsync(
+        'UPDATE users SET name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = (SELECT id FROM users ORDER BY id DESC LIMIT 1)',
+        [name]
+      );
+      
+      // Backup data after successful update
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after user name update:', error);
+      }
+    } catch (error) {
+      // console.error('Error updating user name:', error);
+      throw error;
+    }
+  }
+
+  // Support people methods
+  async getSupportPeople(): Promise<SupportPerson[]> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for support people:', error);
+        return [];
+      }
+    }
+
+    try {
+      return await this.db!.getAllAsync<SupportPerson>(
+        'SELECT * FROM support_persons ORDER BY priority, id'
+      );
+    } catch (error) {
+      // console.error('Error getting support people:', error);
+      return [];
+    }
+  }
+
+  async addSupportPerson(person: SupportPersonInput): Promise<number> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for support person:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      // New people go to the end of the list
+      const last = await this.db!.getFirstAsync<{ priority: number | null }>(
+        'SELECT MAX(priority) as priority FROM support_persons'
+      );
+      const result = await this.db!.runAsync(
+        'INSERT INTO support_persons (name, phone, role, priority, notes, available_from, available_until) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [person.name, person.phone, person.role, (last?.priority ?? 0) + 1, person.notes || null, person.available_from || null, person.available_until || null]
+      );
+      
+      // Backup data after successful save
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after support person save:', error);
+      }
+      
+      return result.lastInsertRowId;
+    } catch (error) {
+      // console.error('Error saving support person:', error);
+      throw error;
+    }
+  }
+
+  async updateSupportPerson(id: number, person: SupportPersonInput): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for support person:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      await this.db!.runAsync(
+        'UPDATE support_persons SET name = ?, phone = ?, role = ?, notes = ?, available_from = ?, available_until = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [person.name, person.phone, person.role, person.notes || null, person.available_from || null, person.available_until || null, id]
+      );
+      
+      // Backup data after successful update
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after support person update:', error);
+      }
+    } catch (error) {
+      // console.error('Error updating support person:', error);
+      throw error;
+    }
+  }
+
+  async deleteSupportPerson(id: number): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for support person:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      await this.db!.runAsync('DELETE FROM support_persons WHERE id = ?', [id]);
+      
+      // Backup data after successful delete
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after support person delete:', error);
+      }
+    } catch (error) {
+      // console.error('Error deleting support person:', error);
+      throw error;
+    }
+  }
+
+  // Saves the given order as each person's priority
+  async reorderSupportPeople(orderedIds: number[]): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for support people:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      await this.db!.withTransactionAsync(async () => {
+        for (const [index, id] of orderedIds.entries()) {
+          await this.db!.runAsync(
+            'UPDATE support_persons SET priority = ? WHERE id = ?',
+            [index + 1, id]
+          );
+        }
+      });
+      
+      // Backup data after successful update
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after support people reorder:', error);
+      }
+    } catch (error) {
+      // console.error('Error reordering support people:', error);
+      throw error;
+    }
+  }
+
+  // Tracker methods
+  async getTrackers(): Promise<Tracker[]> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for trackers:', error);
+        return [];
+      }
+    }
+
+    try {
+      return await this.db!.getAllAsync<Tracker>(
+        'SELECT * FROM trackers ORDER BY is_primary DESC, id'
+      );
+    } catch (error) {
+      // console.error('Error getting trackers:', error);
+      return [];
+    }
+  }
+
+  // The tracker shown on Home and used wherever only one counter fits
+  async getPrimaryTracker(): Promise<Tracker | null> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for trackers:', error);
+        return null;
+      }
+    }
+
+    try {
+      const result = await this.db!.getFirstAsync<Tracker>(
+        'SELECT * FROM trackers ORDER BY is_primary DESC, id LIMIT 1'
+      );
+      return result || null;
+    } catch (error) {
+      // console.error('Error getting primary tracker:', error);
+      return null;
+    }
+  }
+
+  // The first tracker added becomes the primary one
+  async addTracker(tracker: TrackerInput): Promise<number> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for tracker:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    const db = this.db!;
+
+    try {
+      let insertedId = 0;
+
+      await db.withTransactionAsync(async () => {
+        const existing = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM trackers');
+        const result = await db.runAsync(
+          'INSERT INTO trackers (name, tracking_sobriety, tracking_mode, sober_date, is_primary) VALUES (?, ?, ?, ?, ?)',
+          [tracker.name.trim(), tracker.tracking_sobriety ? 1 : 0, tracker.tracking_mode, tracker.sober_date || null, existing?.count ? 0 : 1]
+        );
+        insertedId = result.lastInsertRowId;
+
+        await this.syncCurrentStreak(insertedId, tracker);
+      });
+      
+      // Backup data after successful save
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after tracker save:', error);
+      }
+      
+      return insertedId;
+    } catch (error) {
+      // console.error('Error saving tracker:', error);
+      throw error;
+    }
+  }
+
+  async updateTracker(id: number, tracker: TrackerInput): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for tracker:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    const db = this.db!;
+
+    try {
+      await db.withTransactionAsync(async () => {
+        await db.runAsync(
+          'UPDATE trackers SET name = ?, tracking_sobriety = ?, tracking_mode = ?, sober_date = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [tracker.name.trim(), tracker.tracking_sobriety ? 1 : 0, tracker.tracking_mode, tracker.sober_date || null, id]
+        );
+
+        await this.syncCurrentStreak(id, tracker);
+      });
+      
+      // Backup data after successful update
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after tracker update:', error);
+      }
+    } catch (error) {
+      // console.error('Error updating tracker:', error);
+      throw error;
+    }
+  }
+
+  // Changing the date corrects the tracker's current streak; pausing ends it
+  // but keeps it in the history. Runs inside the caller's transaction.
+  private async syncCurrentStreak(trackerId: number, tracker: TrackerInput): Promise<void> {
+    const db = this.db!;
+    const current = await db.getFirstAsync<Streak>(
+      'SELECT * FROM streaks WHERE tracker_id = ? AND ended_at IS NULL ORDER BY id DESC LIMIT 1',
+      [trackerId]
+    );
+
+    if (tracker.tracking_sobriety && tracker.sober_date && isCountingMode(tracker.tracking_mode)) {
+      if (current) {
+        await db.runAsync(
+          'UPDATE streaks SET started_at = ?, tracking_mode = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [tracker.sober_date, tracker.tracking_mode, current.id!]
+        );
+      } else {
+        await db.runAsync(
+          'INSERT INTO streaks (tracker_id, started_at, tracking_mode) VALUES (?, ?, ?)',
+          [trackerId, tracker.sober_date, tracker.tracking_mode]
+        );
+      }
+    } else if (current) {
+      await db.runAsync(
+        'UPDATE streaks SET ended_at = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [getNow().toISOString(), current.id!]
+      );
+    }
+  }
+
+  async setPrimaryTracker(id: number): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for tracker:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      await this.db!.runAsync(
+        'UPDATE trackers SET is_primary = CASE WHEN id = ? THEN 1 ELSE 0 END',
+        [id]
+      );
+      
+      // Backup data after successful update
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after primary tracker change:', error);
+      }
+    } catch (error) {
+      // console.error('Error setting primary tracker:', error);
+      throw error;
+    }
+  }
+
+  async updateTrackerSavings(id: number, savings: TrackerSavings): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for tracker:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      await this.db!.runAsync(
+        'UPDATE trackers SET currency = ?, spend_minor = ?, spend_period = ?, minutes_per_occasion = ?, occasions_per_week = ?, savings_goal_name = ?, savings_goal_minor = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [savings.currency || null, savings.spend_minor ?? null, savings.spend_period || null, savings.minutes_per_occasion ?? null, savings.occasions_per_week ?? null, savings.savings_goal_name || null, savings.savings_goal_minor ?? null, id]
+      );
+      
+      // Backup data after successful update
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after tracker savings update:', error);
+      }
+    } catch (error) {
+      // console.error('Error updating tracker savings:', error);
+      throw error;
+    }
+  }
+
+  async updateTrackerConsumptionLimits(id: number, limits: TrackerConsumptionLimits): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for tracker:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      await this.db!.runAsync(
+        'UPDATE trackers SET consumption_unit = ?, daily_limit = ?, weekly_limit = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [limits.consumption_unit || null, limits.daily_limit ?? null, limits.weekly_limit ?? null, id]
+      );
+      
+      // Backup data after successful update
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after consumption limits update:', error);
+      }
+    } catch (error) {
+      // console.error('Error updating consumption limits:', error);
+      throw error;
+    }
+  }
+
+  // Removes the tracker with its streak and milestone history. If it was the
+  // primary one, the oldest tracker left takes over.
+  async deleteTracker(id: number): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for tracker:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    const db = this.db!;
+
+    try {
+      await db.withTransactionAsync(async () => {
+        await db.runAsync('DELETE FROM streaks WHERE tracker_id = ?', [id]);
+        await db.runAsync('DELETE FROM custom_milestones WHERE tracker_id = ?', [id]);
+        await db.runAsync('DELETE FROM milestone_celebrations WHERE tracker_id = ?', [id]);
+        await db.runAsync('DELETE FROM consumption_entries WHERE tracker_id = ?', [id]);
+        await db.runAsync('DELETE FROM trackers WHERE id = ?', [id]);
+        await db.runAsync(`
+          UPDATE trackers SET is_primary = 1
+          WHERE id = (SELECT MIN(id) FROM trackers)
+            AND NOT EXISTS (SELECT 1 FROM trackers WHERE is_primary = 1)
+        `);
+      });
+      
+      // Backup data after successful delete
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after tracker delete:', error);
+      }
+    } catch (error) {
+      // console.error('Error deleting tracker:', error);
+      throw error;
+    }
+  }
+
+  // Streak history methods. Without a tracker, returns every tracker's streaks.
+  async getStreaks(trackerId?: number): Promise<Streak[]> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for streaks:', error);
+        return [];
+      }
+    }
+
+    try {
+      if (trackerId === undefined) {
+        return await this.db!.getAllAsync<Streak>(
+          'SELECT * FROM streaks ORDER BY started_at DESC, id DESC'
+        );
+      }
+      return await this.db!.getAllAsync<Streak>(
+        'SELECT * FROM streaks WHERE tracker_id = ? ORDER BY started_at DESC, id DESC',
+        [trackerId]
+      );
+    } catch (error) {
+      // console.error('Error getting streaks:', error);
+      return [];
+    }
+  }
+
+  // Ends the tracker's current streak, keeping it and the note in the
+  // history, and starts counting a new one from now
+  async startNewStreak(trackerId: number, note?: string): Promise<string> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for streaks:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    const db = this.db!;
+    const now = getNow().toISOString();
+
+    try {
+      await db.withTransactionAsync(async () => {
+        const current = await db.getFirstAsync<Streak>(
+          'SELECT * FROM streaks WHERE tracker_id = ? AND ended_at IS NULL ORDER BY id DESC LIMIT 1',
+          [trackerId]
+        );
+        // Carry on in the same mode as the last streak, even after a pause
+        const lastStreak = current ?? await db.getFirstAsync<Streak>(
+          'SELECT * FROM streaks WHERE tracker_id = ? ORDER BY id DESC LIMIT 1',
+          [trackerId]
+        );
+        const trackingMode = lastStreak?.tracking_mode ?? 'sober';
+
+        if (current) {
+          await db.runAsync(
+            'UPDATE streaks SET ended_at = ?, note = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+            [now, note?.trim() || current.note || null, current.id!]
+          );
+        }
+        await db.runAsync(
+          'INSERT INTO streaks (tracker_id, started_at, tracking_mode) VALUES (?, ?, ?)',
+          [trackerId, now, trackingMode]
+        );
+
+        await db.runAsync(
+          'UPDATE trackers SET tracking_sobriety = 1, tracking_mode = ?, sober_date = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [trackingMode, now, trackerId]
+        );
+      });
+      
+      // Backup data after successful save
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after starting a new streak:', error);
+      }
+      
+      return now;
+    } catch (error) {
+      // console.error('Error starting new streak:', error);
+      throw error;
+    }
+  }
+
+  async updateStreakNote(id: number, note: string): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for streaks:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      await this.db!.runAsync(
+        'UPDATE streaks SET note = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [note.trim() || null, id]
+      );
+      
+      // Backup data after successful update
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after streak note update:', error);
+      }
+    } catch (error) {
+      // console.error('Error updating streak note:', error);
+      throw error;
+    }
+  }
+
+  // Milestone methods. Without a tracker, returns every tracker's milestones.
+  async getCustomMilestones(trackerId?: number): Promise<CustomMilestone[]> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for milestones:', error);
+        return [];
+      }
+    }
+
+    try {
+      if (trackerId === undefined) {
+        return await this.db!.getAllAsync<CustomMilestone>(
+          'SELECT * FROM custom_milestones ORDER BY date_key, id'
+        );
+      }
+      return await this.db!.getAllAsync<CustomMilestone>(
+        'SELECT * FROM custom_milestones WHERE tracker_id = ? ORDER BY date_key, id',
+        [trackerId]
+      );
+    } catch (error) {
+      // console.error('Error getting custom milestones:', error);
+      return [];
+    }
+  }
+
+  async addCustomMilestone(milestone: CustomMilestoneInput): Promise<number> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for milestones:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      const result = await this.db!.runAsync(
+        'INSERT INTO custom_milestones (tracker_id, title, date_key, message) VALUES (?, ?, ?, ?)',
+        [milestone.tracker_id, milestone.title.trim(), milestone.date_key, milestone.message?.trim() || null]
+      );
+      
+      // Backup data after successful save
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after custom milestone save:', error);
+      }
+      
+      return result.lastInsertRowId;
+    } catch (error) {
+      // console.error('Error adding custom milestone:', error);
+      throw error;
+    }
+  }
+
+  async deleteCustomMilestone(id: number): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for milestones:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      await this.db!.runAsync('DELETE FROM custom_milestones WHERE id = ?', [id]);
+      
+      // Backup data after successful delete
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after custom milestone delete:', error);
+      }
+    } catch (error) {
+      // console.error('Error deleting custom milestone:', error);
+      throw error;
+    }
+  }
+
+  // Most recent first. Without a tracker, returns every tracker's history.
+  async getMilestoneCelebrations(trackerId?: number): Promise<MilestoneCelebrationRecord[]> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for milestones:', error);
+        return [];
+      }
+    }
+
+    try {
+      if (trackerId === undefined) {
+        return await this.db!.getAllAsync<MilestoneCelebrationRecord>(
+          'SELECT * FROM milestone_celebrations ORDER BY celebrated_at DESC, id DESC'
+        );
+      }
+      return await this.db!.getAllAsync<MilestoneCelebrationRecord>(
+        'SELECT * FROM milestone_celebrations WHERE tracker_id = ? ORDER BY celebrated_at DESC, id DESC',
+        [trackerId]
+      );
+    } catch (error) {
+      // console.error('Error getting milestone celebrations:', error);
+      return [];
+    }
+  }
+
+  async addMilestoneCelebration(celebration: MilestoneCelebrationInput): Promise<number> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for milestones:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      const result = await this.db!.runAsync(
+        'INSERT INTO milestone_celebrations (tracker_id, sober_date, milestone_id, label, date_key, celebrated_at) VALUES (?, ?, ?, ?, ?, ?)',
+        [celebration.tracker_id, celebration.sober_date, celebration.milestone_id, celebration.label, celebration.date_key, celebration.celebrated_at]
+      );
+      
+      // Backup data after successful save
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after milestone celebration:', error);
+      }
+      
+      return result.lastInsertRowId;
+    } catch (error) {
+      // console.error('Error saving milestone celebration:', error);
+      throw error;
+    }
+  }
+
+  // Consumption log methods
+  async getConsumptionEntries(trackerId?: number): Promise<ConsumptionEntry[]> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for consumption log:', error);
+        return [];
+      }
+    }
+
+    try {
+      if (trackerId === undefined) {
+        return await this.db!.getAllAsync<ConsumptionEntry>(
+          'SELECT * FROM consumption_entries ORDER BY consumed_at DESC, id DESC'
+        );
+      }
+      return await this.db!.getAllAsync<ConsumptionEntry>(
+        'SELECT * FROM consumption_entries WHERE tracker_id = ? ORDER BY consumed_at DESC, id DESC',
+        [trackerId]
+      );
+    } catch (error) {
+      // console.error('Error getting consumption entries:', error);
+      return [];
+    }
+  }
+
+  async addConsumptionEntry(entry: ConsumptionEntryInput): Promise<number> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for consumption log:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      const result = await this.db!.runAsync(
+        'INSERT INTO consumption_entries (tracker_id, consumed_at, substance, amount, unit, context, who_with, craving) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [entry.tracker_id, entry.consumed_at, entry.substance, entry.amount, entry.unit, entry.context || null, entry.who_with || null, entry.craving ?? null]
+      );
+      
+      // Backup data after successful save
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after consumption entry save:', error);
+      }
+      
+      return result.lastInsertRowId;
+    } catch (error) {
+      // console.error('Error saving consumption entry:', error);
+      throw error;
+    }
+  }
+
+  async deleteConsumptionEntry(id: number): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for consumption log:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      await this.db!.runAsync('DELETE FROM consumption_entries WHERE id = ?', [id]);
+      
+      // Backup data after successful delete
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after consumption entry delete:', error);
+      }
+    } catch (error) {
+      // console.error('Error deleting consumption entry:', error);
+      throw error;
+    }
+  }
+
+  // User reasons methods
+  async saveUserReasons(reasons: string[], customReasons: string[] = []): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      // Clear existing reasons first
+      await this.db.runAsync('DELETE FROM user_reasons');
+      
+      // Insert new reasons
+      for (const reason of reasons) {
+        await this.db.runAsync(
+          'INSERT INTO user_reasons (reason, is_custom) VALUES (?, 0)',
+          [reason]
+        );
+      }
+
+      for (const reason of customReasons) {
+        await this.db.runAsync(
+          'INSERT INTO user_reasons (reason, is_custom) VALUES (?, 1)',
+          [reason]
+        );
+      }
+      
+      // Backup data after successful save
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after user reasons save:', error);
+      }
+    } catch (error) {
+      // console.error('Error saving user reasons:', error);
+      throw error;
+    }
+  }
+
+  // SOS session methods
+  // A session starts when the SOS tab opens; logSOSActivation returns its id
+  async logSOSActivation(timestamp: string): Promise<number> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for SOS logging:', error);
+        return 0;
+      }
+    }
+
+    try {
+      const result = await this.db!.runAsync(
+        'INSERT INTO sos_logs (timestamp) VALUES (?)',
+        [timestamp]
+      );
+      
+      // Backup data after successful logging
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after SOS log creation:', error);
+      }
+      
+      return result.lastInsertRowId;
+    } catch (error) {
+      // console.error('Error logging SOS activation:', error);
+      return 0;
+    }
+  }
+
+  async endSOSSession(id: number, endedAt: string, breathingCycles: number, toolsUsed: SOSTool[]): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for ending SOS session:', error);
+        return;
+      }
+    }
+
+    try {
+      await this.db!.runAsync(
+        'UPDATE sos_logs SET ended_at = ?, breathing_cycles = ?, tools_used = ? WHERE id = ?',
+        [endedAt, breathingCycles, JSON.stringify(toolsUsed), id]
+      );
+      
+      // Backup data after successful update
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after ending SOS session:', error);
+      }
+    } catch (error) {
+      // console.error('Error ending SOS session:', error);
+    }
+  }
+
+  async saveSOSOutcome(id: number, outcome: SOSOutcome): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for SOS outcome:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
+
+    try {
+      await this.db!.runAsync(
+        'UPDATE sos_logs SET outcome = ? WHERE id = ?',
+        [outcome, id]
+      );
+      
+      // Backup data after successful update
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after saving SOS outcome:', error);
+      }
+    } catch (error) {
+      // console.error('Error saving SOS outcome:', error);
+      throw error;
+    }
+  }
+
+  async saveSOSGroundingNotes(id: number, notes: GroundingNote[]): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for grounding notes:', error);
+        return;
+      }
+    }
+
+    try {
+      await this.db!.runAsync(
+        'UPDATE sos_logs SET grounding_notes = ? WHERE id = ?',
+        [JSON.stringify(notes), id]
+      );
+
+      // Backup data after successful save
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after grounding notes save:', error);
+      }
+    } catch (error) {
+      // console.error('Error saving grounding notes:', error);
+    }
+  }
+
+  async saveSOSOutreach(id: number, outreach: SOSOutreach[]): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for SOS outreach:', error);
+        return;
+      }
+    }
+
+    try {
+      await this.db!.runAsync(
+        'UPDATE sos_logs SET outreach = ? WHERE id = ?',
+        [JSON.stringify(outreach), id]
+      );
+
+      // Backup data after successful save
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after SOS outreach save:', error);
+      }
+    } catch (error) {
+      // console.error('Error saving SOS outreach:', error);
+    }
+  }
+
+  async saveUrgeRating(sosLogId: number, minute: number, intensity: number): Promise<number> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for urge rating:', error);
+        return 0;
+      }
+    }
+
+    try {
+      const result = await this.db!.runAsync(
+        'INSERT INTO urge_ratings (sos_log_id, minute, intensity, recorded_at) VALUES (?, ?, ?, ?)',
+        [sosLogId, minute, intensity, getNow().toISOString()]
+      );
+
+      // Backup data after successful save
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after urge rating save:', error);
+      }
+
+      return result.lastInsertRowId;
+    } catch (error) {
+      // console.error('Error saving urge rating:', error);
+      return 0;
+    }
+  }
+
+  async getSOSLogs(): Promise<SOSSession[]> {
     if (!this.db) {
       // console.warn('Database not initialized, attempting to initialize...');
       try {
         await this.init();
       } catch (error) {
-        // console.error('Failed to initialize database for unseen encouragement:', error);
-        return null;
+        // console.error('Failed to initialize database for SOS logs:', error);
+        return [];
       }
     }
 
     try {
-      const result = await this.db!.getFirstAsync<Encouragement>(
-        'SELECT * FROM encouragements WHERE seen = 0 ORDER BY RANDOM() LIMIT 1'
+      const results = await this.db!.getAllAsync<
+        Omit<SOSSession, 'tools_used' | 'grounding_notes' | 'outreach'> & {
+          tools_used: string | null;
+          grounding_notes: string | null;
+          outreach: string | null;
+        }
+      >(
+        'SELECT * FROM sos_logs ORDER BY timestamp DESC LIMIT 50'
       );
-      
-      return result || null;
+      const ratings = await this.db!.getAllAsync<UrgeRating>(
+        'SELECT * FROM urge_ratings ORDER BY sos_log_id, minute'
+      );
+      return results.map(row => ({
+        ...row,
+        breathing_cycles: row.breathing_cycles || 0,
+        tools_used: row.tools_used ? JSON.parse(row.tools_used) : [],
+        grounding_notes: row.grounding_notes ? JSON.parse(row.grounding_notes) : [],
+        outreach: row.outreach ? JSON.parse(row.outreach) : [],
+        urge_ratings: ratings.filter(rating => rating.sos_log_id === row.id),
+      }));
     } catch (error) {
-      // console.error('Error getting random encouragement:', error);
-      return null;
+      // console.error('Error getting SOS logs:', error);
+      return [];
     }
   }
 
-  async markEncouragementAsSeen(id: number): Promise<void> {
+  // getSOSLogs only returns the latest sessions; this counts all of them
+  async getSOSLogCount(): Promise<number> {
     if (!this.db) {
       // console.warn('Database not initialized, attempting to initialize...');
       try {
         await this.init();
       } catch (error) {
-        // console.error('Failed to initialize database for marking encouragement:', error);
-        return;
+        // console.error('Failed to initialize database for SOS logs:', error);
+        return 0;
       }
     }
 
     try {
-      await this.db!.runAsync(
-        'UPDATE encouragements SET seen = 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-        [id]
-      );
-    } catch (error) {
-      // console.error('Error marking encouragement as seen:', error);
-      throw error;
-    }
-  }
-
-  async resetAllEncouragements(): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    try {
-      await this.db.runAsync(
-        'UPDATE encouragements SET seen = 0, updated_at = CURRENT_TIMESTAMP'
+      const result = await this.db!.getFirstAsync<{ count: number }>(
+        'SELECT COUNT(*) as count FROM sos_logs'
       );
-      // console.log('All encouragements reset');
+      return result?.count || 0;
     } catch (error) {
-      // console.error('Error resetting encouragements:', error);
-      throw error;
+      // console.error('Error counting SOS logs:', error);
+      return 0;
     }
   }
 
-  async getEncouragementStats(): Promise<{ total: number; seen: number; unseen: number }> {
+  async getUserReasons(): Promise<string[]> {
     if (!this.db) throw new Error('Database not initialized');
 
     try {
-      const total = await this.db.getFirstAsync<{ count: number }>(
-        'SELECT COUNT(*) as count FROM encouragements'
-      );
-      
-      const seen = await this.db.getFirstAsync<{ count: number }>(
-        'SELECT COUNT(*) as count FROM encouragements WHERE seen = 1'
+      const results = await this.db.getAllAsync<UserReason>(
+        'SELECT reason FROM user_reasons ORDER BY id'
       );
-
-      return {
-        total: total?.count || 0,
-        seen: seen?.count || 0,
-        unseen: (total?.count || 0) - (seen?.count || 0)
-      };
+      return results.map(r => r.reason);
     } catch (error) {
-      // console.error('Error getting encouragement stats:', error);
-      return { total: 0, seen: 0, unseen: 0 };
+      // console.error('Error getting user reasons:', error);
+      return [];
     }
   }
 
-  // User methods
-  async createUser(name: string): Promise<number> {
+  async getUserReasonEntries(): Promise<UserReason[]> {
     if (!this.db) throw new Error('Database not initialized');
 
     try {
-      const result = await this.db.runAsync(
-        'INSERT INTO users (name) VALUES (?)',
-        [name]
+      const results = await this.db.getAllAsync<UserReason>(
+        'SELECT * FROM user_reasons ORDER BY id'
       );
-      return result.lastInsertRowId;
+      return results.map(r => ({ ...r, is_custom: !!r.is_custom }));
     } catch (error) {
-      // console.error('Error creating user:', error);
-      throw error;
+      // console.error('Error getting user reason entries:', error);
+      return [];
     }
   }
 
-  async getUser(): Promise<User | null> {
+  // Meeting methods
+  async getMeetings(): Promise<Meeting[]> {
     if (!this.db) {
       // console.warn('Database not initialized, attempting to initialize...');
       try {
         await this.init();
       } catch (error) {
-        // console.error('Failed to initialize database for user:', error);
-        return null;
+        // console.error('Failed to initialize database for meetings:', error);
+        return [];
       }
     }
 
     try {
-      const result = await this.db!.getFirstAsync<User>(
-        'SELECT * FROM users ORDER BY id DESC LIMIT 1'
+      return await this.db!.getAllAsync<Meeting>(
+        'SELECT * FROM meetings ORDER BY day_of_week, start_time, id'
       );
-      return result || null;
     } catch (error) {
-      // console.error('Error getting user:', error);
-      return null;
+      // console.error('Error getting meetings:', error);
+      return [];
     }
   }
 
-  async updateUserOnboarding(hasCompleted: boolean, setupStep: number): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+  async addMeeting(meeting: MeetingInput): Promise<number> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for meeting:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
 
     try {
-      await this.db.runAsync(
-        'UPDATE users SET has_completed_onboarding = ?, setup_step = ?, updated_at = CURRENT_TIMESTAMP WHERE id = (SELECT id FROM users ORDER BY id DESC LIMIT 1)',
-        [hasCompleted ? 1 : 0, setupStep]
+      const result = await this.db!.runAsync(
+        'INSERT INTO meetings (name, fellowship, day_of_week, start_time, location, online_url, notes) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [meeting.name, meeting.fellowship || null, meeting.day_of_week, meeting.start_time, meeting.location || null, meeting.online_url || null, meeting.notes || null]
       );
       
-      // Backup data after successful update
+      // Backup data after successful save
       try {
         await this.backupData();
       } catch (error) {
-        // console.warn('Failed to backup data after user onboarding update:', error);
+        // console.warn('Failed to backup data after meeting save:', error);
       }
+      
+      return result.lastInsertRowId;
     } catch (error) {
-      // console.error('Error updating user onboarding:', error);
+      // console.error('Error saving meeting:', error);
       throw error;
     }
   }
 
-  async updateUserName(name: string): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+  async updateMeeting(id: number, meeting: MeetingInput): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for meeting:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
 
     try {
-      await this.db.runAsync(
-        'UPDATE users SET name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = (SELECT id FROM users ORDER BY id DESC LIMIT 1)',
-        [name]
+      await this.db!.runAsync(
+        'UPDATE meetings SET name = ?, fellowship = ?, day_of_week = ?, start_time = ?, location = ?, online_url = ?, notes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [meeting.name, meeting.fellowship || null, meeting.day_of_week, meeting.start_time, meeting.location || null, meeting.online_url || null, meeting.notes || null, id]
       );
       
       // Backup data after successful update
       try {
         await this.backupData();
       } catch (error) {
-        // console.warn('Failed to backup data after user name update:', error);
+        // console.warn('Failed to backup data after meeting update:', error);
       }
     } catch (error) {
-      // console.error('Error updating user name:', error);
+      // console.error('Error updating meeting:', error);
       throw error;
     }
   }
 
-  // Support person methods
-  async saveSupportPerson(name: string, phone: string): Promise<number> {
+  // Attendance already logged for the meeting is kept, detached from it
+  async deleteMeeting(id: number): Promise<void> {
     if (!this.db) {
       // console.warn('Database not initialized, attempting to initialize...');
       try {
         await this.init();
       } catch (error) {
-        // console.error('Failed to initialize database for support person:', error);
+        // console.error('Failed to initialize database for meeting:', error);
         throw new Error('Database initialization failed');
       }
     }
 
     try {
-      // Clear existing support person first
-      await this.db!.runAsync('DELETE FROM support_persons');
-      
-      const result = await this.db!.runAsync(
-        'INSERT INTO support_persons (name, phone) VALUES (?, ?)',
-        [name, phone]
-      );
+      await this.db!.withTransactionAsync(async () => {
+        await this.db!.runAsync('UPDATE meeting_attendance SET meeting_id = NULL WHERE meeting_id = ?', [id]);
+        await this.db!.runAsync('DELETE FROM meetings WHERE id = ?', [id]);
+      });
       
-      // Backup data after successful save
+      // Backup data after successful delete
       try {
         await this.backupData();
       } catch (error) {
-        // console.warn('Failed to backup data after support person save:', error);
+        // console.warn('Failed to backup data after meeting delete:', error);
       }
-      
-      return result.lastInsertRowId;
     } catch (error) {
-      // console.error('Error saving support person:', error);
+      // console.error('Error deleting meeting:', error);
       throw error;
     }
   }
 
-  async getSupportPerson(): Promise<SupportPerson | null> {
+  async logMeetingAttendance(meeting: Meeting, attendedOn: string, reflection?: string): Promise<number> {
     if (!this.db) {
       // console.warn('Database not initialized, attempting to initialize...');
       try {
         await this.init();
       } catch (error) {
-        // console.error('Failed to initialize database for support person:', error);
-        return null;
+        // console.error('Failed to initialize database for meeting attendance:', error);
+        throw new Error('Database initialization failed');
       }
     }
 
     try {
-      const result = await this.db!.getFirstAsync<SupportPerson>(
-        'SELECT * FROM support_persons ORDER BY id DESC LIMIT 1'
-      );
-      return result || null;
-    } catch (error) {
-      // console.error('Error getting support person:', error);
-      return null;
-    }
-  }
-
-  // Sobriety data methods
-  async saveSobrietyData(trackingSobriety: boolean, trackingMode: 'sober' | 'trying', soberDate?: string): Promise<number> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    try {
-      // Clear existing sobriety data first
-      await this.db.runAsync('DELETE FROM sobriety_data');
-      
-      const result = await this.db.runAsync(
-        'INSERT INTO sobriety_data (tracking_sobriety, tracking_mode, sober_date) VALUES (?, ?, ?)',
-        [trackingSobriety ? 1 : 0, trackingMode, soberDate || null]
+      const result = await this.db!.runAsync(
+        'INSERT INTO meeting_attendance (meeting_id, meeting_name, attended_on, reflection) VALUES (?, ?, ?, ?)',
+        [meeting.id ?? null, meeting.name, attendedOn, reflection?.trim() || null]
       );
       
       // Backup data after successful save
       try {
         await this.backupData();
       } catch (error) {
-        // console.warn('Failed to backup data after sobriety data save:', error);
+        // console.warn('Failed to backup data after meeting attendance save:', error);
       }
       
       return result.lastInsertRowId;
     } catch (error) {
-      // console.error('Error saving sobriety data:', error);
+      // console.error('Error saving meeting attendance:', error);
       throw error;
     }
   }
 
-  async getSobrietyData(): Promise<SobrietyData | null> {
+  async getMeetingAttendance(): Promise<MeetingAttendance[]> {
     if (!this.db) {
       // console.warn('Database not initialized, attempting to initialize...');
       try {
         await this.init();
       } catch (error) {
-        // console.error('Failed to initialize database for sobriety data:', error);
-        return null;
+        // console.error('Failed to initialize database for meeting attendance:', error);
+        return [];
       }
     }
 
     try {
-      const result = await this.db!.getFirstAsync<SobrietyData>(
-        'SELECT * FROM sobriety_data ORDER BY id DESC LIMIT 1'
+      return await this.db!.getAllAsync<MeetingAttendance>(
+        'SELECT * FROM meeting_attendance ORDER BY attended_on DESC, id DESC'
       );
-      return result || null;
-    } catch (error) {
-      // console.error('Error getting sobriety data:', error);
-      return null;
-    }
-  }
-
-  // User reasons methods
-  async saveUserReasons(reasons: string[]): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    try {
-      // Clear existing reasons first
-      await this.db.runAsync('DELETE FROM user_reasons');
-      
-      // Insert new reasons
-      for (const reason of reasons) {
-        await this.db.runAsync(
-          'INSERT INTO user_reasons (reason) VALUES (?)',
-          [reason]
-        );
-      }
-      
-      // Backup data after successful save
-      try {
-        await this.backupData();
-      } catch (error) {
-        // console.warn('Failed to backup data after user reasons save:', error);
-      }
     } catch (error) {
-      // console.error('Error saving user reasons:', error);
-      throw error;
+      // console.error('Error getting meeting attendance:', error);
+      return [];
     }
   }
 
-  // SOS logging methods
-  async logSOSActivation(timestamp: string): Promise<number> {
+  async deleteMeetingAttendance(id: number): Promise<void> {
     if (!this.db) {
       // console.warn('Database not initialized, attempting to initialize...');
       try {
         await this.init();
       } catch (error) {
-        // console.error('Failed to initialize database for SOS logging:', error);
-        return 0;
+        // console.error('Failed to initialize database for meeting attendance:', error);
+        throw new Error('Database initialization failed');
       }
     }
 
     try {
-      const result = await this.db!.runAsync(
-        'INSERT INTO sos_logs (timestamp) VALUES (?)',
-        [timestamp]
-      );
+      await this.db!.runAsync('DELETE FROM meeting_attendance WHERE id = ?', [id]);
       
-      // Backup data after successful logging
+      // Backup data after successful delete
       try {
         await this.backupData();
       } catch (error) {
-        // console.warn('Failed to backup data after SOS log creation:', error);
+        // console.warn('Failed to backup data after meeting attendance delete:', error);
       }
-      
-      return result.lastInsertRowId;
     } catch (error) {
-      // console.error('Error logging SOS activation:', error);
-      return 0;
+      // console.error('Error deleting meeting attendance:', error);
+      throw error;
     }
   }
 
-  async getSOSLogs(): Promise<{ id: number; timestamp: string }[]> {
+  // Favorite resources
+  async getFavoriteResourceIds(): Promise<string[]> {
     if (!this.db) {
       // console.warn('Database not initialized, attempting to initialize...');
       try {
         await this.init();
       } catch (error) {
-        // console.error('Failed to initialize database for SOS logs:', error);
+        // console.error('Failed to initialize database for favorite resources:', error);
         return [];
       }
     }
 
     try {
-      const results = await this.db!.getAllAsync<{ id: number; timestamp: string }>(
-        'SELECT id, timestamp FROM sos_logs ORDER BY timestamp DESC LIMIT 50'
+      const rows = await this.db!.getAllAsync<{ resource_id: string }>(
+        'SELECT resource_id FROM favorite_resources ORDER BY created_at DESC'
       );
-      return results;
+      return rows.map(row => row.resource_id);
     } catch (error) {
-      // console.error('Error getting SOS logs:', error);
+      // console.error('Error getting favorite resources:', error);
       return [];
     }
   }
 
-  async getUserReasons(): Promise<string[]> {
-    if (!this.db) throw new Error('Database not initialized');
+  async setResourceFavorite(resourceId: string, isFavorite: boolean): Promise<void> {
+    if (!this.db) {
+      // console.warn('Database not initialized, attempting to initialize...');
+      try {
+        await this.init();
+      } catch (error) {
+        // console.error('Failed to initialize database for favorite resources:', error);
+        throw new Error('Database initialization failed');
+      }
+    }
 
     try {
-      const results = await this.db.getAllAsync<UserReason>(
-        'SELECT reason FROM user_reasons ORDER BY id'
-      );
-      return results.map(r => r.reason);
+      if (isFavorite) {
+        await this.db!.runAsync(
+          'INSERT OR IGNORE INTO favorite_resources (resource_id) VALUES (?)',
+          [resourceId]
+        );
+      } else {
+        await this.db!.runAsync('DELETE FROM favorite_resources WHERE resource_id = ?', [resourceId]);
+      }
+
+      try {
+        await this.backupData();
+      } catch (error) {
+        // console.warn('Failed to backup data after favorite change:', error);
+      }
     } catch (error) {
-      // console.error('Error getting user reasons:', error);
-      return [];
+      // console.error('Error saving favorite resource:', error);
+      throw error;
     }
   }
 
-  // Journal methods
   async createJournalEntry(content: string): Promise<number> {
     if (!this.db) {
       // console.warn('Database not initialized, attempting to initialize...');
@@ -797,7 +1958,7 @@ class DatabaseService {
     }
 
     try {
-      const timestamp = new Date().toISOString();
+      const timestamp = getNow().toISOString();
       const result = await this.db!.runAsync(
         'INSERT INTO journal_entries (content, timestamp) VALUES (?, ?)',
         [content, timestamp]
@@ -943,7 +2104,7 @@ class DatabaseService {
     }
 
     try {
-      const timestamp = new Date().toISOString();
+      const timestamp = getNow().toISOString();
       const result = await this.db!.runAsync(
         'INSERT INTO intentions (content, timestamp) VALUES (?, ?)',
         [content, timestamp]
@@ -1093,11 +2254,8 @@ class DatabaseService {
     }
 
     try {
-      // Get today's date in YYYY-MM-DD format (calendar day, not 24-hour period)
-      const now = new Date();
-      const today = now.getFullYear() + '-' + 
-                   String(now.getMonth() + 1).padStart(2, '0') + '-' + 
-                   String(now.getDate()).padStart(2, '0');
+      // Get today's date in YYYY-MM-DD format (home calendar day, not 24-hour period)
+      const today = getTodayKey();
       
       // console.log('Creating daily check-in for date:', today);
       
@@ -1132,11 +2290,9 @@ class DatabaseService {
     }
 
     try {
-      // Get today's date in YYYY-MM-DD format (calendar day, not 24-hour period)
-      const now = new Date();
-      const today = now.getFullYear() + '-' + 
-                   String(now.getMonth() + 1).padStart(2, '0') + '-' + 
-                   String(now.getDate()).padStart(2, '0');
+      // Get today's date in YYYY-MM-DD format (home calendar day, not 24-hour period)
+      const now = getNow();
+      const today = getTodayKey();
       
       // Debug logging to help troubleshoot
       // console.log('Checking for today\'s check-in:', {
@@ -1193,10 +2349,8 @@ class DatabaseService {
     }
 
     try {
-      const now = new Date();
-      const today = now.getFullYear() + '-' + 
-                   String(now.getMonth() + 1).padStart(2, '0') + '-' + 
-                   String(now.getDate()).padStart(2, '0');
+      const now = getNow();
+      const today = getTodayKey();
       
       // console.log('=== DAILY CHECK-IN DEBUG ===');
       // console.log('Current time:', now.toLocaleString());
@@ -1205,7 +2359,7 @@ class DatabaseService {
       // Get all check-ins from the last 3 days
       const recentCheckIns = await this.db.getAllAsync<DailyCheckIn>(
         'SELECT * FROM daily_check_ins WHERE date >= ? ORDER BY date DESC',
-        [now.getFullYear() + '-' + String(now.getMonth() + 1).padStart(2, '0') + '-' + String(now.getDate() - 2).padStart(2, '0')]
+        [addDaysToKey(today, -2)]
       );
       
       //console.log('Recent check-ins:');
@@ -1242,10 +2396,7 @@ class DatabaseService {
     }
 
     try {
-      const now = new Date();
-      const today = now.getFullYear() + '-' + 
-                   String(now.getMonth() + 1).padStart(2, '0') + '-' + 
-                   String(now.getDate()).padStart(2, '0');
+      const today = getTodayKey();
       
       //console.log('Clearing today\'s check-in for date:', today);
       
@@ -1277,11 +2428,11 @@ class DatabaseService {
       const user = await this.getUser();
       // console.log('User:', user);
       
-      const supportPerson = await this.getSupportPerson();
-      // console.log('Support Person:', supportPerson);
+      const supportPeople = await this.getSupportPeople();
+      // console.log('Support People:', supportPeople);
       
-      const sobrietyData = await this.getSobrietyData();
-      // console.log('Sobriety Data:', sobrietyData);
+      const trackers = await this.getTrackers();
+      // console.log('Trackers:', trackers);
       
       const userReasons = await this.getUserReasons();
       // console.log('User Reasons:', userReasons);
@@ -1318,9 +2469,17 @@ class DatabaseService {
     try {
       await this.db!.runAsync('DELETE FROM users');
       await this.db!.runAsync('DELETE FROM support_persons');
-      await this.db!.runAsync('DELETE FROM sobriety_data');
+      await this.db!.runAsync('DELETE FROM trackers');
+      await this.db!.runAsync('DELETE FROM streaks');
+      await this.db!.runAsync('DELETE FROM custom_milestones');
+      await this.db!.runAsync('DELETE FROM milestone_celebrations');
+      await this.db!.runAsync('DELETE FROM consumption_entries');
       await this.db!.runAsync('DELETE FROM user_reasons');
       await this.db!.runAsync('DELETE FROM sos_logs');
+      await this.db!.runAsync('DELETE FROM urge_ratings');
+      await this.db!.runAsync('DELETE FROM favorite_resources');
+      await this.db!.runAsync('DELETE FROM meetings');
+      await this.db!.runAsync('DELETE FROM meeting_attendance');
       await this.db!.runAsync('DELETE FROM journal_entries');
       await this.db!.runAsync('DELETE FROM intentions');
       await this.db!.runAsync('DELETE FROM daily_check_ins');
@@ -1355,9 +2514,17 @@ class DatabaseService {
       // Delete all user-generated data
       await this.db!.runAsync('DELETE FROM users');
       await this.db!.runAsync('DELETE FROM support_persons');
-      await this.db!.runAsync('DELETE FROM sobriety_data');
+      await this.db!.runAsync('DELETE FROM trackers');
+      await this.db!.runAsync('DELETE FROM streaks');
+      await this.db!.runAsync('DELETE FROM custom_milestones');
+      await this.db!.runAsync('DELETE FROM milestone_celebrations');
+      await this.db!.runAsync('DELETE FROM consumption_entries');
       await this.db!.runAsync('DELETE FROM user_reasons');
       await this.db!.runAsync('DELETE FROM sos_logs');
+      await this.db!.runAsync('DELETE FROM urge_ratings');
+      await this.db!.runAsync('DELETE FROM favorite_resources');
+      await this.db!.runAsync('DELETE FROM meetings');
+      await this.db!.runAsync('DELETE FROM meeting_attendance');
       await this.db!.runAsync('DELETE FROM journal_entries');
       await this.db!.runAsync('DELETE FROM intentions');
       await this.db!.runAsync('DELETE FROM daily_check_ins');
@@ -1417,26 +2584,40 @@ class DatabaseService {
     try {
       // Get all user data
       const user = await this.getUser();
-      const supportPerson = await this.getSupportPerson();
-      const sobrietyData = await this.getSobrietyData();
-      const userReasons = await this.getUserReasons();
+      const supportPeople = await this.getSupportPeople();
+      const trackers = await this.getTrackers();
+      const streaks = await this.getStreaks();
+      const customMilestones = await this.getCustomMilestones();
+      const milestoneCelebrations = await this.getMilestoneCelebrations();
+      const consumptionEntries = await this.getConsumptionEntries();
+      const userReasons = await this.getUserReasonEntries();
       const journalEntries = await this.getJournalEntries();
       const intentions = await this.getIntentions();
       const dailyCheckIns = await this.getCheckInHistory();
       const sosLogs = await this.getSOSLogs();
+      const favoriteResources = await this.getFavoriteResourceIds();
+      const meetings = await this.getMeetings();
+      const meetingAttendance = await this.getMeetingAttendance();
 
       // Create backup object
       const backup = {
-        timestamp: new Date().toISOString(),
+        timestamp: getNow().toISOString(),
         version: '1.0.0', // Track backup format version
         user,
-        supportPerson,
-        sobrietyData,
+        supportPeople,
+        trackers,
+        streaks,
+        customMilestones,
+        milestoneCelebrations,
+        consumptionEntries,
         userReasons,
         journalEntries,
         intentions,
         dailyCheckIns,
-        sosLogs
+        sosLogs,
+        favoriteResources,
+        meetings,
+        meetingAttendance
       };
 
       // Validate backup size before saving
@@ -1454,7 +2635,7 @@ class DatabaseService {
         await AsyncStorage.setItem('sober_balance_backup', backupString);
       }, 3, 500);
       
-      // console.log(`Data backed up successfully (${Math.round(backupSize / 1024)}KB, ${new Date().toISOString()})`);
+      // console.log(`Data backed up successfully (${Math.round(backupSize / 1024)}KB, ${getNow().toISOString()})`);
     } catch (error) {
       // console.error('Error backing up data:', error);
       throw error; // Re-throw to allow calling code to handle the error
@@ -1480,12 +2661,12 @@ class DatabaseService {
       );
       
       // Check for any user-generated content
-      const [journalCount, intentionCount, checkInCount, supportCount, sobrietyCount] = await Promise.all([
+      const [journalCount, intentionCount, checkInCount, supportCount, trackerCount] = await Promise.all([
         this.db!.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM journal_entries'),
         this.db!.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM intentions'),
         this.db!.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM daily_check_ins'),
         this.db!.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM support_persons'),
-        this.db!.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM sobriety_data')
+        this.db!.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM trackers')
       ]);
 
       // If database has user AND any content, no need to restore
@@ -1494,7 +2675,7 @@ class DatabaseService {
                            (intentionCount && intentionCount.count > 0) ||
                            (checkInCount && checkInCount.count > 0) ||
                            (supportCount && supportCount.count > 0) ||
-                           (sobrietyCount && sobrietyCount.count > 0);
+                           (trackerCount && trackerCount.count > 0);
 
       if (hasUserData && hasAnyContent) {
         // console.log('Database has user data and content, no restore needed');
@@ -1514,7 +2695,7 @@ class DatabaseService {
       
       // Check backup age and warn if it's old
       if (backup.timestamp) {
-        const backupAge = Date.now() - new Date(backup.timestamp).getTime();
+        const backupAge = getNow().getTime() - new Date(backup.timestamp).getTime();
         const thirtyDays = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
         
         if (backupAge > thirtyDays) {
@@ -1532,32 +2713,76 @@ class DatabaseService {
       // Restore data in the correct order (respecting foreign key constraints)
       if (backup.user) {
         await this.db!.runAsync(
-          'INSERT OR REPLACE INTO users (id, name, has_completed_onboarding, setup_step, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
-          [backup.user.id, backup.user.name, backup.user.has_completed_onboarding, backup.user.setup_step, backup.user.created_at, backup.user.updated_at]
+          'INSERT OR REPLACE INTO users (id, name, has_completed_onboarding, setup_step, why_note, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          [backup.user.id, backup.user.name, backup.user.has_completed_onboarding, backup.user.setup_step, backup.user.why_note ?? null, backup.user.created_at, backup.user.updated_at]
         );
       }
 
-      if (backup.supportPerson) {
+      // Older backups held a single supportPerson
+      const supportPeople = backup.supportPeople || (backup.supportPerson ? [backup.supportPerson] : []);
+      for (const person of supportPeople) {
+        if (!person.name?.trim() || !person.phone?.trim()) continue;
         await this.db!.runAsync(
-          'INSERT OR REPLACE INTO support_persons (id, name, phone, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
-          [backup.supportPerson.id, backup.supportPerson.name, backup.supportPerson.phone, backup.supportPerson.created_at, backup.supportPerson.updated_at]
+          'INSERT OR REPLACE INTO support_persons (id, name, phone, role, priority, notes, available_from, available_until, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [person.id, person.name, person.phone, person.role || 'friend', person.priority ?? person.id, person.notes || null, person.available_from || null, person.available_until || null, person.created_at, person.updated_at]
         );
       }
 
-      if (backup.sobrietyData && backup.sobrietyData.length > 0) {
-        for (const data of backup.sobrietyData) {
-          await this.db!.runAsync(
-            'INSERT OR REPLACE INTO sobriety_data (id, tracking_sobriety, tracking_mode, sober_date, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
-            [data.id, data.tracking_sobriety, data.tracking_mode || 'sober', data.sober_date, data.created_at, data.updated_at]
-          );
-        }
+      // Older backups held a single sobrietyData row from before trackers
+      const legacySobrietyData: LegacySobrietyBackup[] = backup.sobrietyData ? [].concat(backup.sobrietyData) : [];
+      const trackers: Tracker[] = backup.trackers || legacySobrietyData.slice(-1).map(fromLegacySobrietyBackup);
+      // A legacy tracker gets a new id, so records point at the ids saved here
+      const restoredTrackerIds: number[] = [];
+      for (const tracker of trackers) {
+        const result = await this.db!.runAsync(
+          'INSERT OR REPLACE INTO trackers (id, name, tracking_sobriety, tracking_mode, sober_date, is_primary, currency, spend_minor, spend_period, minutes_per_occasion, occasions_per_week, savings_goal_name, savings_goal_minor, consumption_unit, daily_limit, weekly_limit, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [tracker.id ?? null, tracker.name || 'Sobriety', tracker.tracking_sobriety ? 1 : 0, isTrackingMode(tracker.tracking_mode) ? tracker.tracking_mode : 'sober', tracker.sober_date || null, tracker.is_primary ? 1 : 0, tracker.currency || null, tracker.spend_minor ?? null, tracker.spend_period === 'day' || tracker.spend_period === 'week' ? tracker.spend_period : null, tracker.minutes_per_occasion ?? null, tracker.occasions_per_week ?? null, tracker.savings_goal_name || null, tracker.savings_goal_minor ?? null, tracker.consumption_unit || null, tracker.daily_limit ?? null, tracker.weekly_limit ?? null, tracker.created_at ?? getNow().toISOString(), tracker.updated_at || tracker.created_at || getNow().toISOString()]
+        );
+        restoredTrackerIds.push(result.lastInsertRowId);
+      }
+
+      // Streaks from before trackers belong to the first one
+      const defaultTrackerId = restoredTrackerIds[0] ?? null;
+      for (const streak of backup.streaks || []) {
+        await this.db!.runAsync(
+          'INSERT OR REPLACE INTO streaks (id, tracker_id, started_at, ended_at, tracking_mode, note, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+          [streak.id, streak.tracker_id ?? defaultTrackerId, streak.started_at, streak.ended_at || null, isTrackingMode(streak.tracking_mode) && isCountingMode(streak.tracking_mode) ? streak.tracking_mode : 'sober', streak.note || null, streak.created_at, streak.updated_at || streak.created_at]
+        );
+      }
+
+      for (const milestone of backup.customMilestones || []) {
+        await this.db!.runAsync(
+          'INSERT OR REPLACE INTO custom_milestones (id, tracker_id, title, date_key, message, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          [milestone.id, milestone.tracker_id, milestone.title, milestone.date_key, milestone.message || null, milestone.created_at, milestone.updated_at || milestone.created_at]
+        );
+      }
+
+      for (const celebration of backup.milestoneCelebrations || []) {
+        await this.db!.runAsync(
+          'INSERT OR REPLACE INTO milestone_celebrations (id, tracker_id, sober_date, milestone_id, label, date_key, celebrated_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          [celebration.id, celebration.tracker_id, celebration.sober_date, celebration.milestone_id, celebration.label, celebration.date_key, celebration.celebrated_at]
+        );
+      }
+
+      // Entries from before they were kept per tracker belong to the primary one
+      const primaryTrackerId = restoredTrackerIds[trackers.findIndex(tracker => tracker.is_primary)] ?? defaultTrackerId;
+      for (const entry of backup.consumptionEntries || []) {
+        await this.db!.runAsync(
+          'INSERT OR REPLACE INTO consumption_entries (id, tracker_id, consumed_at, substance, amount, unit, context, who_with, craving, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [entry.id, entry.tracker_id ?? primaryTrackerId, entry.consumed_at, entry.substance, entry.amount, entry.unit, entry.context || null, entry.who_with || null, entry.craving ?? null, entry.created_at, entry.updated_at || entry.created_at]
+        );
       }
 
       if (backup.userReasons && backup.userReasons.length > 0) {
         for (const reason of backup.userReasons) {
+          // Older backups stored reasons as plain strings
+          if (typeof reason === 'string') {
+            await this.db!.runAsync('INSERT INTO user_reasons (reason) VALUES (?)', [reason]);
+            continue;
+          }
           await this.db!.runAsync(
-            'INSERT OR REPLACE INTO user_reasons (id, reason, created_at) VALUES (?, ?, ?)',
-            [reason.id, reason.reason, reason.created_at]
+            'INSERT OR REPLACE INTO user_reasons (id, reason, is_custom, created_at) VALUES (?, ?, ?, ?)',
+            [reason.id, reason.reason, reason.is_custom ? 1 : 0, reason.created_at]
           );
         }
       }
@@ -1592,12 +2817,40 @@ class DatabaseService {
       if (backup.sosLogs && backup.sosLogs.length > 0) {
         for (const log of backup.sosLogs) {
           await this.db!.runAsync(
-            'INSERT OR REPLACE INTO sos_logs (id, timestamp, created_at) VALUES (?, ?, ?)',
-            [log.id, log.timestamp, log.created_at]
+            'INSERT OR REPLACE INTO sos_logs (id, timestamp, ended_at, breathing_cycles, tools_used, outcome, grounding_notes, outreach, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+            [log.id, log.timestamp, log.ended_at || null, log.breathing_cycles || 0, JSON.stringify(log.tools_used || []), log.outcome || null, JSON.stringify(log.grounding_notes || []), JSON.stringify(log.outreach || []), log.created_at]
           );
+
+          for (const rating of log.urge_ratings || []) {
+            await this.db!.runAsync(
+              'INSERT OR REPLACE INTO urge_ratings (id, sos_log_id, minute, intensity, recorded_at) VALUES (?, ?, ?, ?, ?)',
+              [rating.id, log.id, rating.minute, rating.intensity, rating.recorded_at]
+            );
+          }
         }
       }
 
+      for (const resourceId of backup.favoriteResources || []) {
+        await this.db!.runAsync(
+          'INSERT OR IGNORE INTO favorite_resources (resource_id) VALUES (?)',
+          [resourceId]
+        );
+      }
+
+      for (const meeting of backup.meetings || []) {
+        await this.db!.runAsync(
+          'INSERT OR REPLACE INTO meetings (id, name, fellowship, day_of_week, start_time, location, online_url, notes, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [meeting.id, meeting.name, meeting.fellowship || null, meeting.day_of_week, meeting.start_time, meeting.location || null, meeting.online_url || null, meeting.notes || null, meeting.created_at, meeting.updated_at || meeting.created_at]
+        );
+      }
+
+      for (const attendance of backup.meetingAttendance || []) {
+        await this.db!.runAsync(
+          'INSERT OR REPLACE INTO meeting_attendance (id, meeting_id, meeting_name, attended_on, reflection, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+          [attendance.id, attendance.meeting_id ?? null, attendance.meeting_name, attendance.attended_on, attendance.reflection || null, attendance.created_at]
+        );
+      }
+
       // console.log('Data restored successfully from backup');
     } catch (error) {
       // console.error('Error restoring data:', error);
@@ -1637,7 +2890,7 @@ class DatabaseService {
       const backup = JSON.parse(backupData);
       const backupSize = backupData.length;
       const timestamp = backup.timestamp;
-      const age = timestamp ? Math.round((Date.now() - new Date(timestamp).getTime()) / (24 * 60 * 60 * 1000)) : undefined;
+      const age = timestamp ? Math.round((getNow().getTime() - new Date(timestamp).getTime()) / (24 * 60 * 60 * 1000)) : undefined;
 
       return {
         exists: true,
@@ -0,0 +1,85 @@
+// Date Math
+// Calendar arithmetic on local dates. Months and years are real calendar
+// months and years rather than 30 and 365 days, so leap days and month ends
+// come out the way a calendar reads. Adding months to a day the target month
+// doesn't have lands on its last day: Jan 31 + 1 month is Feb 28 (or 29), and
+// a Feb 29 anniversary is Feb 28 in other years.
+
+export interface CalendarDuration {
+  years: number;
+  // 0-11
+  months: number;
+  // Days after the last whole month
+  days: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const getDaysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+// Keeps the time of day
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Keeps the time of day. Past the end of the target month means its last day.
+export const addMonths = (date: Date, months: number): Date => {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const day = Math.min(date.getDate(), getDaysInMonth(target.getFullYear(), target.getMonth()));
+  return new Date(
+    target.getFullYear(),
+    target.getMonth(),
+    day,
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+};
+
+export const addYears = (date: Date, years: number): Date => addMonths(date, years * 12);
+
+// Midnights crossed between the two dates, ignoring the time of day. Rounded
+// so a daylight saving change doesn't lose or add a day.
+export const calendarDaysBetween = (from: Date, to: Date): number =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / MS_PER_DAY);
+
+// Whole calendar years, months and days from one date to a later one. Earlier
+// `to` dates give zero.
+export const getCalendarDuration = (from: Date, to: Date): CalendarDuration => {
+  const start = startOfDay(from);
+  const end = startOfDay(to);
+  if (end <= start) return { years: 0, months: 0, days: 0 };
+
+  let totalMonths = (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth();
+  if (addMonths(start, totalMonths) > end) totalMonths -= 1;
+
+  return {
+    years: Math.floor(totalMonths / 12),
+    months: totalMonths % 12,
+    days: calendarDaysBetween(addMonths(start, totalMonths), end),
+  };
+};
+
+// The date that is the given years, months and days before `date`, at the
+// same time of day. Days come off first, undoing getCalendarDuration, so the
+// two round trip apart from start dates near a month end that share a
+// duration (Jan 30 and Jan 31, 2025 are both 1 month 1 day before Mar 1).
+export const subtractCalendarDuration = (date: Date, duration: CalendarDuration): Date =>
+  addMonths(addDays(date, -duration.days), -(duration.years * 12 + duration.months));
+
+// Local calendar date as YYYY-MM-DD
+export const formatDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Moves a YYYY-MM-DD key by whole days. Counted in UTC so no time zone or
+// daylight saving change can skip or repeat a day.
+export const addDaysToKey = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`;
+};
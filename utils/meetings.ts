@@ -0,0 +1,125 @@
+// Meetings
+// The user's own regular meetings: form validation, weekly scheduling and
+// display helpers. Storage and the attendance log live in database.ts.
+import { getNow } from './clock';
+import { Meeting, MeetingInput } from './database';
+import { parseTimeOfDay } from './supportContacts';
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const FELLOWSHIPS = ['AA', 'NA', 'SMART Recovery', 'LifeRing', 'Al-Anon', 'Other'];
+
+export const MAX_MEETING_REFLECTION_LENGTH = 500;
+
+// Meetings don't store an end time; most run about an hour
+export const MEETING_DURATION_MINUTES = 60;
+
+// What the add/edit form holds while the user is typing
+export interface MeetingDraft {
+  name: string;
+  fellowship: string | null;
+  dayOfWeek: number;
+  startTime: string;
+  location: string;
+  onlineUrl: string;
+  notes: string;
+}
+
+export const EMPTY_MEETING_DRAFT: MeetingDraft = {
+  name: '',
+  fellowship: null,
+  dayOfWeek: 1,
+  startTime: '',
+  location: '',
+  onlineUrl: '',
+  notes: '',
+};
+
+export const draftFromMeeting = (meeting: Meeting): MeetingDraft => ({
+  name: meeting.name,
+  fellowship: meeting.fellowship || null,
+  dayOfWeek: meeting.day_of_week,
+  startTime: meeting.start_time,
+  location: meeting.location || '',
+  onlineUrl: meeting.online_url || '',
+  notes: meeting.notes || '',
+});
+
+// People often paste links without the scheme, e.g. zoom.us/j/123
+const normalizeUrl = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+// Returns an error message, or null if the draft can be saved
+export const validateMeetingDraft = (draft: MeetingDraft): string | null => {
+  if (!draft.name.trim()) {
+    return 'Please enter a name for the meeting.';
+  }
+  if (!parseTimeOfDay(draft.startTime)) {
+    return 'Please enter a start time like 19:00 or 7:30.';
+  }
+  const url = normalizeUrl(draft.onlineUrl);
+  if (url && /\s/.test(url)) {
+    return 'Please enter a valid link for the online meeting.';
+  }
+  return null;
+};
+
+// Expects a draft that has passed validateMeetingDraft
+export const draftToMeetingInput = (draft: MeetingDraft): MeetingInput => ({
+  name: draft.name.trim(),
+  fellowship: draft.fellowship,
+  day_of_week: draft.dayOfWeek,
+  start_time: parseTimeOfDay(draft.startTime) ?? draft.startTime.trim(),
+  location: draft.location.trim() || null,
+  online_url: normalizeUrl(draft.onlineUrl),
+  notes: draft.notes.trim() || null,
+});
+
+// When this meeting is next on: today's if it hasn't finished yet, otherwise
+// the next time it starts
+export const getNextOccurrence = (meeting: Meeting, now: Date = getNow()): Date => {
+  const [hours, minutes] = meeting.start_time.split(':').map(Number);
+  const next = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+  next.setDate(next.getDate() + ((meeting.day_of_week - now.getDay() + 7) % 7));
+  const endsAt = new Date(next.getTime() + MEETING_DURATION_MINUTES * 60 * 1000);
+  if (endsAt <= now) next.setDate(next.getDate() + 7);
+  return next;
+};
+
+export const getNextMeeting = (
+  meetings: Meeting[],
+  now: Date = getNow()
+): { meeting: Meeting; startsAt: Date } | null => {
+  let next: { meeting: Meeting; startsAt: Date } | null = null;
+  for (const meeting of meetings) {
+    const startsAt = getNextOccurrence(meeting, now);
+    if (!next || startsAt < next.startsAt) next = { meeting, startsAt };
+  }
+  return next;
+};
+
+// '19:05' -> '7:05 PM'
+export const formatTimeOfDay = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`;
+};
+
+export const formatMeetingSchedule = (meeting: Meeting): string =>
+  `${WEEKDAYS[meeting.day_of_week]}s at ${formatTimeOfDay(meeting.start_time)}`;
+
+// 'Started at 7:00 PM', 'Today at 7:00 PM', 'Tomorrow at 7:00 PM' or 'Thursday at 7:00 PM'
+export const formatNextMeeting = (startsAt: Date, now: Date = getNow()): string => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const day = new Date(startsAt.getFullYear(), startsAt.getMonth(), startsAt.getDate());
+  const daysAway = Math.round((day.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+  const time = formatTimeOfDay(`${startsAt.getHours()}:${startsAt.getMinutes()}`);
+
+  if (startsAt <= now) return `Started at ${time}`;
+  if (daysAway === 0) return `Today at ${time}`;
+  if (daysAway === 1) return `Tomorrow at ${time}`;
+  return `${WEEKDAYS[startsAt.getDay()]} at ${time}`;
+};
@@ -0,0 +1,506 @@
+// Database Migrations
+// Versioned schema changes keyed off SQLite's PRAGMA user_version.
+// Each migration runs once, in order, inside its own transaction.
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SQLiteDatabase) => Promise<void>;
+}
+
+// Thrown when a migration fails. The transaction is rolled back, so the
+// database stays at the last version that migrated successfully.
+export class MigrationError extends Error {
+  version: number;
+  migrationName: string;
+  originalError: unknown;
+
+  constructor(migration: Migration, originalError: unknown) {
+    const reason = originalError instanceof Error ? originalError.message : String(originalError);
+    super(`Migration ${migration.version} (${migration.name}) failed: ${reason}`);
+    this.name = 'MigrationError';
+    this.version = migration.version;
+    this.migrationName = migration.name;
+    this.originalError = originalError;
+  }
+}
+
+const getColumnNames = async (db: SQLiteDatabase, table: string): Promise<string[]> => {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return columns.map(column => column.name);
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS encouragements (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          message TEXT NOT NULL,
+          seen BOOLEAN DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          has_completed_onboarding BOOLEAN DEFAULT 0,
+          setup_step INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS support_persons (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          phone TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS sobriety_data (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tracking_sobriety BOOLEAN DEFAULT 0,
+          tracking_mode TEXT NOT NULL,
+          sober_date TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS user_reasons (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          reason TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS sos_logs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          timestamp TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS journal_entries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          content TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS intentions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          content TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS daily_check_ins (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          goal TEXT NOT NULL,
+          energy TEXT NOT NULL,
+          tone TEXT NOT NULL,
+          thankful TEXT NOT NULL,
+          date TEXT NOT NULL UNIQUE,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    // Installs created before versioned migrations may still carry older
+    // column layouts. On a fresh install every check here is a no-op.
+    version: 2,
+    name: 'legacy_column_fixes',
+    up: async (db) => {
+      const checkInColumns = await getColumnNames(db, 'daily_check_ins');
+      if (checkInColumns.includes('feeling')) {
+        await db.execAsync(`
+          CREATE TABLE daily_check_ins_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            goal TEXT NOT NULL,
+            energy TEXT NOT NULL,
+            tone TEXT NOT NULL,
+            thankful TEXT NOT NULL,
+            date TEXT NOT NULL UNIQUE,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+          );
+          INSERT INTO daily_check_ins_new (goal, energy, tone, thankful, date, created_at)
+            SELECT goal, energy, tone, thankful, date, created_at FROM daily_check_ins;
+          DROP TABLE daily_check_ins;
+          ALTER TABLE daily_check_ins_new RENAME TO daily_check_ins;
+        `);
+      }
+
+      for (const table of ['journal_entries', 'intentions']) {
+        const columns = await getColumnNames(db, table);
+        if (!columns.includes('updated_at')) {
+          await db.execAsync(`ALTER TABLE ${table} ADD COLUMN updated_at DATETIME`);
+          await db.execAsync(`UPDATE ${table} SET updated_at = created_at WHERE updated_at IS NULL`);
+        }
+      }
+
+      const sobrietyColumns = await getColumnNames(db, 'sobriety_data');
+      if (!sobrietyColumns.includes('tracking_mode')) {
+        await db.execAsync("ALTER TABLE sobriety_data ADD COLUMN tracking_mode TEXT DEFAULT 'sober'");
+        await db.execAsync("UPDATE sobriety_data SET tracking_mode = 'sober' WHERE tracking_mode IS NULL");
+      }
+    },
+  },
+  {
+    // sos_logs.timestamp stays as the session start time
+    version: 3,
+    name: 'sos_sessions',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE sos_logs ADD COLUMN ended_at TEXT;
+        ALTER TABLE sos_logs ADD COLUMN breathing_cycles INTEGER DEFAULT 0;
+        ALTER TABLE sos_logs ADD COLUMN tools_used TEXT DEFAULT '[]';
+        ALTER TABLE sos_logs ADD COLUMN outcome TEXT;
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'sos_grounding_notes',
+    up: async (db) => {
+      await db.execAsync("ALTER TABLE sos_logs ADD COLUMN grounding_notes TEXT DEFAULT '[]'");
+    },
+  },
+  {
+    version: 5,
+    name: 'urge_ratings',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS urge_ratings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          sos_log_id INTEGER NOT NULL,
+          minute INTEGER NOT NULL,
+          intensity INTEGER NOT NULL,
+          recorded_at TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_urge_ratings_sos_log ON urge_ratings(sos_log_id);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'personal_reasons',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE user_reasons ADD COLUMN is_custom BOOLEAN DEFAULT 0;
+        ALTER TABLE users ADD COLUMN why_note TEXT;
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'sos_outreach',
+    up: async (db) => {
+      await db.execAsync("ALTER TABLE sos_logs ADD COLUMN outreach TEXT DEFAULT '[]'");
+    },
+  },
+  {
+    // Older builds "removed" the support person by saving empty strings
+    version: 8,
+    name: 'support_contacts',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE support_persons ADD COLUMN role TEXT DEFAULT 'friend';
+        ALTER TABLE support_persons ADD COLUMN priority INTEGER DEFAULT 0;
+        ALTER TABLE support_persons ADD COLUMN notes TEXT;
+        ALTER TABLE support_persons ADD COLUMN available_from TEXT;
+        ALTER TABLE support_persons ADD COLUMN available_until TEXT;
+        DELETE FROM support_persons WHERE TRIM(name) = '' OR TRIM(phone) = '';
+        UPDATE support_persons SET priority = id;
+      `);
+    },
+  },
+  {
+    // resource_id refers to an entry in seeders/resources_seed.json
+    version: 9,
+    name: 'favorite_resources',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS favorite_resources (
+          resource_id TEXT PRIMARY KEY,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    // Attendance keeps the meeting name so history survives deleting a meeting
+    version: 10,
+    name: 'meetings',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS meetings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          fellowship TEXT,
+          day_of_week INTEGER NOT NULL,
+          start_time TEXT NOT NULL,
+          location TEXT,
+          online_url TEXT,
+          notes TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE TABLE IF NOT EXISTS meeting_attendance (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          meeting_id INTEGER,
+          meeting_name TEXT NOT NULL,
+          attended_on TEXT NOT NULL,
+          reflection TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_meeting_attendance_date ON meeting_attendance(attended_on);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'streaks',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS streaks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          started_at TEXT NOT NULL,
+          ended_at TEXT,
+          tracking_mode TEXT NOT NULL DEFAULT 'sober',
+          note TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_streaks_started_at ON streaks(started_at);
+      `);
+
+      // The streak being tracked today becomes the first one in the history
+      await db.execAsync(`
+        INSERT INTO streaks (started_at, tracking_mode)
+        SELECT sober_date, COALESCE(tracking_mode, 'sober') FROM sobriety_data
+        WHERE tracking_sobriety = 1 AND sober_date IS NOT NULL
+        ORDER BY id DESC LIMIT 1;
+      `);
+    },
+  },
+  {
+    // Reducing and paused become real modes. The table is rebuilt so the
+    // mode is checked, and anything unrecognised falls back to sober.
+    version: 12,
+    name: 'tracking_modes',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE sobriety_data_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tracking_sobriety BOOLEAN DEFAULT 0,
+          tracking_mode TEXT NOT NULL DEFAULT 'sober'
+            CHECK (tracking_mode IN ('sober', 'trying', 'reducing', 'paused')),
+          sober_date TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        INSERT INTO sobriety_data_new (id, tracking_sobriety, tracking_mode, sober_date, created_at, updated_at)
+        SELECT
+          id,
+          tracking_sobriety,
+          CASE
+            WHEN tracking_mode IN ('sober', 'trying', 'reducing', 'paused') THEN tracking_mode
+            ELSE 'sober'
+          END,
+          sober_date,
+          created_at,
+          updated_at
+        FROM sobriety_data;
+
+        DROP TABLE sobriety_data;
+        ALTER TABLE sobriety_data_new RENAME TO sobriety_data;
+
+        UPDATE streaks SET tracking_mode = 'sober'
+        WHERE tracking_mode NOT IN ('sober', 'trying', 'reducing');
+      `);
+
+      // Tracking that was switched off after a streak was recorded was a pause
+      await db.execAsync(`
+        UPDATE sobriety_data SET tracking_mode = 'paused'
+        WHERE tracking_sobriety = 0 AND EXISTS (SELECT 1 FROM streaks);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'consumption_log',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS consumption_entries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          consumed_at TEXT NOT NULL,
+          substance TEXT NOT NULL,
+          amount REAL NOT NULL,
+          unit TEXT NOT NULL,
+          context TEXT,
+          who_with TEXT,
+          craving INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_consumption_entries_consumed_at ON consumption_entries(consumed_at);
+      `);
+    },
+  },
+  {
+    // The single sobriety_data row becomes the first of any number of named
+    // trackers, and each streak belongs to one of them
+    version: 14,
+    name: 'trackers',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS trackers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          tracking_sobriety BOOLEAN DEFAULT 0,
+          tracking_mode TEXT NOT NULL DEFAULT 'sober'
+            CHECK (tracking_mode IN ('sober', 'trying', 'reducing', 'paused')),
+          sober_date TEXT,
+          is_primary BOOLEAN DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        INSERT INTO trackers (id, name, tracking_sobriety, tracking_mode, sober_date, is_primary, created_at, updated_at)
+        SELECT id, 'Sobriety', tracking_sobriety, tracking_mode, sober_date, 1, created_at, updated_at
+        FROM sobriety_data
+        ORDER BY id DESC LIMIT 1;
+
+        DROP TABLE sobriety_data;
+
+        ALTER TABLE streaks ADD COLUMN tracker_id INTEGER;
+        UPDATE streaks SET tracker_id = (SELECT id FROM trackers LIMIT 1);
+        CREATE INDEX IF NOT EXISTS idx_streaks_tracker_id ON streaks(tracker_id);
+      `);
+
+      // Streaks recorded before any tracker row existed still need one
+      await db.execAsync(`
+        INSERT INTO trackers (name, tracking_sobriety, tracking_mode, is_primary)
+        SELECT 'Sobriety', 0, 'paused', 1
+        WHERE NOT EXISTS (SELECT 1 FROM trackers) AND EXISTS (SELECT 1 FROM streaks);
+
+        UPDATE streaks SET tracker_id = (SELECT id FROM trackers LIMIT 1)
+        WHERE tracker_id IS NULL;
+      `);
+    },
+  },
+  {
+    // Money is stored in minor units (cents, pence) of the currency it was
+    // entered in, so amounts never pick up floating point error
+    version: 15,
+    name: 'tracker_savings',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE trackers ADD COLUMN currency TEXT;
+        ALTER TABLE trackers ADD COLUMN spend_minor INTEGER;
+        ALTER TABLE trackers ADD COLUMN spend_period TEXT CHECK (spend_period IN ('day', 'week'));
+        ALTER TABLE trackers ADD COLUMN minutes_per_occasion INTEGER;
+        ALTER TABLE trackers ADD COLUMN occasions_per_week INTEGER;
+        ALTER TABLE trackers ADD COLUMN savings_goal_name TEXT;
+        ALTER TABLE trackers ADD COLUMN savings_goal_minor INTEGER;
+      `);
+    },
+  },
+  {
+    // Milestones the user adds for a tracker, and a record of every
+    // milestone celebrated with the sober date it was counted from
+    version: 16,
+    name: 'milestones',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS custom_milestones (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tracker_id INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          date_key TEXT NOT NULL,
+          message TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_custom_milestones_tracker_id ON custom_milestones(tracker_id);
+
+        CREATE TABLE IF NOT EXISTS milestone_celebrations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tracker_id INTEGER NOT NULL,
+          sober_date TEXT NOT NULL,
+          milestone_id TEXT NOT NULL,
+          label TEXT NOT NULL,
+          date_key TEXT NOT NULL,
+          celebrated_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_milestone_celebrations_tracker_id ON milestone_celebrations(tracker_id);
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: 'consumption_trackers',
+    up: async (db) => {
+      // Entries logged before this belong to the primary tracker
+      await db.execAsync(`
+        ALTER TABLE consumption_entries ADD COLUMN tracker_id INTEGER;
+        UPDATE consumption_entries SET tracker_id = (
+          SELECT id FROM trackers ORDER BY is_primary DESC, id ASC LIMIT 1
+        );
+        CREATE INDEX IF NOT EXISTS idx_consumption_entries_tracker_id ON consumption_entries(tracker_id);
+      `);
+    },
+  },
+  {
+    version: 18,
+    name: 'consumption_limits',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE trackers ADD COLUMN consumption_unit TEXT;
+        ALTER TABLE trackers ADD COLUMN daily_limit REAL;
+        ALTER TABLE trackers ADD COLUMN weekly_limit REAL;
+      `);
+    },
+  },
+];
+
+export const getSchemaVersion = async (db: SQLiteDatabase): Promise<number> => {
+  const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return result?.user_version ?? 0;
+};
+
+// Apply every migration newer than the database's current version.
+// Returns the version the database ended up at.
+export const runMigrations = async (
+  db: SQLiteDatabase,
+  migrations: Migration[] = MIGRATIONS
+): Promise<number> => {
+  const ordered = [...migrations].sort((a, b) => a.version - b.version);
+  let currentVersion = await getSchemaVersion(db);
+
+  for (const migration of ordered) {
+    if (migration.version <= currentVersion) continue;
+
+    try {
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        // PRAGMA does not accept bound parameters
+        await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+    } catch (error) {
+      throw new MigrationError(migration, error);
+    }
+
+    currentVersion = migration.version;
+  }
+
+  return currentVersion;
+};
@@ -0,0 +1,290 @@
+// Milestones
+// Works out every milestone date from a sober date so they can be scheduled
+// ahead of time, and decides which one to celebrate when the app is opened.
+// Early milestones count exact hours, later ones calendar days and months,
+// then every hundred days and yearly anniversaries, plus any the user adds.
+// Dates are days on the home calendar.
+import { fromHomeTime, getNow, toDateKey, toHomeTime } from './clock';
+import { CustomMilestone, MilestoneCelebrationInput, MilestoneCelebrationRecord } from './database';
+import { addDays, addDaysToKey, addMonths, addYears, calendarDaysBetween, formatDateKey, startOfDay } from './dateMath';
+import { getMilestoneMessage, MILESTONE_DAYS } from './safeTracking';
+
+export type MilestoneKind = 'hours' | 'days' | 'months' | 'hundred_days' | 'anniversary' | 'custom';
+
+export interface Milestone {
+  // Unique for a sober date, e.g. 'hours-24', 'days-7', 'months-3', 'custom-3'
+  id: string;
+  kind: MilestoneKind;
+  // Days since the sober date, counted by calendar day
+  days: number;
+  // Home calendar date as YYYY-MM-DD
+  dateKey: string;
+  // The exact moment for hour milestones; the rest are reached when their
+  // day starts
+  at?: string;
+  label: string;
+  message: string;
+}
+
+// The last milestone the user has seen celebrated, tied to the sober date it
+// was counted from so starting over celebrates from the beginning again.
+// Worked out from the celebration history; records from before milestone ids
+// only have the date.
+export interface CelebratedMilestone {
+  soberDate: string;
+  dateKey: string;
+  milestoneId?: string;
+}
+
+export interface MilestoneCelebration {
+  milestone: Milestone;
+  // True when the milestone passed on an earlier day while the app was closed
+  missed: boolean;
+}
+
+// What the add milestone form holds while the user is typing
+export interface CustomMilestoneDraft {
+  title: string;
+  dateKey: string;
+  message: string;
+}
+
+export const HOUR_MILESTONES = [24, 72];
+export const MAX_MILESTONE_TITLE_LENGTH = 40;
+export const MAX_MILESTONE_MESSAGE_LENGTH = 200;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MAX_ANNIVERSARY_YEARS = 50;
+const HUNDRED_DAYS = 100;
+// MILESTONE_DAYS counts months as 30 days; those fall on calendar months
+const DAYS_PER_MONTH_MILESTONE = 30;
+
+const formatDayCount = (days: number) => {
+  if (days % 7 === 0) return days === 7 ? '1 week' : `${days / 7} weeks`;
+  return days === 1 ? '1 day' : `${days} days`;
+};
+
+const formatMonthCount = (months: number) => (months === 1 ? '1 month' : `${months} months`);
+
+const getAnniversaryMessage = (years: number) =>
+  years === 1
+    ? getMilestoneMessage(365)
+    : `🏅 ${years} years! Every one of those days was a choice you made.`;
+
+const getHundredDaysMessage = (days: number) =>
+  `💯 ${days.toLocaleString()} days! Another hundred, one day at a time.`;
+
+// Hours as the day count they replace, e.g. 24 hours stands in for day 1
+const HOUR_MILESTONE_DAYS = HOUR_MILESTONES.map(hours => hours / 24);
+
+// Parses YYYY-MM-DD into a local date, or null if it isn't a real date
+export const parseDateKey = (dateKey: string): Date | null => {
+  const match = dateKey.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+const toCustomMilestone = (start: Date, custom: CustomMilestone): Milestone | null => {
+  const date = parseDateKey(custom.date_key);
+  if (!date || date < start) return null;
+  return {
+    id: `custom-${custom.id}`,
+    kind: 'custom',
+    days: calendarDaysBetween(start, date),
+    dateKey: custom.date_key,
+    label: custom.title,
+    message: custom.message || `🎉 ${custom.title}!`,
+  };
+};
+
+// Every milestone for a sober date in the order they happen. Custom
+// milestones dated before the sober date are left out.
+export const getMilestones = (soberDate: string, customMilestones: CustomMilestone[] = []): Milestone[] => {
+  const soberAt = new Date(soberDate);
+  const start = startOfDay(toHomeTime(soberAt));
+
+  const hourMilestones: Milestone[] = HOUR_MILESTONES.map(hours => {
+    const at = new Date(soberAt.getTime() + hours * MS_PER_HOUR);
+    return {
+      id: `hours-${hours}`,
+      kind: 'hours',
+      days: calendarDaysBetween(start, toHomeTime(at)),
+      dateKey: toDateKey(at),
+      at: at.toISOString(),
+      label: `${hours} hours`,
+      message: getMilestoneMessage(hours / 24),
+    };
+  });
+
+  const dayMilestones: Milestone[] = MILESTONE_DAYS
+    .filter(days => days < 365 && !HOUR_MILESTONE_DAYS.includes(days))
+    .map((days): Milestone => {
+      if (days % DAYS_PER_MONTH_MILESTONE === 0) {
+        const months = days / DAYS_PER_MONTH_MILESTONE;
+        const date = addMonths(start, months);
+        return {
+          id: `months-${months}`,
+          kind: 'months',
+          days: calendarDaysBetween(start, date),
+          dateKey: formatDateKey(date),
+          label: formatMonthCount(months),
+          message: getMilestoneMessage(days),
+        };
+      }
+      return {
+        id: `days-${days}`,
+        kind: 'days',
+        days,
+        dateKey: formatDateKey(addDays(start, days)),
+        label: formatDayCount(days),
+        message: getMilestoneMessage(days),
+      };
+    });
+
+  const lastDay = calendarDaysBetween(start, addYears(start, MAX_ANNIVERSARY_YEARS));
+  const hundredDays: Milestone[] = Array.from({ length: Math.floor(lastDay / HUNDRED_DAYS) }, (_, index) => {
+    const days = (index + 1) * HUNDRED_DAYS;
+    return {
+      id: `hundred-days-${days}`,
+      kind: 'hundred_days',
+      days,
+      dateKey: formatDateKey(addDays(start, days)),
+      label: `${days.toLocaleString()} days`,
+      message: getHundredDaysMessage(days),
+    };
+  });
+
+  const anniversaries: Milestone[] = Array.from({ length: MAX_ANNIVERSARY_YEARS }, (_, index) => {
+    const years = index + 1;
+    // Feb 29 anniversaries fall on Feb 28 in other years
+    const date = addYears(start, years);
+    return {
+      id: `years-${years}`,
+      kind: 'anniversary',
+      days: calendarDaysBetween(start, date),
+      dateKey: formatDateKey(date),
+      label: years === 1 ? '1 year' : `${years} years`,
+      message: getAnniversaryMessage(years),
+    };
+  });
+
+  const custom = customMilestones
+    .map(milestone => toCustomMilestone(start, milestone))
+    .filter((milestone): milestone is Milestone => milestone !== null);
+
+  // Sorting is stable, so on a shared day built-in milestones come first
+  return [...hourMilestones, ...dayMilestones, ...hundredDays, ...anniversaries, ...custom]
+    .sort((a, b) => (a.dateKey < b.dateKey ? -1 : a.dateKey > b.dateKey ? 1 : 0));
+};
+
+export const isMilestoneReached = (milestone: Milestone, now: Date = getNow()): boolean =>
+  milestone.at ? new Date(milestone.at) <= now : milestone.dateKey <= toDateKey(now);
+
+// Milestones that haven't happened yet, soonest first
+export const getUpcomingMilestones = (
+  soberDate: string,
+  now: Date = getNow(),
+  limit?: number,
+  customMilestones: CustomMilestone[] = []
+): Milestone[] => {
+  const upcoming = getMilestones(soberDate, customMilestones).filter(milestone => !isMilestoneReached(milestone, now));
+  return limit === undefined ? upcoming : upcoming.slice(0, limit);
+};
+
+// The most recent milestone reached by now
+export const getLatestMilestone = (
+  soberDate: string,
+  now: Date = getNow(),
+  customMilestones: CustomMilestone[] = []
+): Milestone | null => {
+  const reached = getMilestones(soberDate, customMilestones).filter(milestone => isMilestoneReached(milestone, now));
+  return reached[reached.length - 1] ?? null;
+};
+
+// The latest milestone reached, if it hasn't been celebrated yet. Without a
+// record for this sober date only today's milestone counts, so existing users
+// and newly backdated dates aren't greeted with one from months ago.
+export const getMilestoneToCelebrate = (
+  soberDate: string,
+  lastCelebrated: CelebratedMilestone | null,
+  now: Date = getNow(),
+  customMilestones: CustomMilestone[] = []
+): MilestoneCelebration | null => {
+  const latest = getLatestMilestone(soberDate, now, customMilestones);
+  if (!latest) return null;
+
+  const todayKey = toDateKey(now);
+  const celebrated = lastCelebrated?.soberDate === soberDate ? lastCelebrated : null;
+  if (!celebrated) {
+    return latest.dateKey === todayKey ? { milestone: latest, missed: false } : null;
+  }
+
+  // A second milestone on a day already celebrated, e.g. one added later
+  const isNewOnSameDay = latest.dateKey === celebrated.dateKey &&
+    !!celebrated.milestoneId && latest.id !== celebrated.milestoneId;
+  if (latest.dateKey < celebrated.dateKey || (latest.dateKey === celebrated.dateKey && !isNewOnSameDay)) return null;
+
+  return { milestone: latest, missed: latest.dateKey !== todayKey };
+};
+
+// The most recent celebration for this sober date. Two milestones on the same
+// day go by which was celebrated last.
+export const getLastCelebrated = (
+  soberDate: string,
+  celebrations: MilestoneCelebrationRecord[]
+): CelebratedMilestone | null => {
+  const last = celebrations
+    .filter(celebration => celebration.sober_date === soberDate)
+    .reduce<MilestoneCelebrationRecord | null>((latest, celebration) => {
+      if (!latest) return celebration;
+      if (celebration.date_key !== latest.date_key) return celebration.date_key > latest.date_key ? celebration : latest;
+      return celebration.celebrated_at > latest.celebrated_at ? celebration : latest;
+    }, null);
+  return last ? { soberDate, dateKey: last.date_key, milestoneId: last.milestone_id } : null;
+};
+
+// A history row for a record kept in AsyncStorage before celebrations were
+// saved in the database. The real time it was shown is unknown, so it counts
+// as celebrated when the milestone was reached. Null if the milestone can't be
+// found any more, e.g. a custom one that was deleted.
+export const toMilestoneCelebration = (
+  trackerId: number,
+  celebrated: CelebratedMilestone,
+  customMilestones: CustomMilestone[] = []
+): MilestoneCelebrationInput | null => {
+  const milestone = getMilestones(celebrated.soberDate, customMilestones)
+    .filter(candidate => celebrated.milestoneId
+      ? candidate.id === celebrated.milestoneId
+      : candidate.dateKey === celebrated.dateKey)
+    .pop();
+  const day = milestone && parseDateKey(milestone.dateKey);
+  if (!milestone || !day) return null;
+
+  return {
+    tracker_id: trackerId,
+    sober_date: celebrated.soberDate,
+    milestone_id: milestone.id,
+    label: milestone.label,
+    date_key: milestone.dateKey,
+    celebrated_at: milestone.at ?? fromHomeTime(day).toISOString(),
+  };
+};
+
+export const createCustomMilestoneDraft = (now: Date = getNow()): CustomMilestoneDraft => ({
+  title: '',
+  dateKey: addDaysToKey(toDateKey(now), 1),
+  message: '',
+});
+
+// Returns an error message, or null if the milestone can be saved
+export const validateCustomMilestoneDraft = (draft: CustomMilestoneDraft, soberDate: string): string | null => {
+  if (!draft.title.trim()) return 'Please give this milestone a name, like "First sober birthday".';
+
+  const date = parseDateKey(draft.dateKey);
+  if (!date) return 'Please enter the date as YYYY-MM-DD, like 2025-12-25.';
+  if (date < startOfDay(toHomeTime(new Date(soberDate)))) return 'Please pick a date on or after your sober date.';
+
+  return null;
+};
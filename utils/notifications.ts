@@ -0,0 +1,243 @@
+// Notifications
+// Schedules the daily reminders and upcoming milestones as on-device local
+// notifications and routes taps on them to the right screen. Nothing is sent
+// to a server.
+import * as Notifications from 'expo-notifications';
+import { Href } from 'expo-router';
+import { Platform } from 'react-native';
+import { fromHomeTime, getNow, toHomeTime } from './clock';
+import { CustomMilestone, database, Tracker } from './database';
+import { getUpcomingMilestones, Milestone } from './milestones';
+import {
+  getDeliveryTime,
+  MILESTONE_NOTIFICATION_TIME,
+  REMINDERS,
+  ReminderId,
+  ReminderSettings,
+} from './reminders';
+import { storage } from './storage';
+import { getCountingTrackers } from './trackers';
+
+const REMINDER_CHANNEL_ID = 'reminders';
+const MILESTONE_ROUTE = '/(tabs)/sobriety';
+// The only screens a tapped notification may open
+const NOTIFICATION_ROUTES: Href[] = [...Object.values(REMINDERS).map(reminder => reminder.route), MILESTONE_ROUTE];
+const MILESTONE_PREFIX = 'milestone-';
+// Only the next few per tracker are scheduled; the rest are added as these
+// pass and the app is reopened. iOS keeps at most 64 pending notifications
+// per app.
+const MAX_SCHEDULED_MILESTONES = 4;
+
+const reminderIdentifier = (id: ReminderId) => `reminder-${id}`;
+
+// Show reminders even when the app is open
+export const configureNotificationHandler = () => {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+};
+
+// Asks the first time only; returns whether notifications are allowed
+export const ensureNotificationPermission = async (): Promise<boolean> => {
+  try {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  } catch (error) {
+    // console.error('Error requesting notification permission:', error);
+    return false;
+  }
+};
+
+const ensureReminderChannel = async () => {
+  if (Platform.OS !== 'android') return;
+  await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+    name: 'Reminders',
+    importance: Notifications.AndroidImportance.DEFAULT,
+  });
+};
+
+const toTimeParts = (time: string) => time.split(':').map(Number);
+
+const cancelMilestoneNotifications = async () => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  for (const notification of scheduled) {
+    if (notification.identifier.startsWith(MILESTONE_PREFIX)) {
+      await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+    }
+  }
+};
+
+// Hour milestones arrive at the moment they're reached, unless that's in
+// quiet hours, when they wait until quiet hours end. Quiet hours are home time.
+const getHourMilestoneDate = (at: Date, settings: ReminderSettings) => {
+  const home = toHomeTime(at);
+  const time = `${String(home.getHours()).padStart(2, '0')}:${String(home.getMinutes()).padStart(2, '0')}`;
+  const deliveryTime = getDeliveryTime(time, settings.quietHours);
+  if (deliveryTime === time) return at;
+
+  const [hour, minute] = toTimeParts(deliveryTime);
+  const date = new Date(home.getFullYear(), home.getMonth(), home.getDate(), hour, minute);
+  if (date < home) date.setDate(date.getDate() + 1);
+  return fromHomeTime(date);
+};
+
+const scheduleMilestoneNotifications = async (
+  tracker: Tracker,
+  customMilestones: CustomMilestone[],
+  settings: ReminderSettings,
+  showName: boolean
+) => {
+  const now = getNow();
+  const [hour, minute] = toTimeParts(getDeliveryTime(MILESTONE_NOTIFICATION_TIME, settings.quietHours));
+  // With more than one tracker, say which one the milestone is for
+  const label = (milestone: Milestone) => showName ? `${milestone.label} (${tracker.name})` : milestone.label;
+
+  for (const milestone of getUpcomingMilestones(tracker.sober_date!, now, MAX_SCHEDULED_MILESTONES, customMilestones)) {
+    // Date keys are home calendar days, so these are home time too
+    const [year, month, day] = milestone.dateKey.split('-').map(Number);
+    const notifications = [
+      {
+        identifier: `${MILESTONE_PREFIX}${tracker.id}-${milestone.id}-eve`,
+        date: fromHomeTime(new Date(year, month - 1, day - 1, hour, minute)),
+        title: `Tomorrow: ${label(milestone)}`,
+        body: `You're one day away from ${label(milestone)}. Keep going, you've got this.`,
+      },
+      {
+        identifier: `${MILESTONE_PREFIX}${tracker.id}-${milestone.id}`,
+        date: milestone.at
+          ? getHourMilestoneDate(new Date(milestone.at), settings)
+          : fromHomeTime(new Date(year, month - 1, day, hour, minute)),
+        title: milestone.at ? `${label(milestone)}!` : `${label(milestone)} today!`,
+        body: milestone.message,
+      },
+    ];
+
+    for (const notification of notifications) {
+      if (notification.date <= now) continue;
+
+      await Notifications.scheduleNotificationAsync({
+        identifier: notification.identifier,
+        content: {
+          title: notification.title,
+          body: notification.body,
+          data: { url: MILESTONE_ROUTE },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: notification.date,
+          channelId: REMINDER_CHANNEL_ID,
+        },
+      });
+    }
+  }
+};
+
+// Replaces whatever reminders and milestones were scheduled before with the
+// given settings. Returns false if any are on but notifications aren't allowed.
+export const applyReminderSettings = async (settings: ReminderSettings): Promise<boolean> => {
+  const ids = Object.keys(REMINDERS) as ReminderId[];
+  const enabledIds = ids.filter(id => settings.reminders[id].enabled);
+
+  for (const id of ids) {
+    await Notifications.cancelScheduledNotificationAsync(reminderIdentifier(id));
+  }
+  await cancelMilestoneNotifications();
+
+  const trackers = settings.milestones ? getCountingTrackers(await database.getTrackers()) : [];
+
+  if (enabledIds.length === 0 && trackers.length === 0) return true;
+  if (!(await ensureNotificationPermission())) return false;
+
+  await ensureReminderChannel();
+
+  for (const id of enabledIds) {
+    const reminder = REMINDERS[id];
+    const [hour, minute] = toTimeParts(getDeliveryTime(settings.reminders[id].time, settings.quietHours));
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminderIdentifier(id),
+      content: {
+        title: reminder.title,
+        body: reminder.body,
+        data: { url: reminder.route },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DAILY,
+        hour,
+        minute,
+        channelId: REMINDER_CHANNEL_ID,
+      },
+    });
+  }
+
+  const customMilestones = trackers.length > 0 ? await database.getCustomMilestones() : [];
+  for (const tracker of trackers) {
+    await scheduleMilestoneNotifications(
+      tracker,
+      customMilestones.filter(milestone => milestone.tracker_id === tracker.id),
+      settings,
+      trackers.length > 1
+    );
+  }
+
+  return true;
+};
+
+// Reschedules from the saved settings, e.g. after the sober date changes or
+// when the app opens and the next milestones need adding
+export const refreshScheduledNotifications = async () => {
+  try {
+    await applyReminderSettings(await storage.getReminderSettings());
+  } catch (error) {
+    // console.error('Error refreshing notifications:', error);
+  }
+};
+
+// The known screen a notification's url points to, or null for anything else
+export const toNotificationRoute = (url: unknown): Href | null =>
+  NOTIFICATION_ROUTES.find(route => route === url) ?? null;
+
+// Each tap is handled once, even if the app subscribes again
+let lastHandledTap: string | null = null;
+
+// Calls onOpen with the screen a tapped notification points to, including the
+// tap that launched the app. Taps pointing anywhere else are dropped. Returns
+// an unsubscribe function.
+export const subscribeToNotificationTaps = (onOpen: (route: Href) => void) => {
+  let isActive = true;
+
+  const openFrom = (notification: Notifications.Notification) => {
+    const tap = `${notification.request.identifier}-${notification.date}`;
+    if (tap === lastHandledTap) return;
+    lastHandledTap = tap;
+
+    const route = toNotificationRoute(notification.request.content.data?.url);
+    if (route) onOpen(route);
+  };
+
+  Notifications.getLastNotificationResponseAsync()
+    .then(response => {
+      if (isActive && response?.notification) openFrom(response.notification);
+    })
+    .catch(() => {
+      // No launch notification to handle
+    });
+
+  const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+    openFrom(response.notification);
+  });
+
+  return () => {
+    isActive = false;
+    subscription.remove();
+  };
+};
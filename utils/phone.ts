@@ -0,0 +1,188 @@
+// Phone Numbers
+// Parses, validates and formats phone numbers, stores them as E.164
+// (e.g. +14155550123), and opens the dialer or messaging app for them.
+import { Alert, Linking, Platform } from 'react-native';
+import { COUNTRIES, Country, CountryCode, DEFAULT_COUNTRY } from './countries';
+
+export const SUPPORT_TEXT_MESSAGE = "I'm having a hard moment, can you talk?";
+
+export interface ParsedPhoneNumber {
+  e164: string;
+  // Undefined when the calling code isn't one we have rules for
+  country?: CountryCode;
+  // Digits after the calling code (all digits when the country is unknown)
+  nationalNumber: string;
+}
+
+// E.164 allows at most 15 digits including the calling code
+const MIN_INTERNATIONAL_LENGTH = 8;
+const MAX_INTERNATIONAL_LENGTH = 15;
+
+const findCountryByCallingCode = (digits: string, preferred: CountryCode): Country | undefined => {
+  // Calling codes are prefix-free, so the first length that matches is the right one
+  for (const length of [1, 2, 3]) {
+    const callingCode = digits.slice(0, length);
+    const matches = Object.values(COUNTRIES).filter(country => country.phone.callingCode === callingCode);
+    if (matches.length > 0) {
+      // +1 is shared by the US and Canada; stick with the user's own country when it fits
+      return matches.find(country => country.code === preferred) || matches[0];
+    }
+  }
+  return undefined;
+};
+
+const isValidNationalNumber = (country: Country, national: string) => {
+  if (!country.phone.nationalLengths.includes(national.length)) return false;
+  // North American area codes and exchanges never start with 0 or 1
+  if (country.phone.callingCode === '1') return /^[2-9]\d{2}[2-9]/.test(national);
+  return true;
+};
+
+const stripTrunkPrefix = (country: Country, digits: string) => {
+  const trunk = country.phone.trunkPrefix;
+  if (trunk && digits.startsWith(trunk) && isValidNationalNumber(country, digits.slice(trunk.length))) {
+    return digits.slice(trunk.length);
+  }
+  return digits;
+};
+
+const toParsed = (country: Country, national: string): ParsedPhoneNumber | null =>
+  isValidNationalNumber(country, national)
+    ? { e164: `+${country.phone.callingCode}${national}`, country: country.code, nationalNumber: national }
+    : null;
+
+// Accepts national numbers for the default country, or international numbers
+// written with +, 00, or 011 (from North America). Returns null if invalid.
+export const parsePhoneNumber = (
+  input: string,
+  defaultCountry: CountryCode = DEFAULT_COUNTRY
+): ParsedPhoneNumber | null => {
+  const trimmed = input.trim();
+  // Digits and the usual separators only; + is only allowed at the start
+  if (!/^\+?[\d\s().\-/]+$/.test(trimmed)) return null;
+
+  const digits = trimmed.replace(/\D/g, '');
+  if (!digits) return null;
+
+  const home = COUNTRIES[defaultCountry] || COUNTRIES[DEFAULT_COUNTRY];
+
+  let international: string | null = null;
+  if (trimmed.startsWith('+')) {
+    international = digits;
+  } else if (digits.startsWith('00')) {
+    international = digits.slice(2);
+  } else if (home.phone.callingCode === '1' && digits.startsWith('011')) {
+    international = digits.slice(3);
+  }
+
+  if (international === null) {
+    return toParsed(home, stripTrunkPrefix(home, digits));
+  }
+
+  const country = findCountryByCallingCode(international, home.code);
+  if (!country) {
+    const fitsE164 = international.length >= MIN_INTERNATIONAL_LENGTH &&
+      international.length <= MAX_INTERNATIONAL_LENGTH &&
+      !international.startsWith('0');
+    return fitsE164 ? { e164: `+${international}`, nationalNumber: international } : null;
+  }
+
+  // People often write "+44 (0)20 ..." so drop a stray trunk prefix here too
+  const national = stripTrunkPrefix(country, international.slice(country.phone.callingCode.length));
+  return toParsed(country, national);
+};
+
+export const isValidPhoneNumber = (input: string, defaultCountry?: CountryCode) =>
+  parsePhoneNumber(input, defaultCountry) !== null;
+
+export const normalizePhoneNumber = (input: string, defaultCountry?: CountryCode): string | null =>
+  parsePhoneNumber(input, defaultCountry)?.e164 ?? null;
+
+const groupDigits = (digits: string, groups: number[]) => {
+  const parts: string[] = [];
+  let index = 0;
+  groups.forEach((size, i) => {
+    if (index >= digits.length) return;
+    const end = i === groups.length - 1 ? digits.length : index + size;
+    parts.push(digits.slice(index, end));
+    index = end;
+  });
+  return parts.join(' ');
+};
+
+// Numbers from the user's own country are shown the way they'd dial them;
+// anything else is shown in international form. Unparseable input is returned as-is.
+export const formatPhoneNumber = (value: string, defaultCountry: CountryCode = DEFAULT_COUNTRY): string => {
+  const parsed = parsePhoneNumber(value, defaultCountry);
+  if (!parsed) return value;
+  if (!parsed.country) return parsed.e164;
+
+  const { phone } = COUNTRIES[parsed.country];
+  const national = parsed.nationalNumber;
+  const home = COUNTRIES[defaultCountry] || COUNTRIES[DEFAULT_COUNTRY];
+
+  if (phone.callingCode !== home.phone.callingCode) {
+    return `+${phone.callingCode} ${groupDigits(national, phone.groups)}`;
+  }
+  if (phone.callingCode === '1') {
+    return `(${national.slice(0, 3)}) ${national.slice(3, 6)}-${national.slice(6)}`;
+  }
+  return `${phone.trunkPrefix || ''}${groupDigits(national, phone.groups)}`;
+};
+
+// Falls back to the raw digits for numbers saved before validation existed
+const toDialable = (phone: string, defaultCountry?: CountryCode) =>
+  normalizePhoneNumber(phone, defaultCountry) ?? phone.replace(/[^\d+]/g, '');
+
+export const buildCallUrl = (phone: string, defaultCountry?: CountryCode) =>
+  `tel:${toDialable(phone, defaultCountry)}`;
+
+// Short and toll-free service numbers like 988 or 116 123 only connect when
+// dialled as written locally, so only the spacing is dropped
+export const buildLocalCallUrl = (phone: string) =>
+  `tel:${phone.replace(/[^\d+]/g, '')}`;
+
+// iOS expects the body after '&', Android after '?'
+export const buildTextUrl = (phone: string, body?: string, defaultCountry?: CountryCode) => {
+  const url = `sms:${toDialable(phone, defaultCountry)}`;
+  if (!body) return url;
+  const separator = Platform.OS === 'ios' ? '&' : '?';
+  return `${url}${separator}body=${encodeURIComponent(body)}`;
+};
+
+const openPhoneUrl = async (url: string, unsupportedMessage: string, failedMessage: string): Promise<boolean> => {
+  try {
+    const supported = await Linking.canOpenURL(url);
+    if (!supported) {
+      Alert.alert('Error', unsupportedMessage);
+      return false;
+    }
+    await Linking.openURL(url);
+    return true;
+  } catch (error) {
+    // console.error('Error opening phone link:', error);
+    Alert.alert('Error', failedMessage);
+    return false;
+  }
+};
+
+export const callPhoneNumber = (phone: string, defaultCountry?: CountryCode) =>
+  openPhoneUrl(
+    buildCallUrl(phone, defaultCountry),
+    'Unable to make phone calls on this device.',
+    'Failed to open phone app. Please try again.'
+  );
+
+export const callLocalNumber = (phone: string) =>
+  openPhoneUrl(
+    buildLocalCallUrl(phone),
+    'Unable to make phone calls on this device.',
+    'Failed to open phone app. Please try again.'
+  );
+
+export const textPhoneNumber = (phone: string, body?: string, defaultCountry?: CountryCode) =>
+  openPhoneUrl(
+    buildTextUrl(phone, body, defaultCountry),
+    'Unable to send text messages on this device.',
+    'Failed to open messages. Please try again.'
+  );
@@ -0,0 +1,24 @@
+// Personal Reasons
+// The reasons a user picks (or writes) during onboarding, shown back to them
+// during SOS sessions.
+
+export const PRESET_REASONS = [
+  'Staying sober',
+  'Cutting back',
+  'Building better habits',
+  'Finding calm',
+  'Just exploring',
+];
+
+export const MAX_REASON_LENGTH = 120;
+export const MAX_WHY_NOTE_LENGTH = 500;
+
+// How long each reason stays on screen during SOS, in milliseconds
+export const REASON_ROTATION_INTERVAL = 8000;
+
+// The "why" note leads because it's the user's own words at length
+export const buildReasonReminders = (reasons: string[], whyNote?: string | null): string[] => {
+  const reminders = reasons.map(reason => reason.trim()).filter(Boolean);
+  const note = whyNote?.trim();
+  return note ? [note, ...reminders] : reminders;
+};
@@ -0,0 +1,102 @@
+// Recovery Timeline
+// What tends to happen to the body and mind after quitting, per substance,
+// bundled with the app from seeders/recovery_timeline_seed.json so it works
+// offline. Every marker cites at least one source from the same file.
+import { Tracker } from './database';
+import { DEFAULT_TRACKER_NAME } from './trackers';
+
+export type RecoverySubstanceId = 'alcohol' | 'nicotine' | 'cannabis';
+
+export interface RecoverySource {
+  title: string;
+  // Organisation, or authors and journal
+  publisher: string;
+  year: number;
+  url?: string;
+}
+
+export interface RecoveryMarker {
+  // Days since the sober date, counted by calendar day
+  days: number;
+  title: string;
+  description: string;
+  // Keys into RecoveryTimelineSeed.sources
+  sources: string[];
+}
+
+export interface RecoverySubstance {
+  id: RecoverySubstanceId;
+  // Lower case, for "after quitting alcohol"
+  label: string;
+  // Words in a tracker's name that mean this substance
+  matches: string[];
+  // Sorted by days
+  markers: RecoveryMarker[];
+}
+
+export interface RecoveryTimelineSeed {
+  sources: Record<string, RecoverySource>;
+  substances: RecoverySubstance[];
+}
+
+export interface RecoveryProgress {
+  passed: RecoveryMarker[];
+  next: RecoveryMarker | null;
+  daysUntilNext: number | null;
+}
+
+export const RECOVERY_TIMELINE: RecoveryTimelineSeed = require('../seeders/recovery_timeline_seed.json');
+
+// The app's default tracker is for drinking
+const DEFAULT_SUBSTANCE: RecoverySubstanceId = 'alcohol';
+
+// The substance a tracker is for, from the words in its name. Habits without
+// health markers, like gambling, return null.
+export const getRecoverySubstance = (
+  trackerName: string,
+  timeline: RecoveryTimelineSeed = RECOVERY_TIMELINE
+): RecoverySubstance | null => {
+  const words = trackerName.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  const matched = timeline.substances.find(substance => substance.matches.some(match => words.includes(match)));
+  if (matched) return matched;
+
+  return trackerName.trim().toLowerCase() === DEFAULT_TRACKER_NAME.toLowerCase()
+    ? timeline.substances.find(substance => substance.id === DEFAULT_SUBSTANCE) ?? null
+    : null;
+};
+
+// The timeline for a counting tracker. It assumes stopping completely, so
+// there isn't one while cutting back.
+export const getTrackerRecoverySubstance = (tracker: Tracker): RecoverySubstance | null =>
+  tracker.tracking_sobriety && !!tracker.sober_date && tracker.tracking_mode !== 'reducing'
+    ? getRecoverySubstance(tracker.name)
+    : null;
+
+export const getRecoveryProgress = (substance: RecoverySubstance, days: number): RecoveryProgress => {
+  const passed = substance.markers.filter(marker => marker.days <= days);
+  const next = substance.markers.find(marker => marker.days > days) ?? null;
+  return {
+    passed,
+    next,
+    daysUntilNext: next ? next.days - Math.max(days, 0) : null,
+  };
+};
+
+export const getMarkerSources = (
+  marker: RecoveryMarker,
+  timeline: RecoveryTimelineSeed = RECOVERY_TIMELINE
+): RecoverySource[] =>
+  marker.sources.map(id => timeline.sources[id]).filter((source): source is RecoverySource => !!source);
+
+export const formatSourceCitation = (source: RecoverySource): string =>
+  `${source.publisher} (${source.year}). ${source.title}.`;
+
+// When a marker is reached, e.g. "Day 3", "2 weeks", "5 years"
+export const formatMarkerTime = (days: number): string => {
+  if (days === 1) return '24 hours';
+  if (days < 7) return `Day ${days}`;
+  if (days % 365 === 0) return days === 365 ? '1 year' : `${days / 365} years`;
+  if (days % 30 === 0) return days === 30 ? '1 month' : `${days / 30} months`;
+  if (days % 7 === 0) return days === 7 ? '1 week' : `${days / 7} weeks`;
+  return `Day ${days}`;
+};
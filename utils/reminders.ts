@@ -0,0 +1,105 @@
+// Reminders
+// Which daily reminders exist, their default times, and how quiet hours move
+// them. Scheduling the actual notifications lives in notifications.ts.
+
+export type ReminderId = 'check_in' | 'evening_reflection' | 'intention';
+
+export interface ReminderDefinition {
+  label: string;
+  description: string;
+  title: string;
+  body: string;
+  // Screen to open when the notification is tapped
+  route: '/checkin' | '/journal' | '/intention';
+  defaultTime: string;
+}
+
+export const REMINDERS: Record<ReminderId, ReminderDefinition> = {
+  check_in: {
+    label: 'Daily Check-In',
+    description: 'A nudge to check in with how you are feeling',
+    title: 'Time to check in',
+    body: 'How are you feeling today? Take a minute for your daily check-in.',
+    route: '/checkin',
+    defaultTime: '09:00',
+  },
+  intention: {
+    label: 'Intention',
+    description: 'A prompt to set or revisit your intention',
+    title: 'Set your intention',
+    body: 'What do you want to focus on today?',
+    route: '/intention',
+    defaultTime: '08:00',
+  },
+  evening_reflection: {
+    label: 'Evening Reflection',
+    description: 'A gentle reminder to journal about your day',
+    title: 'Evening reflection',
+    body: 'Take a moment to let your thoughts settle in your journal.',
+    route: '/journal',
+    defaultTime: '20:30',
+  },
+};
+
+export interface ReminderSetting {
+  enabled: boolean;
+  // 'HH:MM', 24-hour
+  time: string;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export interface ReminderSettings {
+  reminders: Record<ReminderId, ReminderSetting>;
+  // Milestone and anniversary notifications, worked out from the sober date
+  milestones: boolean;
+  quietHours: QuietHours;
+}
+
+// Milestone notifications arrive on the day and the morning before
+export const MILESTONE_NOTIFICATION_TIME = '09:00';
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  reminders: {
+    check_in: { enabled: false, time: REMINDERS.check_in.defaultTime },
+    intention: { enabled: false, time: REMINDERS.intention.defaultTime },
+    evening_reflection: { enabled: false, time: REMINDERS.evening_reflection.defaultTime },
+  },
+  milestones: false,
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+};
+
+// Fills in anything missing from settings saved by an older version
+export const withReminderDefaults = (saved: Partial<ReminderSettings> | null | undefined): ReminderSettings => ({
+  reminders: (Object.keys(REMINDERS) as ReminderId[]).reduce((reminders, id) => ({
+    ...reminders,
+    [id]: { ...DEFAULT_REMINDER_SETTINGS.reminders[id], ...saved?.reminders?.[id] },
+  }), {} as Record<ReminderId, ReminderSetting>),
+  milestones: saved?.milestones ?? DEFAULT_REMINDER_SETTINGS.milestones,
+  quietHours: { ...DEFAULT_REMINDER_SETTINGS.quietHours, ...saved?.quietHours },
+});
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// A range like 22:00-07:00 wraps past midnight
+export const isInQuietHours = (time: string, quietHours: QuietHours): boolean => {
+  if (!quietHours.enabled) return false;
+
+  const now = toMinutes(time);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+// Reminders that fall in quiet hours are held until quiet hours end
+export const getDeliveryTime = (time: string, quietHours: QuietHours): string =>
+  isInQuietHours(time, quietHours) ? quietHours.end : time;
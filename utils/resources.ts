@@ -0,0 +1,86 @@
+// Resources
+// Recovery organisations, meeting finders and mental health services, bundled
+// with the app from seeders/resources_seed.json. Favorites live in database.ts.
+import { CountryCode } from './countries';
+
+export type ResourceCategory =
+  | 'support_group'
+  | 'meeting_locator'
+  | 'family'
+  | 'online_meeting'
+  | 'mental_health';
+
+export interface Resource {
+  id: string;
+  category: ResourceCategory;
+  name: string;
+  description: string;
+  url: string;
+  phone?: string;
+  // 'global' resources are shown in every country
+  region: CountryCode | 'global';
+  tags: string[];
+}
+
+export const RESOURCE_CATEGORIES: Record<ResourceCategory, { label: string; icon: string; subtitle: string }> = {
+  support_group: {
+    label: 'Support Groups',
+    icon: '🤝',
+    subtitle: 'Fellowships and programs that many people find helpful in recovery',
+  },
+  meeting_locator: {
+    label: 'Meeting Locators',
+    icon: '📍',
+    subtitle: 'Find local meetings and support groups in your area',
+  },
+  family: {
+    label: 'Family & Friends Support',
+    icon: '👨‍👩‍👧‍👦',
+    subtitle: 'Resources for families and friends supporting someone in recovery',
+  },
+  online_meeting: {
+    label: 'Online/Virtual Meetings',
+    icon: '💻',
+    subtitle: 'Access support from anywhere with virtual meeting options',
+  },
+  mental_health: {
+    label: 'Additional Resources',
+    icon: '📚',
+    subtitle: 'More resources for mental health and substance use support',
+  },
+};
+
+export const RESOURCES: Resource[] = require('../seeders/resources_seed.json');
+
+export interface ResourceFilter {
+  query?: string;
+  category?: ResourceCategory | null;
+  favoriteIds?: string[];
+  favoritesOnly?: boolean;
+}
+
+export const getResourcesForRegion = (country: CountryCode, resources: Resource[] = RESOURCES): Resource[] =>
+  resources.filter(resource => resource.region === 'global' || resource.region === country);
+
+// Every word in the query has to appear in the name, description or tags
+export const filterResources = (resources: Resource[], filter: ResourceFilter): Resource[] => {
+  const words = (filter.query || '').toLowerCase().split(/\s+/).filter(Boolean);
+  const favoriteIds = filter.favoriteIds || [];
+
+  return resources.filter(resource => {
+    if (filter.category && resource.category !== filter.category) return false;
+    if (filter.favoritesOnly && !favoriteIds.includes(resource.id)) return false;
+
+    const haystack = [resource.name, resource.description, ...resource.tags].join(' ').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+};
+
+export const groupResourcesByCategory = (resources: Resource[]) =>
+  (Object.keys(RESOURCE_CATEGORIES) as ResourceCategory[])
+    .map(category => ({ category, resources: resources.filter(resource => resource.category === category) }))
+    .filter(group => group.resources.length > 0);
+
+// 'https://www.aa.org/meeting-finder' -> 'aa.org/meeting-finder'
+export const formatResourceUrl = (url: string) =>
+  url.replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/$/, '');
@@ -1,41 +1,64 @@
 // Safe Tracking Utilities
 // Provides compassionate messaging and safe tracking features
+import { getNow, toHomeTime } from './clock';
+import { addYears, calendarDaysBetween, getCalendarDuration } from './dateMath';
+
+export type TrackingModeId = 'sober' | 'trying' | 'reducing' | 'paused';
+
+// Modes that count days from a start date. Paused keeps the history but
+// stops counting.
+export type CountingTrackingMode = Exclude<TrackingModeId, 'paused'>;
+
+export const TRACKING_MODE_IDS: TrackingModeId[] = ['sober', 'trying', 'reducing', 'paused'];
 
 export interface TrackingMode {
-  mode: 'sober' | 'trying' | 'reducing' | 'paused';
+  mode: TrackingModeId;
+  title: string; // Heading over the day counter
   description: string;
   encouragement: string;
   icon: string;
 }
 
-export const TRACKING_MODES: Record<string, TrackingMode> = {
+export const TRACKING_MODES: Record<TrackingModeId, TrackingMode> = {
   sober: { 
     mode: 'sober',
+    title: "Days Sober",
     description: "Staying completely sober", 
     encouragement: "Every day is a victory!",
     icon: "🌟"
   },
   trying: { 
     mode: 'trying',
+    title: "Days Trying",
     description: "Working towards sobriety", 
     encouragement: "Every effort counts!",
     icon: "💪"
   },
   reducing: { 
     mode: 'reducing',
+    title: "Days Cutting Back",
     description: "Cutting back gradually", 
     encouragement: "Progress, not perfection!",
     icon: "📈"
   },
   paused: { 
     mode: 'paused',
+    title: "Tracking Paused",
     description: "Taking a break from tracking", 
     encouragement: "Self-care is important too!",
     icon: "🤗"
   }
 };
 
-export const getEncouragementMessage = (days: number, mode: string): string => {
+export const isTrackingMode = (mode: unknown): mode is TrackingModeId =>
+  TRACKING_MODE_IDS.includes(mode as TrackingModeId);
+
+export const isCountingMode = (mode: TrackingModeId): mode is CountingTrackingMode => mode !== 'paused';
+
+export const getEncouragementMessage = (days: number, mode: TrackingModeId): string => {
+  // Cutting back and taking a break aren't about an unbroken run of days
+  if (mode === 'reducing' || mode === 'paused') return TRACKING_MODES[mode].encouragement;
+
   if (days === 0) return "Today you chose to start. That's courage.";
   if (days === 1) return "One day at a time. You're doing it!";
   if (days < 7) return "Every day you choose yourself is a victory.";
@@ -111,7 +134,7 @@ export const getContextualReminder = (userState: {
   }
   
   if (userState.lastCheckIn) {
-    const daysSince = Math.floor((Date.now() - userState.lastCheckIn.getTime()) / (24 * 60 * 60 * 1000));
+    const daysSince = Math.floor((getNow().getTime() - userState.lastCheckIn.getTime()) / (24 * 60 * 60 * 1000));
     if (daysSince > 3) {
       return "We miss you! How are you feeling today?";
     }
@@ -120,28 +143,49 @@ export const getContextualReminder = (userState: {
   return "How are you feeling today? Remember, every day counts.";
 };
 
-export const formatSobrietyTime = (days: number): string => {
-  if (days === 0) return 'Today';
-  if (days === 1) return '1 Day';
-  if (days < 7) return `${days} Days`;
-  if (days < 30) {
-    const weeks = Math.floor(days / 7);
-    const remainingDays = days % 7;
-    if (remainingDays === 0) return `${weeks} Week${weeks > 1 ? 's' : ''}`;
-    return `${weeks} Week${weeks > 1 ? 's' : ''} ${remainingDays} Day${remainingDays > 1 ? 's' : ''}`;
-  }
-  if (days < 365) {
-    const months = Math.floor(days / 30);
-    const remainingDays = days % 30;
-    if (remainingDays === 0) return `${months} Month${months > 1 ? 's' : ''}`;
-    return `${months} Month${months > 1 ? 's' : ''} ${remainingDays} Day${remainingDays > 1 ? 's' : ''}`;
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+const withDays = (text: string, days: number) => (days === 0 ? text : `${text} ${plural(days, 'Day')}`);
+
+// Time since the sober date in real calendar weeks, months and years, e.g.
+// "2 Weeks 3 Days", "4 Months 1 Day", "1 Year 12 Days"
+export const formatSobrietyTime = (soberDate: string | Date, at: Date = getNow()): string => {
+  // Counted on the home calendar
+  const start = toHomeTime(new Date(soberDate));
+  const now = toHomeTime(at);
+  const days = calendarDaysBetween(start, now);
+  if (days <= 0) return 'Today';
+  if (days < 7) return plural(days, 'Day');
+
+  const duration = getCalendarDuration(start, now);
+  if (duration.years > 0) {
+    return withDays(plural(duration.years, 'Year'), calendarDaysBetween(addYears(start, duration.years), now));
   }
-  const years = Math.floor(days / 365);
-  const remainingDays = days % 365;
-  if (remainingDays === 0) return `${years} Year${years > 1 ? 's' : ''}`;
-  return `${years} Year${years > 1 ? 's' : ''} ${remainingDays} Day${remainingDays > 1 ? 's' : ''}`;
+  if (duration.months > 0) return withDays(plural(duration.months, 'Month'), duration.days);
+  return withDays(plural(Math.floor(days / 7), 'Week'), days % 7);
 };
 
+// The first days are also counted in hours and minutes, up to the 72 hour
+// milestone
+export const FIRST_DAYS_HOURS = 72;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export const isInFirstDays = (soberDate: string | Date, now: Date = getNow()): boolean => {
+  const elapsed = now.getTime() - new Date(soberDate).getTime();
+  return elapsed >= 0 && elapsed < FIRST_DAYS_HOURS * 60 * MS_PER_MINUTE;
+};
+
+// Exact time since the sober date, e.g. "45 minutes" or "26 hours 5 minutes"
+export const formatElapsedTime = (soberDate: string | Date, now: Date = getNow()): string => {
+  const minutes = Math.max(0, Math.floor((now.getTime() - new Date(soberDate).getTime()) / MS_PER_MINUTE));
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return plural(minutes, 'minute');
+  return minutes % 60 === 0 ? plural(hours, 'hour') : `${plural(hours, 'hour')} ${plural(minutes % 60, 'minute')}`;
+};
+
+export const MILESTONE_DAYS = [1, 3, 7, 14, 30, 60, 90, 180, 365];
+
 export const getMilestoneMessage = (days: number): string => {
   const milestones = {
     1: "🎉 One day! You're doing it!",
@@ -157,8 +201,3 @@ export const getMilestoneMessage = (days: number): string => {
   
   return milestones[days] || `🎯 ${days} days! You're doing amazing!`;
 };
-
-export const shouldShowMilestone = (days: number): boolean => {
-  const milestoneDays = [1, 3, 7, 14, 30, 60, 90, 180, 365];
-  return milestoneDays.includes(days);
-};
@@ -0,0 +1,176 @@
+// Savings
+// Money saved and time regained since a tracker's sober date. Money is kept as
+// integers in the currency's minor unit (cents, pence) and only turned into a
+// decimal for display.
+import { getLocales } from 'expo-localization';
+import { COUNTRIES, DEFAULT_COUNTRY, getDeviceCountry } from './countries';
+import { SpendPeriod, Tracker, TrackerSavings } from './database';
+
+export const MAX_GOAL_NAME_LENGTH = 40;
+export const MAX_MINUTES_PER_OCCASION = 24 * 60;
+export const MAX_OCCASIONS_PER_WEEK = 100;
+
+export const SPEND_PERIODS: { value: SpendPeriod; label: string }[] = [
+  { value: 'day', label: 'per day' },
+  { value: 'week', label: 'per week' },
+];
+
+// What the user types into the savings form
+export interface SavingsDraft {
+  spend: string;
+  spendPeriod: SpendPeriod;
+  minutesPerOccasion: string;
+  occasionsPerWeek: string;
+  goalName: string;
+  goalAmount: string;
+}
+
+export interface GoalProgress {
+  // 0-1, capped so progress bars don't overflow
+  ratio: number;
+  remainingMinor: number;
+  isReached: boolean;
+}
+
+// Currency for amounts entered on this device, from its settings or else its region
+export const getDeviceCurrency = (): string => {
+  try {
+    const currency = getLocales()[0]?.currencyCode;
+    if (currency) return currency;
+  } catch (error) {
+    // Fall back to the region below
+  }
+  return COUNTRIES[getDeviceCountry() ?? DEFAULT_COUNTRY].currency;
+};
+
+// The currency a tracker's amounts are in. Amounts stay in the currency they
+// were entered in even if the device moves to another region.
+export const getTrackerCurrency = (tracker: Tracker): string => tracker.currency || getDeviceCurrency();
+
+// Digits after the decimal point, e.g. 2 for USD and 0 for JPY
+export const getMinorUnitDigits = (currency: string): number => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch (error) {
+    return 2;
+  }
+};
+
+// "4.50", "4,50" and "$1,200" all work. Returns minor units, or null if the
+// value isn't an amount above zero.
+export const parseMoney = (value: string, currency: string): number | null => {
+  const cleaned = value.trim().replace(/[^\d.,]/g, '');
+  // A comma with one or two digits after it is a decimal comma
+  const normalized = /,\d{1,2}$/.test(cleaned)
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  const amount = Number(normalized);
+  if (!normalized || !Number.isFinite(amount) || amount <= 0) return null;
+  return Math.round(amount * 10 ** getMinorUnitDigits(currency));
+};
+
+// Formats in the device's locale unless one is given
+export const formatMoney = (minor: number, currency: string, locale?: string): string => {
+  const digits = getMinorUnitDigits(currency);
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(minor / 10 ** digits);
+  } catch (error) {
+    return `${(minor / 10 ** digits).toFixed(digits)} ${currency}`;
+  }
+};
+
+// Plain number for editing, e.g. 450 -> "4.50"
+export const toMoneyInput = (minor: number | null | undefined, currency: string): string => {
+  if (minor === null || minor === undefined) return '';
+  const digits = getMinorUnitDigits(currency);
+  return (minor / 10 ** digits).toFixed(digits);
+};
+
+const parseWholeNumber = (value: string, max: number): number | null => {
+  const number = Number(value.trim());
+  return Number.isInteger(number) && number > 0 && number <= max ? number : null;
+};
+
+export const hasSavingsSetUp = (tracker: Tracker): boolean =>
+  !!tracker.spend_minor || (!!tracker.minutes_per_occasion && !!tracker.occasions_per_week);
+
+export const getMoneySaved = (tracker: Tracker, days: number): number | null => {
+  if (!tracker.spend_minor) return null;
+  const perDay = tracker.spend_period === 'week' ? tracker.spend_minor / 7 : tracker.spend_minor;
+  return Math.round(perDay * Math.max(days, 0));
+};
+
+// Whole hours no longer spent on the habit
+export const getHoursRegained = (tracker: Tracker, days: number): number | null => {
+  if (!tracker.minutes_per_occasion || !tracker.occasions_per_week) return null;
+  const minutesPerDay = (tracker.minutes_per_occasion * tracker.occasions_per_week) / 7;
+  return Math.floor((minutesPerDay * Math.max(days, 0)) / 60);
+};
+
+export const getGoalProgress = (savedMinor: number, goalMinor: number): GoalProgress => ({
+  ratio: goalMinor > 0 ? Math.min(savedMinor / goalMinor, 1) : 0,
+  remainingMinor: Math.max(goalMinor - savedMinor, 0),
+  isReached: savedMinor >= goalMinor,
+});
+
+// Days left until the goal at the current rate, or null without a spend
+export const getDaysUntilGoal = (tracker: Tracker, savedMinor: number): number | null => {
+  if (!tracker.spend_minor || !tracker.savings_goal_minor) return null;
+  const perDay = tracker.spend_period === 'week' ? tracker.spend_minor / 7 : tracker.spend_minor;
+  return Math.ceil(Math.max(tracker.savings_goal_minor - savedMinor, 0) / perDay);
+};
+
+export const formatHours = (hours: number): string =>
+  `${hours.toLocaleString()} ${hours === 1 ? 'hour' : 'hours'}`;
+
+export const createSavingsDraft = (tracker: Tracker): SavingsDraft => {
+  const currency = getTrackerCurrency(tracker);
+  return {
+    spend: toMoneyInput(tracker.spend_minor, currency),
+    spendPeriod: tracker.spend_period ?? 'week',
+    minutesPerOccasion: tracker.minutes_per_occasion?.toString() ?? '',
+    occasionsPerWeek: tracker.occasions_per_week?.toString() ?? '',
+    goalName: tracker.savings_goal_name ?? '',
+    goalAmount: toMoneyInput(tracker.savings_goal_minor, currency),
+  };
+};
+
+// Returns an error message, or null if the draft can be saved. Every part is
+// optional, but each part has to be complete.
+export const validateSavingsDraft = (draft: SavingsDraft, currency: string): string | null => {
+  if (draft.spend.trim() && parseMoney(draft.spend, currency) === null) {
+    return 'Please enter what you usually spent as an amount, like 25 or 4.50.';
+  }
+
+  const hasMinutes = !!draft.minutesPerOccasion.trim();
+  const hasOccasions = !!draft.occasionsPerWeek.trim();
+  if (hasMinutes !== hasOccasions) {
+    return 'To work out time regained, please fill in both how long each time took and how often it happened.';
+  }
+  if (hasMinutes && parseWholeNumber(draft.minutesPerOccasion, MAX_MINUTES_PER_OCCASION) === null) {
+    return `Please enter the minutes each time took as a whole number up to ${MAX_MINUTES_PER_OCCASION}.`;
+  }
+  if (hasOccasions && parseWholeNumber(draft.occasionsPerWeek, MAX_OCCASIONS_PER_WEEK) === null) {
+    return `Please enter how many times a week as a whole number up to ${MAX_OCCASIONS_PER_WEEK}.`;
+  }
+
+  const hasGoalName = !!draft.goalName.trim();
+  const hasGoalAmount = !!draft.goalAmount.trim();
+  if (hasGoalName && !hasGoalAmount) return 'Please enter how much your goal costs.';
+  if (hasGoalAmount && !hasGoalName) return 'Please give your goal a name, like "New bike".';
+  if (hasGoalAmount && parseMoney(draft.goalAmount, currency) === null) {
+    return 'Please enter your goal as an amount, like 600.';
+  }
+
+  return null;
+};
+
+export const draftToSavings = (draft: SavingsDraft, currency: string): TrackerSavings => ({
+  currency,
+  spend_minor: draft.spend.trim() ? parseMoney(draft.spend, currency) : null,
+  spend_period: draft.spend.trim() ? draft.spendPeriod : null,
+  minutes_per_occasion: parseWholeNumber(draft.minutesPerOccasion, MAX_MINUTES_PER_OCCASION),
+  occasions_per_week: parseWholeNumber(draft.occasionsPerWeek, MAX_OCCASIONS_PER_WEEK),
+  savings_goal_name: draft.goalName.trim() || null,
+  savings_goal_minor: draft.goalAmount.trim() ? parseMoney(draft.goalAmount, currency) : null,
+});
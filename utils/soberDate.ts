@@ -0,0 +1,112 @@
+// Sober Date
+// The date, and optionally the time, a tracker counts from as it's entered in
+// the date picker. Both are home time; the sober date is saved as the exact
+// instant they stand for, so editing it later doesn't drift.
+import { daysSince, fromHomeTime, getNow, toHomeTime } from './clock';
+import { addDaysToKey, addMonths, formatDateKey } from './dateMath';
+import { parseDateKey } from './milestones';
+import { formatElapsedTime, formatSobrietyTime, isInFirstDays } from './safeTracking';
+
+export interface SoberDateDraft {
+  // YYYY-MM-DD
+  dateKey: string;
+  // 'HH:MM', 24-hour
+  time: string;
+  // Without a time the count starts at midnight
+  hasTime: boolean;
+}
+
+export type SoberDateField = 'year' | 'month' | 'day';
+export type SoberTimeField = 'hour' | 'minute';
+
+export const MAX_SOBER_YEARS = 50;
+export const MINUTE_STEP = 5;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const formatTime = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+// Starts from the current sober date, or today for a new one. A new draft
+// holds the current time in case the user adds one.
+export const createSoberDateDraft = (soberDate: string | null = null, now: Date = getNow()): SoberDateDraft => {
+  const home = toHomeTime(soberDate ? new Date(soberDate) : now);
+  const time = formatTime(home);
+  return { dateKey: formatDateKey(home), time, hasTime: !!soberDate && time !== '00:00' };
+};
+
+// The instant a draft stands for, or null if its date isn't real
+export const getDraftInstant = (draft: SoberDateDraft): Date | null => {
+  const date = parseDateKey(draft.dateKey);
+  if (!date) return null;
+  if (draft.hasTime) {
+    const [hours, minutes] = draft.time.split(':').map(Number);
+    date.setHours(hours, minutes);
+  }
+  return fromHomeTime(date);
+};
+
+// Returns an error message, or null if the sober date can be saved
+export const validateSoberDateDraft = (draft: SoberDateDraft, now: Date = getNow()): string | null => {
+  const instant = getDraftInstant(draft);
+  if (!instant) return 'Please pick a real date.';
+
+  const today = formatDateKey(toHomeTime(now));
+  if (draft.dateKey > today) return 'Your start date can\'t be in the future. Please pick today or an earlier day.';
+  if (instant > now) return 'That time hasn\'t come yet today. Please pick an earlier time.';
+  if (draft.dateKey < formatDateKey(addMonths(toHomeTime(now), -MAX_SOBER_YEARS * 12))) {
+    return `Please pick a date in the last ${MAX_SOBER_YEARS} years.`;
+  }
+
+  return null;
+};
+
+// The sober date to save. Keeps `current` when the draft still shows it, so
+// saving other changes doesn't drop the seconds of an exact start time.
+export const draftToSoberDate = (draft: SoberDateDraft, current: string | null = null): string => {
+  if (current) {
+    const shown = createSoberDateDraft(current);
+    const shownTime = shown.hasTime ? shown.time : '00:00';
+    const draftTime = draft.hasTime ? draft.time : '00:00';
+    if (shown.dateKey === draft.dateKey && shownTime === draftTime) return current;
+  }
+  return getDraftInstant(draft)!.toISOString();
+};
+
+// Moves one part of the date, stopping at today. Stepping months or years
+// from a day the target month doesn't have lands on its last day.
+export const stepSoberDate = (
+  dateKey: string,
+  field: SoberDateField,
+  amount: number,
+  now: Date = getNow()
+): string => {
+  const date = parseDateKey(dateKey);
+  if (!date) return dateKey;
+
+  const next = field === 'day'
+    ? addDaysToKey(dateKey, amount)
+    : formatDateKey(addMonths(date, field === 'year' ? amount * 12 : amount));
+  const today = formatDateKey(toHomeTime(now));
+  return next > today ? today : next;
+};
+
+// Moves the hour or minute, wrapping around midnight without changing the date
+export const stepSoberTime = (time: string, field: SoberTimeField, amount: number): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const total = hours * 60 + minutes + (field === 'hour' ? amount * 60 : amount);
+  const wrapped = ((total % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+// What the counter will show for the draft: hours and minutes in the first
+// days, then days, e.g. "12 days · 1 Week 5 Days". Null while it's invalid.
+export const getSoberDatePreview = (draft: SoberDateDraft, now: Date = getNow()): string | null => {
+  if (validateSoberDateDraft(draft, now)) return null;
+
+  const instant = getDraftInstant(draft)!;
+  if (isInFirstDays(instant, now)) return formatElapsedTime(instant, now);
+
+  const days = daysSince(instant, now);
+  return `${days.toLocaleString()} ${days === 1 ? 'day' : 'days'} · ${formatSobrietyTime(instant, now)}`;
+};
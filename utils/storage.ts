@@ -1,4 +1,10 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CustomBreathingTimings, DEFAULT_BREATHING_PATTERN_ID, DEFAULT_CUSTOM_TIMINGS } from './breathingPatterns';
+import { isValidTimeZone } from './clock';
+import { CountryCode, DEFAULT_COUNTRY, getDeviceCountry, isCountryCode } from './countries';
+import { ReminderSettings, withReminderDefaults } from './reminders';
+import { TrackingModeId } from './safeTracking';
+import { HomeTrackerDisplay } from './trackers';
 
 // Storage keys
 const STORAGE_KEYS = {
@@ -6,6 +12,11 @@ const STORAGE_KEYS = {
   USER_NAME: 'userName',
   SETUP_STEP: 'setupStep', // Track which step of onboarding user is on
   SHOW_SOBRIETY_COUNTER: 'showSobrietyCounter', // Control sobriety counter visibility
+  BREATHING_PATTERN: 'breathingPattern', // SOS breathing pattern and custom timings
+  COUNTRY: 'country', // Default country for phone numbers
+  REMINDERS: 'reminders', // Daily reminder times, toggles and quiet hours
+  HOME_TRACKER_DISPLAY: 'homeTrackerDisplay', // Primary tracker or rotate on Home
+  HOME_TIME_ZONE: 'homeTimeZone', // Time zone days are counted in
 } as const;
 
 export const storage = {
@@ -93,7 +104,7 @@ export const storage = {
     }
   },
 
-  async setSobrietyData(data: {trackingSobriety: boolean, trackingMode: 'sober' | 'trying', soberDate?: string}): Promise<void> {
+  async setSobrietyData(data: {trackingSobriety: boolean, trackingMode: TrackingModeId, soberDate?: string}): Promise<void> {
     try {
       await AsyncStorage.setItem('sobrietyData', JSON.stringify(data));
       // console.log('Sobriety data saved:', data);
@@ -188,6 +199,114 @@ export const storage = {
     }
   },
 
+  // SOS breathing pattern
+  async getBreathingPattern(): Promise<{patternId: string, customTimings: CustomBreathingTimings}> {
+    try {
+      const value = await AsyncStorage.getItem(STORAGE_KEYS.BREATHING_PATTERN);
+      const saved = value ? JSON.parse(value) : {};
+      return {
+        patternId: saved.patternId || DEFAULT_BREATHING_PATTERN_ID,
+        customTimings: { ...DEFAULT_CUSTOM_TIMINGS, ...saved.customTimings },
+      };
+    } catch (error) {
+      // console.error('Error getting breathing pattern:', error);
+      return { patternId: DEFAULT_BREATHING_PATTERN_ID, customTimings: DEFAULT_CUSTOM_TIMINGS };
+    }
+  },
+
+  async setBreathingPattern(patternId: string, customTimings: CustomBreathingTimings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.BREATHING_PATTERN, JSON.stringify({ patternId, customTimings }));
+      // console.log('Breathing pattern saved:', patternId);
+    } catch (error) {
+      // console.error('Error saving breathing pattern:', error);
+      throw error;
+    }
+  },
+
+  // Country, defaulting to the device's region until the user picks one
+  async getCountry(): Promise<CountryCode> {
+    try {
+      const value = await AsyncStorage.getItem(STORAGE_KEYS.COUNTRY);
+      if (isCountryCode(value)) return value;
+    } catch (error) {
+      // console.error('Error getting country:', error);
+    }
+    return getDeviceCountry() || DEFAULT_COUNTRY;
+  },
+
+  async setCountry(country: CountryCode): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.COUNTRY, country);
+      // console.log('Country saved:', country);
+    } catch (error) {
+      // console.error('Error saving country:', error);
+      throw error;
+    }
+  },
+
+  // Home time zone, null until the app first saves the device's
+  async getHomeTimeZone(): Promise<string | null> {
+    try {
+      const value = await AsyncStorage.getItem(STORAGE_KEYS.HOME_TIME_ZONE);
+      return isValidTimeZone(value) ? value : null;
+    } catch (error) {
+      // console.error('Error getting home time zone:', error);
+      return null;
+    }
+  },
+
+  async setHomeTimeZone(timeZone: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.HOME_TIME_ZONE, timeZone);
+      // console.log('Home time zone saved:', timeZone);
+    } catch (error) {
+      // console.error('Error saving home time zone:', error);
+      throw error;
+    }
+  },
+
+  // Daily reminders
+  async getReminderSettings(): Promise<ReminderSettings> {
+    try {
+      const value = await AsyncStorage.getItem(STORAGE_KEYS.REMINDERS);
+      return withReminderDefaults(value ? JSON.parse(value) : null);
+    } catch (error) {
+      // console.error('Error getting reminder settings:', error);
+      return withReminderDefaults(null);
+    }
+  },
+
+  async setReminderSettings(settings: ReminderSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.REMINDERS, JSON.stringify(settings));
+      // console.log('Reminder settings saved');
+    } catch (error) {
+      // console.error('Error saving reminder settings:', error);
+      throw error;
+    }
+  },
+
+  // Home tracker display
+  async getHomeTrackerDisplay(): Promise<HomeTrackerDisplay> {
+    try {
+      const value = await AsyncStorage.getItem(STORAGE_KEYS.HOME_TRACKER_DISPLAY);
+      return value === 'rotate' ? 'rotate' : 'primary';
+    } catch (error) {
+      // console.error('Error getting home tracker display:', error);
+      return 'primary';
+    }
+  },
+
+  async setHomeTrackerDisplay(display: HomeTrackerDisplay): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.HOME_TRACKER_DISPLAY, display);
+    } catch (error) {
+      // console.error('Error saving home tracker display:', error);
+      throw error;
+    }
+  },
+
   // Debug: Log all stored data
   async debugLogAllData(): Promise<void> {
     try {
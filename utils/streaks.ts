@@ -0,0 +1,63 @@
+// Streaks
+// Day counts and totals for the streak history. Days are counted by calendar
+// date, the same way as the main counter.
+import { getNow, toHomeTime } from './clock';
+import { Streak } from './database';
+
+export interface StreakSummary {
+  // Null when nothing is being tracked right now
+  currentDays: number | null;
+  longestDays: number;
+  // Every tracked day across all streaks, counting overlapping days once
+  totalDays: number;
+  streakCount: number;
+}
+
+export const MAX_STREAK_NOTE_LENGTH = 300;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Days since the Unix epoch for the home calendar date
+const toDayNumber = (date: Date) => {
+  const home = toHomeTime(date);
+  return Math.round(Date.UTC(home.getFullYear(), home.getMonth(), home.getDate()) / MS_PER_DAY);
+};
+
+const getDayRange = (streak: Streak, now: Date): [number, number] => {
+  const start = toDayNumber(new Date(streak.started_at));
+  const end = toDayNumber(streak.ended_at ? new Date(streak.ended_at) : now);
+  return [start, Math.max(start, end)];
+};
+
+export const getStreakDays = (streak: Streak, now: Date = getNow()): number => {
+  const [start, end] = getDayRange(streak, now);
+  return end - start;
+};
+
+export const summarizeStreaks = (streaks: Streak[], now: Date = getNow()): StreakSummary => {
+  const current = streaks.find(streak => !streak.ended_at);
+
+  // Merge overlapping ranges so a corrected start date isn't counted twice
+  const ranges = streaks.map(streak => getDayRange(streak, now)).sort((a, b) => a[0] - b[0]);
+  let totalDays = 0;
+  let mergedEnd = -Infinity;
+  for (const [start, end] of ranges) {
+    const from = Math.max(start, mergedEnd);
+    if (end > from) totalDays += end - from;
+    mergedEnd = Math.max(mergedEnd, end);
+  }
+
+  return {
+    currentDays: current ? getStreakDays(current, now) : null,
+    longestDays: streaks.reduce((longest, streak) => Math.max(longest, getStreakDays(streak, now)), 0),
+    totalDays,
+    streakCount: streaks.length,
+  };
+};
+
+export const formatStreakDays = (days: number): string => (days === 1 ? '1 day' : `${days} days`);
+
+export const formatStreakRange = (streak: Streak): string => {
+  const start = new Date(streak.started_at).toLocaleDateString();
+  return streak.ended_at ? `${start} – ${new Date(streak.ended_at).toLocaleDateString()}` : `${start} – now`;
+};
@@ -0,0 +1,119 @@
+// Support Contacts
+// Roles, form validation and availability hours for the people a user can
+// reach out to. Storage lives in database.ts.
+import { getNow, toHomeTime } from './clock';
+import { SupportPerson, SupportPersonInput, SupportRole } from './database';
+import { COUNTRIES, CountryCode } from './countries';
+import { formatPhoneNumber, isValidPhoneNumber, normalizePhoneNumber } from './phone';
+
+export const SUPPORT_ROLES: Record<SupportRole, { label: string; icon: string }> = {
+  sponsor: { label: 'Sponsor', icon: '🤝' },
+  therapist: { label: 'Therapist', icon: '🩺' },
+  friend: { label: 'Friend', icon: '💙' },
+  family: { label: 'Family', icon: '🏡' },
+};
+
+export const DEFAULT_SUPPORT_ROLE: SupportRole = 'friend';
+
+export const MAX_SUPPORT_NOTES_LENGTH = 300;
+
+// What the add/edit form holds while the user is typing
+export interface SupportPersonDraft {
+  name: string;
+  phone: string;
+  role: SupportRole;
+  notes: string;
+  availableFrom: string;
+  availableUntil: string;
+}
+
+export const EMPTY_SUPPORT_DRAFT: SupportPersonDraft = {
+  name: '',
+  phone: '',
+  role: DEFAULT_SUPPORT_ROLE,
+  notes: '',
+  availableFrom: '',
+  availableUntil: '',
+};
+
+export const draftFromPerson = (person: SupportPerson, country: CountryCode): SupportPersonDraft => ({
+  name: person.name,
+  phone: formatPhoneNumber(person.phone, country),
+  role: person.role || DEFAULT_SUPPORT_ROLE,
+  notes: person.notes || '',
+  availableFrom: person.available_from || '',
+  availableUntil: person.available_until || '',
+});
+
+// Accepts '9', '9:30' or '09:30' and returns 'HH:MM', or null if it isn't a time
+export const parseTimeOfDay = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+// Returns an error message, or null if the draft can be saved
+export const validateSupportDraft = (draft: SupportPersonDraft, country: CountryCode): string | null => {
+  if (!draft.name.trim() || !draft.phone.trim()) {
+    return 'Please enter both name and phone number.';
+  }
+  if (!isValidPhoneNumber(draft.phone, country)) {
+    return `Please enter a valid phone number. For numbers outside ${COUNTRIES[country].name}, start with + and the country code.`;
+  }
+
+  const from = draft.availableFrom.trim();
+  const until = draft.availableUntil.trim();
+  if (!from && !until) return null;
+  if (!from || !until) {
+    return 'Please enter both times for availability, or leave both empty.';
+  }
+  if (!parseTimeOfDay(from) || !parseTimeOfDay(until)) {
+    return 'Please enter availability times like 9:00 or 17:30.';
+  }
+  return null;
+};
+
+// Expects a draft that has passed validateSupportDraft
+export const draftToInput = (draft: SupportPersonDraft, country: CountryCode): SupportPersonInput => ({
+  name: draft.name.trim(),
+  phone: normalizePhoneNumber(draft.phone, country) ?? draft.phone.trim(),
+  role: draft.role,
+  notes: draft.notes.trim() || null,
+  available_from: parseTimeOfDay(draft.availableFrom),
+  available_until: parseTimeOfDay(draft.availableUntil),
+});
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// People without hours set are treated as always available.
+// A range like 22:00-06:00 wraps past midnight.
+export const isAvailableAt = (person: SupportPerson, date: Date = getNow()): boolean => {
+  if (!person.available_from || !person.available_until) return true;
+
+  const home = toHomeTime(date);
+  const now = home.getHours() * 60 + home.getMinutes();
+  const from = toMinutes(person.available_from);
+  const until = toMinutes(person.available_until);
+
+  if (from === until) return true;
+  return from < until ? now >= from && now < until : now >= from || now < until;
+};
+
+export const formatAvailability = (person: SupportPerson): string | null => {
+  if (!person.available_from || !person.available_until) return null;
+  return `Usually available ${person.available_from}–${person.available_until}`;
+};
+
+// Priority order, but anyone outside their hours drops below those who are available
+export const orderForReachOut = (people: SupportPerson[], date: Date = getNow()): SupportPerson[] => [
+  ...people.filter(person => isAvailableAt(person, date)),
+  ...people.filter(person => !isAvailableAt(person, date)),
+];
@@ -0,0 +1,37 @@
+// Trackers
+// Helpers for keeping several named counters side by side, e.g. alcohol and
+// nicotine quit on different dates, and choosing which ones Home shows.
+import { Tracker } from './database';
+
+export const DEFAULT_TRACKER_NAME = 'Sobriety';
+export const TRACKER_NAME_SUGGESTIONS = ['Alcohol', 'Nicotine', 'Cannabis', 'Gambling', 'Social media'];
+export const MAX_TRACKER_NAME_LENGTH = 30;
+
+// Home shows the primary tracker, or cycles through every counting one
+export type HomeTrackerDisplay = 'primary' | 'rotate';
+export const HOME_ROTATE_INTERVAL_MS = 6000;
+
+// Trackers with a date being counted from
+export const getCountingTrackers = (trackers: Tracker[]): Tracker[] =>
+  trackers.filter(tracker => tracker.tracking_sobriety && !!tracker.sober_date);
+
+// Counting trackers for Home, primary first. Rotating shows all of them.
+export const getHomeTrackers = (trackers: Tracker[], display: HomeTrackerDisplay): Tracker[] => {
+  const counting = getCountingTrackers(trackers);
+  const ordered = [
+    ...counting.filter(tracker => tracker.is_primary),
+    ...counting.filter(tracker => !tracker.is_primary),
+  ];
+  return display === 'rotate' ? ordered : ordered.slice(0, 1);
+};
+
+// Returns an error message, or null if the name can be saved
+export const validateTrackerName = (name: string, trackers: Tracker[], editingId?: number): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Please give this tracker a name, like Alcohol or Nicotine.';
+
+  const isTaken = trackers.some(
+    tracker => tracker.id !== editingId && tracker.name.trim().toLowerCase() === trimmed.toLowerCase()
+  );
+  return isTaken ? `You already have a tracker called ${trimmed}.` : null;
+};